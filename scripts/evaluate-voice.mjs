@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+// Runs the voice assistant's NLP regression corpus and golden conversations
+// from tests/voice headlessly and prints intent accuracy and slot F1, so parser
+// changes can be compared before and after. Passing them is checked by
+// `npm test`; this only reports.
+//
+//   npm run eval:voice            (add -- --json for the full report)
+//
+// The TypeScript sources are loaded through Vite, which resolves the "@"
+// alias and import.meta.env exactly as the app build does.
+import { createServer } from 'vite';
+
+const json = process.argv.includes('--json');
+const percent = value => `${(value * 100).toFixed(1)}%`;
+
+const vite = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+});
+
+try {
+  const { runNlpRegressionCorpus } = await vite.ssrLoadModule('/tests/voice/nlpRegression.ts');
+  const { evaluateConversations } = await vite.ssrLoadModule('/tests/voice/voiceEvaluation.ts');
+  const { NLP_REGRESSION_CORPUS } = await vite.ssrLoadModule('/tests/voice/nlpRegressionCorpus.ts');
+  const { GOLDEN_CONVERSATIONS } = await vite.ssrLoadModule('/tests/voice/goldenConversations.ts');
+
+  const regressions = runNlpRegressionCorpus(NLP_REGRESSION_CORPUS);
+  const report = await evaluateConversations(GOLDEN_CONVERSATIONS);
+
+  if (json) {
+    console.log(JSON.stringify({ regressions, report }, null, 2));
+  } else {
+    console.log(`Conversations: ${report.conversations} (${report.turns} turns)`);
+    console.log(`Intent accuracy: ${percent(report.intentAccuracy)}`);
+    const { precision, recall, f1 } = report.slots;
+    console.log(`Slot F1: ${percent(f1)} (precision ${percent(precision)}, recall ${percent(recall)})`);
+    for (const [type, score] of Object.entries(report.slotsByType)) {
+      console.log(`  ${type.padEnd(18)} F1 ${percent(score.f1)}`);
+    }
+
+    for (const { utterance, problems } of regressions) {
+      console.log(`\nRegression: "${utterance}"\n  ${problems.join('\n  ')}`);
+    }
+    for (const { conversation, turn, user, problems } of report.failures) {
+      console.log(`\n${conversation}, turn ${turn}: "${user}"\n  ${problems.join('\n  ')}`);
+    }
+    console.log(`\n${regressions.length} regressions, ${report.failures.length} failed turns`);
+  }
+} finally {
+  await vite.close();
+}
@@ -0,0 +1,277 @@
+#!/usr/bin/env node
+// Stand-in for the ElevenLabs conversational agent, for trying voice control
+// offline. It speaks just enough of the agent protocol for the browser client:
+// it hands out signed URLs, accepts the conversation WebSocket and answers
+// every user message with one scripted client tool call.
+//
+//   npm run mock:agent               (PORT=8787 by default)
+//
+// Then set Admin -> Settings -> Agent Server to ws://localhost:8787 with any
+// agent id. There is no speech recognition here: type what the customer says,
+// either in this terminal or through the client's sendUserMessage.
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+import { createInterface } from 'node:readline';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const CONVERSATION_PATH = '/v1/convai/conversation';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'xi-api-key, content-type',
+};
+
+// Open conversations, so lines typed in the terminal reach all of them
+const sessions = new Set();
+
+// --- WebSocket framing (RFC 6455), text frames only ---
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Splits complete frames off the front of `buffer`; whatever is left waits for more data
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const mask = buffer.subarray(cursor, cursor + maskLength);
+    const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ opcode, payload });
+    offset = cursor + maskLength + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+// --- The scripted agent ---
+
+// "compare abc and def", "open car abc", anything else is a search
+function chooseTool(text) {
+  const compare = text.match(/compare\s+(\S+)\s+(?:and|with|to)\s+(\S+)/i);
+  if (compare) {
+    return { tool_name: 'navigateToComparison', parameters: { car1Id: compare[1], car2Id: compare[2] } };
+  }
+  const details = text.match(/(?:open|show)\s+car\s+(\S+)/i);
+  if (details) {
+    return { tool_name: 'navigateToCarDetail', parameters: { carId: details[1] } };
+  }
+  return { tool_name: 'searchCars', parameters: { query: text, showResults: true } };
+}
+
+const describeCar = car => `a ${car.year} ${car.make} ${car.model} for ${car.price}`;
+
+// What the agent says once a tool has answered
+function summarizeResult(toolName, result, isError) {
+  let data;
+  try {
+    data = JSON.parse(result);
+  } catch {
+    return isError ? `That did not work: ${result}` : String(result);
+  }
+
+  if (isError || data.ok === false) return `Sorry, that did not work. ${data.error ?? ''}`.trim();
+
+  switch (toolName) {
+    case 'searchCars':
+      if (data.total > 0) {
+        return `I found ${data.total} cars. The first one is ${describeCar(data.cars[0])}.`;
+      }
+      if (data.suggestion) {
+        return `Nothing matches exactly, but ${data.suggestion.total} cars would with a slightly wider search.`;
+      }
+      return 'I could not find anything like that.';
+    case 'navigateToCarDetail':
+      return `Here is ${describeCar(data.car)}.`;
+    case 'navigateToComparison':
+      return `Here are the ${data.cars.length} cars side by side.`;
+    default:
+      return 'Done.';
+  }
+}
+
+function createSession(socket) {
+  // Tool calls waiting for the browser to answer, by call id
+  const pendingCalls = new Map();
+
+  const send = message => {
+    if (!socket.destroyed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  };
+
+  const say = text => {
+    console.log(`agent: ${text}`);
+    send({ type: 'agent_response', agent_response_event: { agent_response: text } });
+  };
+
+  const hear = text => {
+    console.log(`user:  ${text}`);
+    send({ type: 'user_transcript', user_transcription_event: { user_transcript: text } });
+
+    const call = { ...chooseTool(text), tool_call_id: randomUUID() };
+    pendingCalls.set(call.tool_call_id, call.tool_name);
+    console.log(`tool:  ${call.tool_name} ${JSON.stringify(call.parameters)}`);
+    send({ type: 'client_tool_call', client_tool_call: call });
+  };
+
+  const receive = message => {
+    switch (message.type) {
+      case 'conversation_initiation_client_data':
+        say('Hi! Tell me what kind of car you are looking for.');
+        break;
+      case 'user_message':
+        hear(message.text);
+        break;
+      case 'client_tool_result': {
+        const toolName = pendingCalls.get(message.tool_call_id);
+        pendingCalls.delete(message.tool_call_id);
+        console.log(`result: ${message.result}`);
+        say(summarizeResult(toolName, message.result, message.is_error));
+        break;
+      }
+      default:
+        // Microphone audio, pongs and feedback have nothing to answer
+        break;
+    }
+  };
+
+  const session = { hear };
+  sessions.add(session);
+
+  let buffered = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffered, chunk]));
+    buffered = rest;
+
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, payload));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+        continue;
+      }
+      if (opcode !== 0x1) continue;
+
+      try {
+        receive(JSON.parse(payload.toString('utf8')));
+      } catch (error) {
+        console.error('Ignoring a message that is not JSON:', error.message);
+      }
+    }
+  });
+
+  const close = () => {
+    if (sessions.delete(session)) console.log('Conversation closed');
+  };
+  socket.on('close', close);
+  socket.on('error', close);
+
+  console.log('Conversation opened');
+  send({
+    type: 'conversation_initiation_metadata',
+    conversation_initiation_metadata_event: {
+      conversation_id: `mock_${randomUUID()}`,
+      agent_output_audio_format: 'pcm_16000',
+      user_input_audio_format: 'pcm_16000',
+    },
+  });
+}
+
+// --- HTTP ---
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  if (url.pathname === `${CONVERSATION_PATH}/get-signed-url`) {
+    const agentId = url.searchParams.get('agent_id') ?? 'mock-agent';
+    const signedUrl = `ws://${request.headers.host}${CONVERSATION_PATH}?agent_id=${encodeURIComponent(agentId)}`;
+    response.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ signed_url: signedUrl }));
+    return;
+  }
+
+  response.writeHead(404, CORS_HEADERS).end();
+});
+
+server.on('upgrade', (request, socket) => {
+  const { pathname } = new URL(request.url, `http://${request.headers.host}`);
+  const key = request.headers['sec-websocket-key'];
+
+  if (pathname !== CONVERSATION_PATH || !key) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  // The client asks for the "convai" subprotocol and refuses a connection that does not echo it
+  const protocols = (request.headers['sec-websocket-protocol'] ?? '').split(',').map(protocol => protocol.trim());
+  const headers = [
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    ...(protocols.includes('convai') ? ['Sec-WebSocket-Protocol: convai'] : []),
+  ];
+  socket.write(`${headers.join('\r\n')}\r\n\r\n`);
+  createSession(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock agent listening on ws://localhost:${PORT}`);
+  console.log('Type a customer message and press enter to send it to every open conversation.');
+});
+
+createInterface({ input: process.stdin }).on('line', line => {
+  const text = line.trim();
+  if (!text) return;
+  if (sessions.size === 0) {
+    console.log('No conversation is open yet; press the microphone button in the app first.');
+    return;
+  }
+  for (const session of sessions) session.hear(text);
+});
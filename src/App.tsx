@@ -3,6 +3,9 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { VoiceSessionProvider } from "@/components/VoiceSessionProvider";
+import { SpeechSessionProvider } from "@/components/SpeechSessionProvider";
+import { VoiceProvider } from "@/components/VoiceProvider";
 import Index from "./pages/Index";
 import Inventory from "./pages/Inventory";
 import CarDetail from "./pages/CarDetail";
@@ -17,17 +20,24 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/inventory" element={<Inventory />} />
-          <Route path="/car/:id" element={<CarDetail />} />
-          <Route path="/compare" element={<Comparison />} />
-          <Route path="/admin/*" element={<Admin />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <VoiceSessionProvider>
+        <SpeechSessionProvider>
+          <BrowserRouter>
+            {/* Inside the router so agent tools can navigate, above the routes so navigating keeps the agent session */}
+            <VoiceProvider>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/inventory" element={<Inventory />} />
+                <Route path="/car/:id" element={<CarDetail />} />
+                <Route path="/compare" element={<Comparison />} />
+                <Route path="/admin/*" element={<Admin />} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </VoiceProvider>
+          </BrowserRouter>
+        </SpeechSessionProvider>
+      </VoiceSessionProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,16 +8,19 @@ import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { CarFilters } from '@/types/car';
+import { Car, CarFilters } from '@/types/car';
+import { FacetOption, computeFacets } from '@/utils/facets';
+import { DEFAULT_POSTAL_COUNTRY, getSearchOrigin } from '@/utils/geo';
+import { POSTAL_COUNTRIES } from '@/data/postalCodes';
 import { X, RotateCcw } from 'lucide-react';
 
 interface AdvancedFiltersProps {
+  cars: Car[];
   filters: Partial<CarFilters>;
   onFiltersChange: (filters: Partial<CarFilters>) => void;
   onReset: () => void;
 }
 
-const makes = ['BMW', 'Mercedes', 'Audi', 'Porsche', 'Tesla', 'Lamborghini', 'Ferrari', 'Land Rover', 'Volkswagen', 'Toyota'];
 const vehicleTypes = [
   { value: 'cabriolet', label: 'Cabriolet/Roadster' },
   { value: 'suv', label: 'SUV/Off-road' },
@@ -52,13 +55,58 @@ const transmissions = [
   { value: 'semi-automatic', label: 'Semi-automatic' },
   { value: 'manual', label: 'Manual gearbox' },
 ];
-const colors = ['Black', 'White', 'Silver', 'Grey', 'Blue', 'Red', 'Brown', 'Green', 'Orange', 'Yellow', 'Beige', 'Gold', 'Purple'];
+const radiusOptions = [10, 25, 50, 100, 200, 500];
+
+const labelFor = (options: { value: string; label: string }[]) => (value: string) =>
+  options.find(option => option.value === value)?.label ?? value;
+
+interface FacetCheckboxGroupProps {
+  idPrefix: string;
+  options: FacetOption[];
+  selected?: string[];
+  onToggle: (value: string) => void;
+  getLabel?: (value: string) => string;
+  className: string;
+}
+
+// Options that would yield no cars stay visible but disabled, unless already selected
+const FacetCheckboxGroup: React.FC<FacetCheckboxGroupProps> = ({
+  idPrefix,
+  options,
+  selected,
+  onToggle,
+  getLabel = value => value,
+  className,
+}) => (
+  <div className={className}>
+    {options.map(({ value, count }) => {
+      const checked = selected?.includes(value) || false;
+      const disabled = count === 0 && !checked;
+      return (
+        <div key={value} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${idPrefix}-${value}`}
+            checked={checked}
+            disabled={disabled}
+            onCheckedChange={() => onToggle(value)}
+          />
+          <Label htmlFor={`${idPrefix}-${value}`} className={`text-sm ${disabled ? 'text-muted-foreground' : ''}`}>
+            {getLabel(value)} <span className="text-muted-foreground">({count})</span>
+          </Label>
+        </div>
+      );
+    })}
+  </div>
+);
 
 export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
+  cars,
   filters,
   onFiltersChange,
   onReset,
 }) => {
+  const facets = useMemo(() => computeFacets(cars, filters), [cars, filters]);
+
   const updateFilter = <K extends keyof CarFilters>(key: K, value: CarFilters[K]) => {
     onFiltersChange({ ...filters, [key]: value });
   };
@@ -144,34 +192,25 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
         <CardContent className="space-y-4">
           <div>
             <Label className="text-sm font-medium">Make</Label>
-            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
-              {makes.map(make => (
-                <div key={make} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={`make-${make}`}
-                    checked={filters.makes?.includes(make) || false}
-                    onCheckedChange={() => toggleArrayValue('makes', make)}
-                  />
-                  <Label htmlFor={`make-${make}`} className="text-sm">{make}</Label>
-                </div>
-              ))}
-            </div>
+            <FacetCheckboxGroup
+              idPrefix="make"
+              options={facets.makes}
+              selected={filters.makes}
+              onToggle={value => toggleArrayValue('makes', value)}
+              className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2"
+            />
           </div>
 
           <div>
             <Label className="text-sm font-medium">Vehicle Type</Label>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2">
-              {vehicleTypes.map(type => (
-                <div key={type.value} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={`type-${type.value}`}
-                    checked={filters.vehicleTypes?.includes(type.value) || false}
-                    onCheckedChange={() => toggleArrayValue('vehicleTypes', type.value)}
-                  />
-                  <Label htmlFor={`type-${type.value}`} className="text-sm">{type.label}</Label>
-                </div>
-              ))}
-            </div>
+            <FacetCheckboxGroup
+              idPrefix="type"
+              options={facets.vehicleTypes}
+              selected={filters.vehicleTypes}
+              onToggle={value => toggleArrayValue('vehicleTypes', value)}
+              getLabel={labelFor(vehicleTypes)}
+              className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2"
+            />
           </div>
         </CardContent>
       </Card>
@@ -243,18 +282,77 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
 
           <div>
             <Label className="text-sm font-medium">Condition</Label>
-            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
-              {conditions.map(condition => (
-                <div key={condition.value} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={`condition-${condition.value}`}
-                    checked={filters.conditions?.includes(condition.value) || false}
-                    onCheckedChange={() => toggleArrayValue('conditions', condition.value)}
-                  />
-                  <Label htmlFor={`condition-${condition.value}`} className="text-sm">{condition.label}</Label>
-                </div>
-              ))}
+            <FacetCheckboxGroup
+              idPrefix="condition"
+              options={facets.conditions}
+              selected={filters.conditions}
+              onToggle={value => toggleArrayValue('conditions', value)}
+              getLabel={labelFor(conditions)}
+              className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Location */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Location</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="zip-code" className="text-sm font-medium">Postal Code</Label>
+              <Input
+                id="zip-code"
+                placeholder="80331"
+                value={filters.zipCode || ''}
+                onChange={(e) => updateFilter('zipCode', e.target.value.trim())}
+                className="mt-1"
+              />
             </div>
+            <div>
+              <Label className="text-sm font-medium">Country</Label>
+              <Select
+                value={filters.zipCountry || DEFAULT_POSTAL_COUNTRY}
+                onValueChange={(value) => updateFilter('zipCountry', value)}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(POSTAL_COUNTRIES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium">Radius</Label>
+            <Select
+              value={filters.radius ? String(filters.radius) : 'any'}
+              onValueChange={(value) => updateFilter('radius', value === 'any' ? 0 : Number(value))}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any distance</SelectItem>
+                {radiusOptions.map(radius => (
+                  <SelectItem key={radius} value={String(radius)}>Within {radius} km</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {filters.zipCode && !getSearchOrigin(filters) && (
+              <p className="text-xs text-destructive mt-1">Unknown postal code for this country</p>
+            )}
+            {filters.radius > 0 && getSearchOrigin(filters) && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Cars further away are still shown when delivery is available
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -267,34 +365,26 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
         <CardContent className="space-y-4">
           <div>
             <Label className="text-sm font-medium">Fuel Type</Label>
-            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
-              {fuelTypes.map(fuel => (
-                <div key={fuel.value} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={`fuel-${fuel.value}`}
-                    checked={filters.fuelTypes?.includes(fuel.value) || false}
-                    onCheckedChange={() => toggleArrayValue('fuelTypes', fuel.value)}
-                  />
-                  <Label htmlFor={`fuel-${fuel.value}`} className="text-sm">{fuel.label}</Label>
-                </div>
-              ))}
-            </div>
+            <FacetCheckboxGroup
+              idPrefix="fuel"
+              options={facets.fuelTypes}
+              selected={filters.fuelTypes}
+              onToggle={value => toggleArrayValue('fuelTypes', value)}
+              getLabel={labelFor(fuelTypes)}
+              className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2"
+            />
           </div>
 
           <div>
             <Label className="text-sm font-medium">Transmission</Label>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-2">
-              {transmissions.map(transmission => (
-                <div key={transmission.value} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={`transmission-${transmission.value}`}
-                    checked={filters.transmissions?.includes(transmission.value) || false}
-                    onCheckedChange={() => toggleArrayValue('transmissions', transmission.value)}
-                  />
-                  <Label htmlFor={`transmission-${transmission.value}`} className="text-sm">{transmission.label}</Label>
-                </div>
-              ))}
-            </div>
+            <FacetCheckboxGroup
+              idPrefix="transmission"
+              options={facets.transmissions}
+              selected={filters.transmissions}
+              onToggle={value => toggleArrayValue('transmissions', value)}
+              getLabel={labelFor(transmissions)}
+              className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-2"
+            />
           </div>
 
           <div>
@@ -406,18 +496,13 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
         <CardContent>
           <div>
             <Label className="text-sm font-medium">Exterior Colour</Label>
-            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mt-2">
-              {colors.map(color => (
-                <div key={color} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={`color-${color}`}
-                    checked={filters.exteriorColors?.includes(color) || false}
-                    onCheckedChange={() => toggleArrayValue('exteriorColors', color)}
-                  />
-                  <Label htmlFor={`color-${color}`} className="text-sm">{color}</Label>
-                </div>
-              ))}
-            </div>
+            <FacetCheckboxGroup
+              idPrefix="color"
+              options={facets.exteriorColors}
+              selected={filters.exteriorColors}
+              onToggle={value => toggleArrayValue('exteriorColors', value)}
+              className="grid grid-cols-3 sm:grid-cols-4 gap-2 mt-2"
+            />
           </div>
         </CardContent>
       </Card>
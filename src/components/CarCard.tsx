@@ -2,45 +2,46 @@ import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useVoice } from './VoiceProvider';
+import { useVoice } from '@/hooks/use-voice';
 import { useNavigate } from 'react-router-dom';
 import { Car } from '@/types/car';
-
-// Simple car interface for backward compatibility
-interface SimpleCar {
-  id: string;
-  name: string;
-  year: number;
-  price: number;
-  image: string;
-  mileage: string;
-  fuelType: string;
-  transmission: string;
-  isNew?: boolean;
-}
+import { formatMileage, formatPrice, FUEL_TYPE_LABELS, TRANSMISSION_LABELS } from '@/lib/format';
+import { CarDistance } from '@/utils/geo';
+import { tokenize } from '@/utils/search';
+import { MapPin, Truck } from 'lucide-react';
 
 interface CarCardProps {
-  car: Car | SimpleCar;
+  car: Car;
+  // Set when the search has a postal code to measure from
+  distance?: CarDistance;
+  // Search tokens to mark in the card text
+  highlightTokens?: string[];
 }
 
-export const CarCard: React.FC<CarCardProps> = ({ car }) => {
+const Highlight: React.FC<{ text: string; tokens?: string[] }> = ({ text, tokens }) => {
+  if (!tokens || tokens.length === 0) return <>{text}</>;
+
+  return (
+    <>
+      {text.split(/([\p{L}\p{N}]+)/u).map((part, index) => {
+        const [token] = tokenize(part);
+        return token && tokens.includes(token)
+          ? <mark key={index} className="bg-primary/20 text-inherit rounded-sm">{part}</mark>
+          : part;
+      })}
+    </>
+  );
+};
+
+export const CarCard: React.FC<CarCardProps> = ({ car, distance, highlightTokens }) => {
   const { speak } = useVoice();
   const navigate = useNavigate();
 
   const handleViewDetails = () => {
-    const mileageText = typeof car.mileage === 'string' ? car.mileage : `${car.mileage} km`;
-    speak(`Viewing details for ${car.name}. This ${car.year} model is priced at ${formatPrice(car.price)} with ${mileageText}.`);
+    speak(`Viewing details for ${car.name}. This ${car.year} model is priced at ${formatPrice(car.price)} with ${formatMileage(car.mileage)}.`);
     navigate(`/car/${car.id}`);
   };
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      maximumFractionDigits: 0,
-    }).format(price);
-  };
-
   return (
     <Card className="group overflow-hidden transition-all duration-300 hover:shadow-lg hover:-translate-y-1">
       <div className="relative overflow-hidden">
@@ -54,13 +55,19 @@ export const CarCard: React.FC<CarCardProps> = ({ car }) => {
             NEW
           </Badge>
         )}
+        {distance && !distance.withinRadius && car.deliveryAvailable && (
+          <Badge variant="secondary" className="absolute top-3 right-3">
+            <Truck className="h-3 w-3 mr-1" />
+            Delivery available
+          </Badge>
+        )}
       </div>
       
       <CardContent className="p-4">
         <div className="space-y-3">
           <div>
             <h3 className="font-semibold text-lg text-foreground group-hover:text-primary transition-colors">
-              {car.year} {car.name}
+              <Highlight text={`${car.year} ${car.name}`} tokens={highlightTokens} />
             </h3>
             <p className="text-2xl font-bold text-primary mt-1">
               {formatPrice(car.price)}
@@ -68,12 +75,19 @@ export const CarCard: React.FC<CarCardProps> = ({ car }) => {
           </div>
           
           <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
-            <span>{typeof car.mileage === 'string' ? car.mileage : `${car.mileage.toLocaleString()} km`}</span>
+            <span>{formatMileage(car.mileage)}</span>
             <span>•</span>
-            <span>{car.fuelType}</span>
+            <span><Highlight text={FUEL_TYPE_LABELS[car.fuelType]} tokens={highlightTokens} /></span>
             <span>•</span>
-            <span>{car.transmission}</span>
+            <span><Highlight text={TRANSMISSION_LABELS[car.transmission]} tokens={highlightTokens} /></span>
           </div>
+
+          {distance && (
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-3 w-3" />
+              <span><Highlight text={car.city} tokens={highlightTokens} /> · {Math.round(distance.km)} km away</span>
+            </div>
+          )}
           
           <Button 
             onClick={handleViewDetails}
@@ -0,0 +1,25 @@
+import React, { useRef } from 'react';
+import { CarFilters } from '@/types/car';
+import { useVoiceNavigation } from '@/hooks/use-voice-navigation';
+import { VoiceSearchAssistant } from './VoiceSearchAssistant';
+import { useVoiceSession } from '@/hooks/use-voice-session';
+
+// The voice assistant on pages without a result list: the conversation goes on
+// from the session, and a search opens the inventory with what was collected
+export const SessionVoiceAssistant: React.FC = () => {
+  const { session, assistantOpen, setAssistantOpen } = useVoiceSession();
+  const navigation = useVoiceNavigation();
+  const filtersRef = useRef<Partial<CarFilters>>(session.state.collectedFilters);
+
+  return (
+    <VoiceSearchAssistant
+      isOpen={assistantOpen}
+      onClose={() => setAssistantOpen(false)}
+      currentFilters={session.state.collectedFilters}
+      onFiltersUpdate={(filters) => {
+        filtersRef.current = filters;
+      }}
+      onSearch={() => navigation.showResults(filtersRef.current)}
+    />
+  );
+};
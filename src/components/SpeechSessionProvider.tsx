@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import {
+  SPEECH_SETTINGS_EVENT,
+  createMicrophoneVoiceDetector,
+  createSpeechProvider,
+  createTurnTaking,
+  loadSpeechSettings,
+} from '@/speech';
+import { SpeechSessionContext, SpeechSessionContextType } from '@/hooks/use-speech-session';
+
+const openSession = () => {
+  const speech = createSpeechProvider(loadSpeechSettings());
+  // Typed text has no microphone to watch for barge-in
+  const turns = createTurnTaking(speech, {
+    detectVoice: speech.recognition ? createMicrophoneVoiceDetector() : undefined,
+  });
+  return { speech, turns };
+};
+
+const closeSession = ({ speech, turns }: SpeechSessionContextType) => {
+  turns?.dispose();
+  speech?.dispose();
+};
+
+/**
+ * The one speech provider and turn-taking for the whole app, mounted above
+ * the router. The voice assistant and quick read-outs such as a car card's
+ * share it; the provider is replaced when the admin saves new settings.
+ */
+export const SpeechSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<SpeechSessionContextType>({ speech: null, turns: null });
+
+  useEffect(() => {
+    let current = openSession();
+    setSession(current);
+
+    const handleSettingsUpdate = () => {
+      closeSession(current);
+      current = openSession();
+      setSession(current);
+    };
+
+    window.addEventListener(SPEECH_SETTINGS_EVENT, handleSettingsUpdate);
+    return () => {
+      window.removeEventListener(SPEECH_SETTINGS_EVENT, handleSettingsUpdate);
+      closeSession(current);
+    };
+  }, []);
+
+  return (
+    <SpeechSessionContext.Provider value={session}>
+      {children}
+    </SpeechSessionContext.Provider>
+  );
+};
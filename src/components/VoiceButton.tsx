@@ -1,7 +1,7 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Mic, MicOff } from 'lucide-react';
-import { useVoice } from './VoiceProvider';
+import { useVoice } from '@/hooks/use-voice';
 import { cn } from '@/lib/utils';
 
 interface VoiceButtonProps {
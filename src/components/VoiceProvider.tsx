@@ -1,67 +1,60 @@
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useConversation } from '@11labs/react';
 import { toast } from '@/hooks/use-toast';
-
-interface VoiceContextType {
-  isConnected: boolean;
-  isListening: boolean;
-  startVoiceControl: () => Promise<void>;
-  stopVoiceControl: () => Promise<void>;
-  speak: (text: string) => void;
-}
-
-const VoiceContext = createContext<VoiceContextType | undefined>(undefined);
-
-export const useVoice = () => {
-  const context = useContext(VoiceContext);
-  if (!context) {
-    throw new Error('useVoice must be used within VoiceProvider');
-  }
-  return context;
-};
+import { useVoiceNavigation } from '@/hooks/use-voice-navigation';
+import { useSpeechSession } from '@/hooks/use-speech-session';
+import { useVoiceSession } from '@/hooks/use-voice-session';
+import { VoiceContext, VoiceContextType } from '@/hooks/use-voice';
+import { ELEVENLABS_SETTINGS_EVENT, SPEECH_SETTINGS_EVENT, createAgentSessionConfig, loadSpeechSettings } from '@/speech';
+import { inventoryRepository } from '@/data/inventory';
+import { createAgentTools } from '@/utils/agentTools';
 
 interface VoiceProviderProps {
   children: React.ReactNode;
+  // Overrides the agent configured in the admin settings
   agentId?: string;
 }
 
 export const VoiceProvider: React.FC<VoiceProviderProps> = ({ 
   children, 
-  agentId = "demo-agent-placeholder" 
+  agentId 
 }) => {
   const [isListening, setIsListening] = useState(false);
-  const [apiKey, setApiKey] = useState<string>('');
-  
-  // Mock conversation for demo purposes - replace with real agentId
-  const conversation = {
-    status: 'disconnected' as const,
-    startSession: async () => console.log('Demo: Voice session would start with agentId:', agentId),
-    endSession: async () => console.log('Demo: Voice session ended'),
-  };
-  
-  // Real conversation (commented out until API key is provided)
-  /*
+  const [settings, setSettings] = useState(() => loadSpeechSettings());
+  const navigation = useVoiceNavigation();
+  const { turns } = useSpeechSession();
+  const { session } = useVoiceSession();
+
+  // Pick up a new key or agent as soon as the admin saves it
+  useEffect(() => {
+    const handleSettingsUpdate = () => setSettings(loadSpeechSettings());
+
+    window.addEventListener(ELEVENLABS_SETTINGS_EVENT, handleSettingsUpdate);
+    window.addEventListener(SPEECH_SETTINGS_EVENT, handleSettingsUpdate);
+    return () => {
+      window.removeEventListener(ELEVENLABS_SETTINGS_EVENT, handleSettingsUpdate);
+      window.removeEventListener(SPEECH_SETTINGS_EVENT, handleSettingsUpdate);
+    };
+  }, []);
+
+  const clientTools = useMemo(() => createAgentTools({
+    listCars: () => inventoryRepository.list(),
+    navigation,
+    // The language the customer is talking to the assistant in, not the browser's
+    locale: session.locale,
+  }), [navigation, session.locale]);
+
   const conversation = useConversation({
     onConnect: () => {
-      console.log('Voice conversation connected');
+      setIsListening(true);
       toast({
         title: "Voice Control Active",
         description: "You can now control the dealership with your voice!",
       });
     },
     onDisconnect: () => {
-      console.log('Voice conversation disconnected');
       setIsListening(false);
     },
-    onMessage: (message) => {
-      console.log('Voice message:', message);
-      // Handle voice commands here
-      if (message.message && message.message.toLowerCase().includes('show cars')) {
-        // Scroll to cars section
-        const carsSection = document.getElementById('featured-cars');
-        carsSection?.scrollIntoView({ behavior: 'smooth' });
-      }
-    },
     onError: (error) => {
       console.error('Voice error:', error);
       toast({
@@ -70,61 +63,28 @@ export const VoiceProvider: React.FC<VoiceProviderProps> = ({
         variant: "destructive",
       });
     },
-    clientTools: {
-      navigateToSection: (parameters: { section: string }) => {
-        const element = document.getElementById(parameters.section);
-        if (element) {
-          element.scrollIntoView({ behavior: 'smooth' });
-          return `Navigated to ${parameters.section} section`;
-        }
-        return "Section not found";
-      },
-      navigateToCarDetail: (parameters: { carId: string }) => {
-        window.location.href = `/car/${parameters.carId}`;
-        return `Navigating to car details for vehicle ${parameters.carId}`;
-      },
-      navigateToComparison: (parameters: { car1Id?: string, car2Id?: string }) => {
-        let url = '/compare';
-        const params = new URLSearchParams();
-        if (parameters.car1Id) params.set('car1', parameters.car1Id);
-        if (parameters.car2Id) params.set('car2', parameters.car2Id);
-        if (params.toString()) url += '?' + params.toString();
-        
-        window.location.href = url;
-        return `Opening vehicle comparison tool`;
-      },
-      searchCars: (parameters: { query: string }) => {
-        // Implement car search functionality
-        console.log('Searching for cars:', parameters.query);
-        return `Searching for ${parameters.query}`;
-      }
-    }
+    clientTools,
   });
-  */
+
+  const { startSession, endSession } = conversation;
+  const resolvedAgentId = agentId ?? settings.elevenLabsAgentId;
 
   const startVoiceControl = useCallback(async () => {
     try {
-      if (!apiKey) {
+      if (!resolvedAgentId) {
         toast({
-          title: "API Key Required",
-          description: "Please configure your ElevenLabs API key in Admin Settings.",
+          title: "Agent Required",
+          description: "Please configure your ElevenLabs agent ID in Admin Settings.",
           variant: "destructive",
         });
         return;
       }
-      
-      toast({
-        title: "Voice Control Active",
-        description: "Connected to ElevenLabs voice assistant.",
-      });
-      
-      await conversation.startSession();
-      setIsListening(true);
-      
-      // Auto-stop after 10 seconds in demo mode
-      setTimeout(() => {
-        setIsListening(false);
-      }, 10000);
+
+      // Ask for the microphone up front, so a refusal is reported here rather than mid-session.
+      // The agent opens its own stream, so this one is closed straight away
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach(track => track.stop());
+      await startSession(await createAgentSessionConfig({ ...settings, elevenLabsAgentId: resolvedAgentId }));
     } catch (error) {
       console.error('Failed to start voice control:', error);
       toast({
@@ -133,29 +93,24 @@ export const VoiceProvider: React.FC<VoiceProviderProps> = ({
         variant: "destructive",
       });
     }
-  }, [conversation, apiKey]);
+  }, [startSession, settings, resolvedAgentId]);
 
   const stopVoiceControl = useCallback(async () => {
     try {
-      await conversation.endSession();
+      await endSession();
       setIsListening(false);
     } catch (error) {
       console.error('Failed to stop voice control:', error);
     }
-  }, [conversation]);
+  }, [endSession]);
 
   const speak = useCallback((text: string) => {
-    // Simple text-to-speech for immediate feedback
-    if ('speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.9;
-      utterance.volume = 0.8;
-      window.speechSynthesis.speak(utterance);
-    }
-  }, []);
+    // Queued behind the voice assistant rather than talking over it
+    turns?.say(text);
+  }, [turns]);
 
   const value: VoiceContextType = {
-    isConnected: !!apiKey,
+    isConnected: conversation.status === 'connected',
     isListening,
     startVoiceControl,
     stopVoiceControl,
@@ -167,4 +122,4 @@ export const VoiceProvider: React.FC<VoiceProviderProps> = ({
       {children}
     </VoiceContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -2,487 +2,275 @@ import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Mic, MicOff, Volume2, VolumeX, X, MessageCircle } from 'lucide-react';
-import { parseVoiceCommand, applyEntitiesToFilters } from '@/utils/nlp';
-import { CarFilters, ConversationState, VoiceCommand } from '@/types/car';
-import { WishlistItem } from '@/types/wishlist';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Mic, MicOff, Volume2, VolumeX, X, MessageCircle, Send, Keyboard } from 'lucide-react';
+import { Car, CarFilters, SortMode } from '@/types/car';
 import { WishlistManager } from './WishlistManager';
 import { toast } from '@/hooks/use-toast';
+import { useCars } from '@/hooks/use-cars';
+import { TurnState, TurnTaking } from '@/speech';
+import { useSpeechSession } from '@/hooks/use-speech-session';
+import { LOCALES, LOCALE_CODES, LocaleCode, getLocalePack } from '@/locales';
+import { useVoiceNavigation } from '@/hooks/use-voice-navigation';
+import { createVoiceAssistant } from '@/utils/voiceAssistant';
+import { useVoiceSession } from '@/hooks/use-voice-session';
 
 interface VoiceSearchAssistantProps {
   isOpen: boolean;
   onClose: () => void;
   onFiltersUpdate: (filters: Partial<CarFilters>) => void;
+  onSortChange?: (sort: SortMode) => void;
   currentFilters: Partial<CarFilters>;
   onSearch: () => void;
-  onNoResultsFound?: (searchCriteria: any) => void;
-}
-
-interface ConversationMessage {
-  id: string;
-  type: 'user' | 'assistant';
-  text: string;
-  timestamp: Date;
+  // The cars the current filters find, in the order they are shown
+  results?: Car[];
 }
 
 export const VoiceSearchAssistant: React.FC<VoiceSearchAssistantProps> = ({
   isOpen,
   onClose,
   onFiltersUpdate,
+  onSortChange,
   currentFilters,
   onSearch,
-  onNoResultsFound,
+  results = [],
 }) => {
-  const [isListening, setIsListening] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [turnState, setTurnState] = useState<TurnState>('idle');
   const [transcript, setTranscript] = useState('');
-  const [conversation, setConversation] = useState<ConversationMessage[]>([]);
-  const [conversationState, setConversationState] = useState<ConversationState>({
-    currentStep: 'greeting',
-    collectedFilters: {},
-  });
+  // The conversation lives above the router, so it carries on across pages and visits
+  const { session, addMessage, setConversationState, setLocale, preferences, updatePreferences } = useVoiceSession();
+  const { messages: conversation, state: conversationState, locale } = session;
+  const lastSearchRef = useRef(session.lastSearch);
+  lastSearchRef.current = session.lastSearch;
+  // Answers follow each other within a turn, faster than the session re-renders
+  const conversationStateRef = useRef(conversationState);
+  conversationStateRef.current = conversationState;
   const [showWishlist, setShowWishlist] = useState(false);
-  const [searchResults, setSearchResults] = useState<any[]>([]);
 
-  const recognitionRef = useRef<any | null>(null);
-  const synthRef = useRef<SpeechSynthesis | null>(null);
+  // Speech callbacks are created once, so they read the language through a ref
+  const localeRef = useRef(locale);
+  // Recognition is set up once; the handler it calls is refreshed every render so it sees current state
+  const handleVoiceInputRef = useRef<(text: string) => void>(() => {});
+  // Shared with the rest of the app, so other read-outs queue behind the assistant
+  const { speech, turns } = useSpeechSession();
+  // Who has the turn; answers queue up here instead of talking over each other.
+  // Callbacks created before the provider was ready still reach it through the ref
+  const turnsRef = useRef<TurnTaking | null>(null);
+  const isListening = turnState === 'listening';
+  const isSpeaking = turnState === 'speaking';
+  // Typing is the fallback wherever the browser cannot listen
+  const canListen = !!speech && speech.recognition;
+  const textMode = !canListen || preferences.inputMode === 'text';
+  // Muted answers still appear in the conversation, they are just not read out
+  const mutedRef = useRef(preferences.muted);
+  mutedRef.current = preferences.muted;
+  // Suggested answers to the last follow-up question
+  const [quickReplies, setQuickReplies] = useState<string[]>([]);
+  const [typedText, setTypedText] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
-
-  // Initialize speech recognition
+  const resultsRef = useRef(results);
+  resultsRef.current = results;
+  // Searches run against the whole inventory, not just what the page shows
+  const { data: inventory = [] } = useCars();
+  const inventoryRef = useRef(inventory);
+  inventoryRef.current = inventory;
+  const navigation = useVoiceNavigation();
+  // The assistant is created once and reaches the current props through here
+  const hostRef = useRef({ onFiltersUpdate, onSortChange, onSearch, onClose, navigation });
+  hostRef.current = { onFiltersUpdate, onSortChange, onSearch, onClose, navigation };
+
+  // Recognition and synthesis come from the provider picked in the admin settings
   useEffect(() => {
-    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-      const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = true;
-      recognitionRef.current.interimResults = true;
-      recognitionRef.current.lang = 'en-US';
-
-      recognitionRef.current.onresult = (event) => {
-        let finalTranscript = '';
-        let interimTranscript = '';
-
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const transcript = event.results[i][0].transcript;
-          if (event.results[i].isFinal) {
-            finalTranscript += transcript;
-          } else {
-            interimTranscript += transcript;
-          }
-        }
-
-        setTranscript(finalTranscript || interimTranscript);
-
-        if (finalTranscript) {
-          handleVoiceInput(finalTranscript);
+    if (!speech || !turns) return;
+    speech.setLanguage(getLocalePack(localeRef.current).speechLang);
+    turnsRef.current = turns;
+    setTurnState(turns.state);
+
+    const unsubscribers = [
+      turns.onStateChange(setTurnState),
+      turns.onTranscript(({ text }) => setTranscript(text)),
+      turns.onUtterance(text => handleVoiceInputRef.current(text)),
+      speech.onError((error) => {
+        console.error(`Speech error (${error.code}):`, error.message);
+        // Without the microphone the assistant carries on as a chat
+        if (error.code === 'not-allowed') {
+          updatePreferences({ inputMode: 'text' });
         }
-      };
-
-      recognitionRef.current.onerror = (event) => {
-        console.error('Speech recognition error:', event.error);
-        setIsListening(false);
+        const { ui } = getLocalePack(localeRef.current);
+        const synthesis = error.code === 'synthesis';
         toast({
-          title: "Voice Recognition Error",
-          description: "Please try again or check your microphone permissions.",
+          title: synthesis ? ui.synthesisErrorTitle : ui.recognitionErrorTitle,
+          description: synthesis ? ui.synthesisErrorDescription : ui.recognitionErrorDescription,
           variant: "destructive",
         });
-      };
-
-      recognitionRef.current.onend = () => {
-        setIsListening(false);
-      };
-    }
-
-    if ('speechSynthesis' in window) {
-      synthRef.current = window.speechSynthesis;
-    }
+      }),
+    ];
 
+    // The provider outlives the assistant; it only stops listening and talking
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-      if (synthRef.current) {
-        synthRef.current.cancel();
-      }
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      turnsRef.current = null;
+      setTurnState('idle');
+      turns.stopListening();
+      turns.silence();
     };
+  }, [speech, turns, updatePreferences]);
+
+  // Recognition and synthesis follow the selected language
+  useEffect(() => {
+    localeRef.current = locale;
+    speech?.setLanguage(getLocalePack(locale).speechLang);
+  }, [locale, speech]);
+
+  // Queued behind whatever is still being said, so follow-up questions are not lost
+  const speak = useCallback((text: string) => {
+    if (!mutedRef.current) {
+      turnsRef.current?.say(text);
+    }
   }, []);
 
+  const [assistant] = useState(() => createVoiceAssistant({
+    getState: () => conversationStateRef.current,
+    setState: state => {
+      conversationStateRef.current = state;
+      setConversationState(state);
+    },
+    getLocale: () => localeRef.current,
+    listCars: () => inventoryRef.current,
+    shownCars: () => resultsRef.current,
+    say: text => {
+      addMessage('assistant', text);
+      speak(text);
+    },
+    offerReplies: setQuickReplies,
+    updateFilters: filters => hostRef.current.onFiltersUpdate(filters),
+    changeSort: sort => hostRef.current.onSortChange?.(sort),
+    search: () => hostRef.current.onSearch(),
+    notify: (title, description) => toast({ title, description }),
+    openWishlist: () => setShowWishlist(true),
+    close: () => hostRef.current.onClose(),
+    navigation: {
+      showCar: id => hostRef.current.navigation.showCar(id),
+      compareCars: ids => hostRef.current.navigation.compareCars(ids),
+      goBack: () => hostRef.current.navigation.goBack(),
+      returnToSearch: () => hostRef.current.navigation.returnToSearch(lastSearchRef.current),
+    },
+  }));
+
+  // New results start the reading over from the first page
+  const resultIds = results.map(car => car.id).join(',');
+  useEffect(() => {
+    assistant.showResults(resultsRef.current.map(car => car.id));
+  }, [assistant, resultIds]);
+
   // Auto-scroll to bottom of conversation
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [conversation]);
 
-  // Start conversation when opened
+  // Start conversation when opened, and again when a new session starts empty
+  const conversationStarted = conversation.length > 0;
   useEffect(() => {
-    if (isOpen && conversation.length === 0) {
-      startConversation();
+    if (isOpen && !conversationStarted) {
+      assistant.start();
     }
-  }, [isOpen]);
+  }, [isOpen, conversationStarted, assistant]);
 
-  const startConversation = useCallback(() => {
-    const welcomeMessage = "Welcome to RedLine Motors voice assistant! I'm here to help you find your perfect car. I can search our inventory, add items to your wishlist, or even look for cars from external sources if we don't have what you need. What are you looking for today?";
-    
-    addMessage('assistant', welcomeMessage);
-    speak(welcomeMessage);
-    
-    setConversationState({
-      currentStep: 'collecting_preferences',
-      collectedFilters: {},
-    });
-  }, []);
-
-  const addMessage = useCallback((type: 'user' | 'assistant', text: string) => {
-    const message: ConversationMessage = {
-      id: Date.now().toString(),
-      type,
-      text,
-      timestamp: new Date(),
-    };
-    setConversation(prev => [...prev, message]);
-  }, []);
-
-  const speak = useCallback((text: string) => {
-    if (synthRef.current && !isSpeaking) {
-      setIsSpeaking(true);
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.9;
-      utterance.volume = 0.8;
-      utterance.voice = synthRef.current.getVoices().find(voice => voice.lang.startsWith('en')) || null;
-      
-      utterance.onend = () => {
-        setIsSpeaking(false);
-      };
-      
-      utterance.onerror = () => {
-        setIsSpeaking(false);
-      };
-      
-      synthRef.current.speak(utterance);
+  const toggleMuted = useCallback(() => {
+    if (!preferences.muted) {
+      turnsRef.current?.silence();
     }
-  }, [isSpeaking]);
+    updatePreferences({ muted: !preferences.muted });
+  }, [preferences.muted, updatePreferences]);
 
   const stopSpeaking = useCallback(() => {
-    if (synthRef.current) {
-      synthRef.current.cancel();
-      setIsSpeaking(false);
-    }
+    turnsRef.current?.silence();
   }, []);
 
+  // Also the barge-in button: starting to listen cuts the assistant off
   const startListening = useCallback(() => {
-    if (recognitionRef.current && !isListening) {
-      setTranscript('');
-      setIsListening(true);
-      recognitionRef.current.start();
-    }
-  }, [isListening]);
-
-  const stopListening = useCallback(() => {
-    if (recognitionRef.current && isListening) {
-      recognitionRef.current.stop();
-      setIsListening(false);
-    }
-  }, [isListening]);
-
-  const handleVoiceInput = useCallback((text: string) => {
-    addMessage('user', text);
-    
-    const command = parseVoiceCommand(text);
-    processVoiceCommand(command, text);
-    
     setTranscript('');
-  }, [conversationState, currentFilters]);
-
-  const processVoiceCommand = useCallback((command: VoiceCommand, originalText: string) => {
-    const { intent, entities } = command;
-    
-    switch (intent) {
-      case 'search_cars':
-      case 'specify_filters':
-        handleFilterSpecification(entities, originalText);
-        break;
-        
-      case 'confirm':
-        handleConfirmation();
-        break;
-        
-      case 'deny':
-        handleDenial();
-        break;
-        
-      case 'reset_filters':
-        handleReset();
-        break;
-
-      case 'wishlist_request':
-      case 'add_to_wishlist':
-        handleWishlistRequest(entities, originalText);
-        break;
-
-      case 'external_search':
-        handleExternalSearchRequest(entities, originalText);
-        break;
-        
-      default:
-        handleUnknownCommand(originalText);
-        break;
-    }
-  }, [conversationState, currentFilters]);
-
-  const handleFilterSpecification = useCallback((entities: Record<string, any>, originalText: string) => {
-    const updatedFilters = applyEntitiesToFilters(entities, conversationState.collectedFilters);
-    
-    setConversationState(prev => ({
-      ...prev,
-      collectedFilters: updatedFilters,
-    }));
-    
-    // Update the actual filters
-    onFiltersUpdate(updatedFilters);
-    
-    // Generate confirmation response
-    const confirmationText = generateConfirmationText(entities, originalText);
-    addMessage('assistant', confirmationText);
-    speak(confirmationText);
-    
-    // Ask for more details or offer to search
-    setTimeout(() => {
-      const nextQuestion = generateNextQuestion(updatedFilters);
-      addMessage('assistant', nextQuestion);
-      speak(nextQuestion);
-    }, 2000);
-  }, [conversationState, onFiltersUpdate]);
-
-  const handleConfirmation = useCallback(() => {
-    const response = "Perfect! Let me search for cars matching your criteria.";
-    addMessage('assistant', response);
-    speak(response);
-    
-    setTimeout(() => {
-      onSearch();
-      
-      // Simulate search results check
-      setTimeout(() => {
-        // Simulate finding results or not
-        const foundResults = Math.random() > 0.3; // 70% chance of finding results
-        
-        if (foundResults) {
-          onClose();
-          toast({
-            title: "Search Complete",
-            description: "Found cars matching your voice search criteria!",
-          });
-        } else {
-          handleNoResults();
-        }
-      }, 1000);
-    }, 1500);
-  }, [onSearch, onClose]);
-
-  const handleDenial = useCallback(() => {
-    const response = "No problem! Please tell me what you'd like to change or search for instead.";
-    addMessage('assistant', response);
-    speak(response);
+    turnsRef.current?.listen();
   }, []);
 
-  const handleReset = useCallback(() => {
-    setConversationState({
-      currentStep: 'collecting_preferences',
-      collectedFilters: {},
-    });
-    
-    onFiltersUpdate({});
-    
-    const response = "All filters cleared! Let's start fresh. What kind of car are you looking for?";
-    addMessage('assistant', response);
-    speak(response);
-  }, [onFiltersUpdate]);
-
-  const handleNoResults = useCallback(() => {
-    const response = "I didn't find any cars in our current inventory that match your criteria. However, I can help you in a few ways: I can add this to your wishlist and notify you when matching cars arrive, or I can search external sources like AutoTrader and other dealerships. Which would you prefer?";
-    addMessage('assistant', response);
-    speak(response);
-    
-    setConversationState(prev => ({
-      ...prev,
-      currentStep: 'awaiting_wishlist_decision',
-    }));
+  const stopListening = useCallback(() => {
+    turnsRef.current?.stopListening();
   }, []);
 
-  const handleWishlistRequest = useCallback((entities: Record<string, any>, originalText: string) => {
-    const response = "Great choice! I'll help you add this to your wishlist so we can find the perfect car for you. Let me open the wishlist form.";
-    addMessage('assistant', response);
-    speak(response);
-    
-    setTimeout(() => {
-      setShowWishlist(true);
-    }, 1500);
-  }, []);
+  // Typed text and quick replies take the same way through the parser as speech
+  const handleTypedSubmit = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    turnsRef.current?.submit(typedText);
+    setTypedText('');
+  }, [typedText]);
 
-  const handleExternalSearchRequest = useCallback((entities: Record<string, any>, originalText: string) => {
-    const response = "Excellent! I'll search external automotive sources including AutoTrader, CarGurus, and other dealership networks. This might take a moment, but I'll find the best options for you.";
-    addMessage('assistant', response);
-    speak(response);
-    
-    // Simulate external search
-    setTimeout(() => {
-      simulateExternalSearch();
-    }, 2000);
+  const handleQuickReply = useCallback((reply: string) => {
+    turnsRef.current?.submit(reply);
   }, []);
 
-  const simulateExternalSearch = useCallback(() => {
-    const mockResults = [
-      "Found 3 matching vehicles on AutoTrader",
-      "Located 2 similar cars at nearby dealerships",
-      "Discovered 1 exact match on CarGurus"
-    ];
-    
-    const resultMessage = `Great news! ${mockResults.join(', ')}. I'll prepare a detailed report with prices, locations, and contact information. You can expect an email within the next hour with all the details.`;
-    
-    addMessage('assistant', resultMessage);
-    speak(resultMessage);
-    
-    toast({
-      title: "External Search Complete",
-      description: "Found multiple matches! Check your email for detailed results.",
-    });
-    
-    setTimeout(() => {
-      onClose();
-    }, 3000);
-  }, [onClose]);
-
-  const handleSubmitWishlist = useCallback((wishlistItem: Partial<WishlistItem>) => {
-    // In a real app, this would save to database
-    console.log('Wishlist item submitted:', wishlistItem);
-    
-    toast({
-      title: "Added to Wishlist",
-      description: `We'll search for your ${wishlistItem.desiredSpecs?.make || 'desired'} vehicle and contact you when we find matches!`,
-    });
-    
-    setShowWishlist(false);
-  }, []);
+  const handleVoiceInput = useCallback((text: string) => {
+    addMessage('user', text);
+    setQuickReplies([]);
+    assistant.handle(text);
+    setTranscript('');
+  }, [addMessage, assistant]);
+  handleVoiceInputRef.current = handleVoiceInput;
 
-  const handleRequestExternalSearch = useCallback((specifications: any) => {
-    // In a real app, this would trigger external search APIs
-    console.log('External search requested:', specifications);
-    
-    simulateExternalSearch();
+  // In a real app, this would trigger external search APIs
+  const handleRequestExternalSearch = useCallback(() => {
+    assistant.searchExternally();
     setShowWishlist(false);
-  }, []);
-
-  const handleUnknownCommand = useCallback((text: string) => {
-    const lowerText = text.toLowerCase();
-    
-    // Check for wishlist-related keywords
-    if (lowerText.includes('wishlist') || lowerText.includes('add to list') || lowerText.includes('save for later')) {
-      handleWishlistRequest({}, text);
-      return;
-    }
-    
-    // Check for external search keywords
-    if (lowerText.includes('search everywhere') || lowerText.includes('look elsewhere') || lowerText.includes('external') || lowerText.includes('other dealer')) {
-      handleExternalSearchRequest({}, text);
-      return;
-    }
-    
-    const response = "I didn't quite understand that. You can say things like: 'I want a BMW SUV under 50,000 euros', 'Add this to my wishlist', 'Search external sources', or 'Show me electric cars with heated seats.'";
-    addMessage('assistant', response);
-    speak(response);
-  }, []);
-
-  const generateConfirmationText = useCallback((entities: Record<string, any>, originalText: string): string => {
-    const confirmations: string[] = [];
-    
-    if (entities.makes) {
-      confirmations.push(`${entities.makes.join(' or ')} vehicles`);
-    }
-    
-    if (entities.vehicleTypes) {
-      confirmations.push(`${entities.vehicleTypes.join(' or ')} body type`);
-    }
-    
-    if (entities.conditions) {
-      confirmations.push(`${entities.conditions.join(' or ')} condition`);
-    }
-    
-    if (entities.fuelTypes) {
-      confirmations.push(`${entities.fuelTypes.join(' or ')} fuel type`);
-    }
-    
-    if (entities.transmissions) {
-      confirmations.push(`${entities.transmissions.join(' or ')} transmission`);
-    }
-    
-    if (entities.priceRange) {
-      if (entities.priceRange.max) {
-        confirmations.push(`under €${entities.priceRange.max.toLocaleString()}`);
-      }
-      if (entities.priceRange.min) {
-        confirmations.push(`over €${entities.priceRange.min.toLocaleString()}`);
-      }
-    }
-    
-    if (entities.features) {
-      const featureNames = Object.keys(entities.features).map(key => {
-        const featureMap: Record<string, string> = {
-          heatedSeats: 'heated seats',
-          navigationSystem: 'navigation system',
-          sunroof: 'sunroof',
-          carPlay: 'Apple CarPlay',
-          alloyWheels: 'alloy wheels',
-          ledHeadlights: 'LED headlights',
-        };
-        return featureMap[key] || key;
-      });
-      confirmations.push(`with ${featureNames.join(', ')}`);
-    }
-    
-    if (confirmations.length > 0) {
-      return `Got it! Looking for ${confirmations.join(', ')}.`;
-    } else {
-      return "I understand you're looking for a car. Could you be more specific about what you want?";
-    }
-  }, []);
+  }, [assistant]);
 
-  const generateNextQuestion = useCallback((filters: Partial<CarFilters>): string => {
-    // Ask follow-up questions based on what's missing
-    if (!filters.makes || filters.makes.length === 0) {
-      return "What car brand would you prefer? For example, BMW, Mercedes, Audi, or Volkswagen?";
-    }
-    
-    if (!filters.priceMax && !filters.priceMin) {
-      return "What's your budget range? You can say something like 'under 30,000 euros' or 'between 20,000 and 50,000 euros'.";
-    }
-    
-    if (!filters.vehicleTypes || filters.vehicleTypes.length === 0) {
-      return "What type of vehicle interests you? For example, SUV, sedan, coupe, or estate?";
-    }
-    
-    if (!filters.transmissions || filters.transmissions.length === 0) {
-      return "Do you prefer automatic or manual transmission?";
-    }
-    
-    return "Is there anything else specific you're looking for? I can search our inventory, add to your wishlist, or look at external sources. Just let me know!";
-  }, []);
+  const handleLocaleChange = useCallback((value: LocaleCode) => {
+    // Recognition picks up the new language on its next start
+    stopListening();
+    stopSpeaking();
+    setLocale(value);
+  }, [stopListening, stopSpeaking, setLocale]);
 
   if (!isOpen) return null;
 
+  const { ui } = getLocalePack(locale);
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <Card className="w-full max-w-2xl max-h-[80vh] flex flex-col">
         <CardHeader className="flex-row items-center justify-between space-y-0 pb-4">
           <CardTitle className="flex items-center space-x-2">
             <MessageCircle className="h-5 w-5 text-primary" />
-            <span>Voice Car Search Assistant</span>
+            <span>{ui.title}</span>
           </CardTitle>
-          <Button variant="ghost" size="sm" onClick={onClose}>
-            <X className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Select value={locale} onValueChange={value => handleLocaleChange(value as LocaleCode)}>
+              <SelectTrigger className="w-32 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOCALE_CODES.map(code => (
+                  <SelectItem key={code} value={code}>{LOCALES[code].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleMuted}
+              aria-label={preferences.muted ? ui.unmuteSpeech : ui.muteSpeech}
+              title={preferences.muted ? ui.unmuteSpeech : ui.muteSpeech}
+            >
+              {preferences.muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
         </CardHeader>
         
         <CardContent className="flex-1 flex flex-col space-y-4">
           {/* Conversation */}
-          <div className="flex-1 overflow-y-auto space-y-3 max-h-80 p-4 border rounded-lg bg-muted/20">
+          <div className="flex-1 overflow-y-auto space-y-3 max-h-80 p-4 border rounded-lg bg-muted/20" aria-live="polite">
             {conversation.map((message) => (
               <div
                 key={message.id}
@@ -497,7 +285,7 @@ export const VoiceSearchAssistant: React.FC<VoiceSearchAssistantProps> = ({
                 >
                   <p className="text-sm">{message.text}</p>
                   <p className="text-xs opacity-70 mt-1">
-                    {message.timestamp.toLocaleTimeString()}
+                    {new Date(message.timestamp).toLocaleTimeString()}
                   </p>
                 </div>
               </div>
@@ -508,7 +296,7 @@ export const VoiceSearchAssistant: React.FC<VoiceSearchAssistantProps> = ({
           {/* Live Transcript */}
           {transcript && (
             <div className="p-3 bg-muted/50 rounded-lg border-2 border-dashed border-primary/30">
-              <p className="text-sm text-muted-foreground mb-1">Live transcript:</p>
+              <p className="text-sm text-muted-foreground mb-1">{ui.liveTranscript}</p>
               <p className="text-sm">{transcript}</p>
             </div>
           )}
@@ -518,53 +306,107 @@ export const VoiceSearchAssistant: React.FC<VoiceSearchAssistantProps> = ({
             {isListening && (
               <Badge variant="default" className="animate-pulse">
                 <Mic className="h-3 w-3 mr-1" />
-                Listening...
+                {ui.listening}
               </Badge>
             )}
             
             {isSpeaking && (
               <Badge variant="secondary" className="animate-pulse">
                 <Volume2 className="h-3 w-3 mr-1" />
-                Speaking...
+                {ui.speaking}
               </Badge>
             )}
           </div>
           
+          {/* Quick Replies */}
+          {quickReplies.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2" role="group" aria-label={ui.quickReplies}>
+              {quickReplies.map(reply => (
+                <Button
+                  key={reply}
+                  variant="outline"
+                  size="sm"
+                  className="rounded-full"
+                  onClick={() => handleQuickReply(reply)}
+                >
+                  {reply}
+                </Button>
+              ))}
+            </div>
+          )}
+
           {/* Controls */}
-          <div className="flex items-center justify-center space-x-4 pt-4 border-t">
-            <Button
-              variant={isListening ? "destructive" : "default"}
-              size="lg"
-              onClick={isListening ? stopListening : startListening}
-              disabled={isSpeaking}
-              className="px-8"
-            >
-              {isListening ? (
-                <>
-                  <MicOff className="h-4 w-4 mr-2" />
-                  Stop Listening
-                </>
-              ) : (
-                <>
-                  <Mic className="h-4 w-4 mr-2" />
-                  Start Listening
-                </>
+          {textMode ? (
+            <form onSubmit={handleTypedSubmit} className="flex items-center space-x-2 pt-4 border-t">
+              <Input
+                value={typedText}
+                onChange={(e) => setTypedText(e.target.value)}
+                placeholder={ui.typeMessage}
+                aria-label={ui.typeMessage}
+                autoFocus
+              />
+              <Button type="submit" disabled={!typedText.trim()}>
+                <Send className="h-4 w-4 mr-2" />
+                {ui.send}
+              </Button>
+              {canListen && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => updatePreferences({ inputMode: 'voice' })}
+                  aria-label={ui.voiceMode}
+                  title={ui.voiceMode}
+                >
+                  <Mic className="h-4 w-4" />
+                </Button>
               )}
-            </Button>
-            
-            {isSpeaking && (
-              <Button variant="outline" onClick={stopSpeaking}>
-                <VolumeX className="h-4 w-4 mr-2" />
-                Stop Speaking
+            </form>
+          ) : (
+            <div className="flex items-center justify-center space-x-4 pt-4 border-t">
+              <Button
+                variant={isListening ? "destructive" : "default"}
+                size="lg"
+                onClick={isListening ? stopListening : startListening}
+                className="px-8"
+              >
+                {isListening ? (
+                  <>
+                    <MicOff className="h-4 w-4 mr-2" />
+                    {ui.stopListening}
+                  </>
+                ) : (
+                  <>
+                    <Mic className="h-4 w-4 mr-2" />
+                    {ui.startListening}
+                  </>
+                )}
               </Button>
-            )}
-          </div>
+              
+              {isSpeaking && (
+                <Button variant="outline" onClick={stopSpeaking}>
+                  <VolumeX className="h-4 w-4 mr-2" />
+                  {ui.stopSpeaking}
+                </Button>
+              )}
+
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  stopListening();
+                  updatePreferences({ inputMode: 'text' });
+                }}
+              >
+                <Keyboard className="h-4 w-4 mr-2" />
+                {ui.textMode}
+              </Button>
+            </div>
+          )}
           
           {/* Instructions */}
           <div className="text-xs text-muted-foreground text-center space-y-1">
-            <p>💡 Try saying: "I want a used BMW SUV under 40,000 euros with heated seats"</p>
-            <p>🔄 Or: "Add this to my wishlist" / "Search external sources"</p>
-            <p>🌟 Or: "Show me electric cars with automatic transmission"</p>
+            {ui.examples.map(example => (
+              <p key={example}>{example}</p>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -573,7 +415,7 @@ export const VoiceSearchAssistant: React.FC<VoiceSearchAssistantProps> = ({
       <WishlistManager
         isOpen={showWishlist}
         onClose={() => setShowWishlist(false)}
-        onSubmitWishlist={handleSubmitWishlist}
+        onSubmitWishlist={() => setShowWishlist(false)}
         onRequestExternalSearch={handleRequestExternalSearch}
       />
     </div>
@@ -0,0 +1,93 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ConversationState } from '@/types/car';
+import { ConversationMessage, ConversationSession, VoicePreferences } from '@/types/conversation';
+import { LocaleCode, resolveLocale } from '@/locales';
+import {
+  conversationRepository,
+  createConversationSession,
+  loadVoicePreferences,
+  saveVoicePreferences,
+} from '@/data/conversations';
+import { VoiceSessionContext, VoiceSessionContextType } from '@/hooks/use-voice-session';
+
+// A visit that comes back within this time carries on the same conversation
+const RESUME_WITHIN_MS = 30 * 60 * 1000;
+
+const resumeOrStart = (): ConversationSession => {
+  const [latest] = conversationRepository.list();
+  if (latest && Date.now() - new Date(latest.updatedAt).getTime() < RESUME_WITHIN_MS) {
+    return latest;
+  }
+  return createConversationSession(resolveLocale(navigator.language));
+};
+
+/**
+ * The conversation with the voice assistant, mounted once above the router so
+ * it outlives the pages that show the assistant. Sessions are stored once
+ * something has been said, for staff to review in the admin.
+ */
+export const VoiceSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState(resumeOrStart);
+  const [assistantOpen, setAssistantOpen] = useState(false);
+  const [preferences, setPreferences] = useState(() => loadVoicePreferences());
+
+  useEffect(() => {
+    if (session.messages.length > 0) {
+      conversationRepository.save(session);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    saveVoicePreferences(preferences);
+  }, [preferences]);
+
+  const updatePreferences = useCallback((changes: Partial<VoicePreferences>) => {
+    setPreferences(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const update = useCallback((changes: (current: ConversationSession) => Partial<ConversationSession>) => {
+    setSession(prev => ({ ...prev, ...changes(prev), updatedAt: new Date().toISOString() }));
+  }, []);
+
+  const addMessage = useCallback((type: ConversationMessage['type'], text: string) => {
+    update(prev => ({
+      messages: [
+        ...prev.messages,
+        { id: `${Date.now()}-${prev.messages.length}`, type, text, timestamp: new Date().toISOString() },
+      ],
+    }));
+  }, [update]);
+
+  const setConversationState = useCallback((action: React.SetStateAction<ConversationState>) => {
+    update(prev => ({ state: typeof action === 'function' ? action(prev.state) : action }));
+  }, [update]);
+
+  const setLocale = useCallback((locale: LocaleCode) => update(() => ({ locale })), [update]);
+
+  const recordSearch = useCallback((search: string) => {
+    setSession(prev => (prev.lastSearch === search ? prev : { ...prev, lastSearch: search }));
+  }, []);
+
+  const startNewSession = useCallback(() => {
+    setSession(prev => createConversationSession(prev.locale));
+  }, []);
+
+  const value = useMemo<VoiceSessionContextType>(() => ({
+    session,
+    assistantOpen,
+    setAssistantOpen,
+    preferences,
+    updatePreferences,
+    addMessage,
+    setConversationState,
+    setLocale,
+    recordSearch,
+    startNewSession,
+  }), [session, assistantOpen, preferences, updatePreferences, addMessage, setConversationState, setLocale, recordSearch, startNewSession]);
+
+  return (
+    <VoiceSessionContext.Provider value={value}>
+      {children}
+    </VoiceSessionContext.Provider>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -6,14 +6,18 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { WishlistItem, OrderRequest } from '@/types/wishlist';
+import { WishlistItem, WishlistPriority, OrderRequest } from '@/types/wishlist';
 import { Heart, Search, ShoppingCart, Calendar, DollarSign } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { useCars } from '@/hooks/use-cars';
+import { useCreateWishlistItem } from '@/hooks/use-wishlist';
+import { findWishlistMatches } from '@/utils/filters';
 
 interface WishlistManagerProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmitWishlist: (item: Partial<WishlistItem>) => void;
+  // Called with the request once it has been saved
+  onSubmitWishlist: (item: WishlistItem) => void;
   onRequestExternalSearch: (specifications: any) => void;
 }
 
@@ -44,10 +48,37 @@ export const WishlistManager: React.FC<WishlistManagerProps> = ({
     additionalRequirements: '',
   });
 
-  const [priority, setPriority] = useState<'low' | 'medium' | 'high' | 'urgent'>('medium');
+  const [priority, setPriority] = useState<WishlistPriority>('medium');
   const [timeline, setTimeline] = useState<'asap' | '1-month' | '3-months' | '6-months' | 'flexible'>('flexible');
 
-  const handleSubmitToWishlist = () => {
+  const { data: cars = [] } = useCars();
+  const createWishlistItem = useCreateWishlistItem();
+
+  const desiredSpecs = useMemo<WishlistItem['desiredSpecs']>(() => ({
+    make: specifications.make || undefined,
+    model: specifications.model || undefined,
+    vehicleType: specifications.vehicleType || undefined,
+    condition: specifications.condition || undefined,
+    priceRange: {
+      min: specifications.priceMin ? parseInt(specifications.priceMin) : undefined,
+      max: specifications.priceMax ? parseInt(specifications.priceMax) : undefined,
+    },
+    yearRange: {
+      min: specifications.yearMin ? parseInt(specifications.yearMin) : undefined,
+      max: specifications.yearMax ? parseInt(specifications.yearMax) : undefined,
+    },
+    fuelType: specifications.fuelType || undefined,
+    transmission: specifications.transmission || undefined,
+    features: specifications.features,
+    additionalRequirements: specifications.additionalRequirements || undefined,
+  }), [specifications]);
+
+  const inStockMatches = useMemo(() => findWishlistMatches(cars, desiredSpecs), [cars, desiredSpecs]);
+  const hasSpecifications = Object.entries(specifications).some(([key, value]) =>
+    key !== 'additionalRequirements' && (Array.isArray(value) ? value.length > 0 : value !== '')
+  );
+
+  const handleSubmitToWishlist = async () => {
     if (!clientInfo.name || !clientInfo.email) {
       toast({
         title: "Missing Information",
@@ -57,42 +88,30 @@ export const WishlistManager: React.FC<WishlistManagerProps> = ({
       return;
     }
 
-    const wishlistItem: Partial<WishlistItem> = {
-      clientName: clientInfo.name,
-      clientEmail: clientInfo.email,
-      clientPhone: clientInfo.phone,
-      desiredSpecs: {
-        make: specifications.make || undefined,
-        model: specifications.model || undefined,
-        vehicleType: specifications.vehicleType || undefined,
-        condition: specifications.condition || undefined,
-        priceRange: {
-          min: specifications.priceMin ? parseInt(specifications.priceMin) : undefined,
-          max: specifications.priceMax ? parseInt(specifications.priceMax) : undefined,
-        },
-        yearRange: {
-          min: specifications.yearMin ? parseInt(specifications.yearMin) : undefined,
-          max: specifications.yearMax ? parseInt(specifications.yearMax) : undefined,
-        },
-        fuelType: specifications.fuelType || undefined,
-        transmission: specifications.transmission || undefined,
-        features: specifications.features,
-        additionalRequirements: specifications.additionalRequirements || undefined,
-      },
-      priority,
-      status: 'active',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    try {
+      const wishlistItem = await createWishlistItem.mutateAsync({
+        clientName: clientInfo.name,
+        clientEmail: clientInfo.email,
+        clientPhone: clientInfo.phone || undefined,
+        desiredSpecs,
+        priority,
+      });
 
-    onSubmitWishlist(wishlistItem);
-    
-    toast({
-      title: "Added to Wishlist",
-      description: "We'll search for matching vehicles and contact you when we find something!",
-    });
+      onSubmitWishlist(wishlistItem);
 
-    onClose();
+      toast({
+        title: "Added to Wishlist",
+        description: `We'll search for your ${wishlistItem.desiredSpecs.make || 'desired'} vehicle and contact you when we find matches!`,
+      });
+
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Wishlist Not Saved",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleExternalSearch = () => {
@@ -161,6 +180,11 @@ export const WishlistManager: React.FC<WishlistManagerProps> = ({
           {/* Vehicle Specifications */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold">Desired Vehicle Specifications</h3>
+            {hasSpecifications && inStockMatches.length > 0 && (
+              <p className="text-sm text-primary">
+                {inStockMatches.length} vehicle{inStockMatches.length === 1 ? '' : 's'} in our current inventory already match these specifications.
+              </p>
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
@@ -333,6 +357,7 @@ export const WishlistManager: React.FC<WishlistManagerProps> = ({
               onClick={handleSubmitToWishlist}
               className="flex-1"
               size="lg"
+              disabled={createWishlistItem.isPending}
             >
               <Heart className="h-4 w-4 mr-2" />
               Add to Wishlist
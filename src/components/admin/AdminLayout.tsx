@@ -10,6 +10,7 @@ import {
   Heart, 
   Settings, 
   BarChart3, 
+  MessageCircle,
   LogOut,
   Menu,
   X,
@@ -32,6 +33,7 @@ const navigationItems = [
   { title: "Wishlist & Orders", url: "/admin/wishlist", icon: Heart },
   { title: "Settings", url: "/admin/settings", icon: Settings },
   { title: "Analytics", url: "/admin/analytics", icon: BarChart3 },
+  { title: "Voice Transcripts", url: "/admin/conversations", icon: MessageCircle },
 ];
 
 export const AdminLayout = ({ children, onLogout }: AdminLayoutProps) => {
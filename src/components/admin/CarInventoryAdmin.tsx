@@ -10,14 +10,87 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Edit, Trash2, Search } from "lucide-react";
-import { sampleCars as cars } from "@/data/cars";
+import { useCars, useDeleteCar, useSaveCar } from "@/hooks/use-cars";
+import { formatMileage, formatPrice, FUEL_TYPE_LABELS } from "@/lib/format";
+import { Car } from "@/types/car";
+
+type NewCarForm = {
+  make: string;
+  model: string;
+  year: number;
+  price: number;
+  mileage: number;
+  fuelType: string;
+  transmission: string;
+  bodyType: string;
+  color: string;
+  engine: string;
+  description: string;
+  features: string;
+  status: string;
+};
+
+// Fill the fields the quick-add form does not ask for with neutral defaults
+const buildCarFromForm = (form: NewCarForm): Car => ({
+  id: Date.now().toString(),
+  make: form.make,
+  model: form.model,
+  name: `${form.make} ${form.model}`,
+  vehicleType: (form.bodyType || "other") as Car["vehicleType"],
+  seats: 5,
+  doors: 5,
+  slidingDoor: false,
+  condition: form.mileage === 0 ? "new" : "used",
+  paymentType: "buy",
+  price: form.price,
+  firstRegistration: form.year,
+  mileage: form.mileage,
+  huValidMonths: 24,
+  numberOfOwners: form.mileage === 0 ? 0 : 1,
+  fullServiceHistory: false,
+  roadworthy: true,
+  newService: false,
+  country: "Germany",
+  city: "",
+  zipCode: "",
+  deliveryAvailable: false,
+  fuelType: (form.fuelType || "petrol") as Car["fuelType"],
+  power: 0,
+  cubicCapacity: 0,
+  driveType: "fwd",
+  transmission: (form.transmission || "automatic") as Car["transmission"],
+  emissionClass: "euro6",
+  particulateFilter: false,
+  exteriorColor: form.color,
+  parkingSensors: "none",
+  cruiseControl: "none",
+  interiorMaterial: "fabric",
+  airConditioning: "manual",
+  sunroof: false,
+  trailerCoupling: false,
+  heatedSeats: false,
+  navigationSystem: false,
+  carPlay: false,
+  alloyWheels: false,
+  ledHeadlights: false,
+  laneChangeAssist: false,
+  emergencyBrakeAssist: false,
+  image: "/placeholder.svg",
+  description: form.description || undefined,
+  year: form.year,
+  isNew: form.mileage === 0,
+  listedAt: new Date().toISOString(),
+});
 
 export const CarInventoryAdmin = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const { toast } = useToast();
+  const { data: cars = [] } = useCars();
+  const saveCar = useSaveCar();
+  const deleteCar = useDeleteCar();
 
-  const [newCar, setNewCar] = useState({
+  const [newCar, setNewCar] = useState<NewCarForm>({
     make: "",
     model: "",
     year: new Date().getFullYear(),
@@ -38,8 +111,18 @@ export const CarInventoryAdmin = () => {
     car.model.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const handleAddCar = (e: React.FormEvent) => {
+  const handleAddCar = async (e: React.FormEvent) => {
     e.preventDefault();
+    try {
+      await saveCar.mutateAsync(buildCarFromForm(newCar));
+    } catch (error) {
+      toast({
+        title: "Car not added",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
     toast({
       title: "Car added successfully",
       description: `${newCar.make} ${newCar.model} has been added to inventory`,
@@ -62,7 +145,17 @@ export const CarInventoryAdmin = () => {
     });
   };
 
-  const handleDeleteCar = (carId: string) => {
+  const handleDeleteCar = async (carId: string) => {
+    try {
+      await deleteCar.mutateAsync(carId);
+    } catch (error) {
+      toast({
+        title: "Car not removed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
     toast({
       title: "Car removed",
       description: "Car has been removed from inventory",
@@ -144,10 +237,10 @@ export const CarInventoryAdmin = () => {
                       <SelectValue placeholder="Select fuel type" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Gasoline">Gasoline</SelectItem>
-                      <SelectItem value="Diesel">Diesel</SelectItem>
-                      <SelectItem value="Electric">Electric</SelectItem>
-                      <SelectItem value="Hybrid">Hybrid</SelectItem>
+                      <SelectItem value="petrol">Petrol</SelectItem>
+                      <SelectItem value="diesel">Diesel</SelectItem>
+                      <SelectItem value="electric">Electric</SelectItem>
+                      <SelectItem value="hybrid">Hybrid</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -158,9 +251,9 @@ export const CarInventoryAdmin = () => {
                       <SelectValue placeholder="Select transmission" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Automatic">Automatic</SelectItem>
-                      <SelectItem value="Manual">Manual</SelectItem>
-                      <SelectItem value="CVT">CVT</SelectItem>
+                      <SelectItem value="automatic">Automatic</SelectItem>
+                      <SelectItem value="manual">Manual</SelectItem>
+                      <SelectItem value="semi-automatic">Semi-automatic</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -232,9 +325,9 @@ export const CarInventoryAdmin = () => {
                 <TableRow key={car.id}>
                   <TableCell className="font-medium">{car.make} {car.model}</TableCell>
                   <TableCell>{car.year}</TableCell>
-                  <TableCell>${car.price.toLocaleString()}</TableCell>
-                  <TableCell>{car.mileage.toLocaleString()} mi</TableCell>
-                  <TableCell>{car.fuelType}</TableCell>
+                  <TableCell>{formatPrice(car.price)}</TableCell>
+                  <TableCell>{formatMileage(car.mileage)}</TableCell>
+                  <TableCell>{FUEL_TYPE_LABELS[car.fuelType]}</TableCell>
                   <TableCell>
                     <Badge variant="secondary">Available</Badge>
                   </TableCell>
@@ -0,0 +1,162 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { conversationRepository } from "@/data/conversations";
+import { getLocalePack } from "@/locales";
+import { ConversationSession } from "@/types/conversation";
+import { cn } from "@/lib/utils";
+import { MessageCircle, Search, Trash2 } from "lucide-react";
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString();
+
+// Filters as short "key: value" labels; the transcript says what they meant
+const describeFilters = (session: ConversationSession) =>
+  Object.entries(session.state.collectedFilters)
+    .filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(", ") : value}`);
+
+export const ConversationTranscriptsAdmin = () => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState(() => conversationRepository.list());
+  const [selectedId, setSelectedId] = useState<string | undefined>(() => sessions[0]?.id);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const filteredSessions = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return sessions;
+    return sessions.filter(session => session.messages.some(message => message.text.toLowerCase().includes(term)));
+  }, [sessions, searchTerm]);
+
+  const selected = sessions.find(session => session.id === selectedId);
+
+  const handleDelete = (id: string) => {
+    conversationRepository.remove(id);
+    const remaining = conversationRepository.list();
+    setSessions(remaining);
+    if (id === selectedId) setSelectedId(remaining[0]?.id);
+    toast({ title: "Transcript deleted", description: "The conversation has been removed." });
+  };
+
+  const handleClear = () => {
+    conversationRepository.clear();
+    setSessions([]);
+    setSelectedId(undefined);
+    toast({ title: "Transcripts cleared", description: "All stored conversations have been removed." });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Voice Transcripts</h1>
+          <p className="text-muted-foreground">Review what customers asked the voice assistant and how it answered</p>
+        </div>
+        <Button variant="outline" onClick={handleClear} disabled={sessions.length === 0}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Clear All
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-1">
+          <CardHeader className="space-y-4">
+            <CardTitle className="flex items-center gap-2">
+              <MessageCircle className="h-5 w-5" />
+              Conversations ({filteredSessions.length})
+            </CardTitle>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search transcripts..."
+                className="pl-9"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {filteredSessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No conversations recorded yet.</p>
+            ) : (
+              <ScrollArea className="h-[480px] pr-2">
+                <div className="space-y-2">
+                  {filteredSessions.map(session => (
+                    <button
+                      key={session.id}
+                      type="button"
+                      onClick={() => setSelectedId(session.id)}
+                      className={cn(
+                        "w-full rounded-md border p-3 text-left transition-colors hover:bg-muted",
+                        session.id === selectedId && "border-primary bg-muted"
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{formatDateTime(session.startedAt)}</span>
+                        <Badge variant="secondary">{getLocalePack(session.locale).name}</Badge>
+                      </div>
+                      <p className="mt-1 truncate text-xs text-muted-foreground">
+                        {session.messages.find(message => message.type === "user")?.text ?? "No customer messages"}
+                      </p>
+                      <p className="mt-1 text-xs text-muted-foreground">{session.messages.length} messages</p>
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          {selected ? (
+            <>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1">
+                  <CardTitle>Conversation from {formatDateTime(selected.startedAt)}</CardTitle>
+                  <p className="text-sm text-muted-foreground">Last active {formatDateTime(selected.updatedAt)}</p>
+                  <div className="flex flex-wrap gap-1 pt-2">
+                    {describeFilters(selected).map(filter => (
+                      <Badge key={filter} variant="outline">{filter}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(selected.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[480px] pr-4">
+                  <div className="space-y-3">
+                    {selected.messages.map(message => (
+                      <div
+                        key={message.id}
+                        className={cn("flex", message.type === "user" ? "justify-end" : "justify-start")}
+                      >
+                        <div
+                          className={cn(
+                            "max-w-[80%] rounded-lg p-3",
+                            message.type === "user" ? "bg-primary text-primary-foreground" : "bg-muted"
+                          )}
+                        >
+                          <p className="text-sm">{message.text}</p>
+                          <p className="mt-1 text-xs opacity-70">{new Date(message.timestamp).toLocaleTimeString()}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Select a conversation to read its transcript.
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_DIALOGUE_PLAN, dialoguePlanStore } from "@/data/dialoguePlan";
+import { LOCALE_CODES, LocaleCode, getLocalePack } from "@/locales";
+import { DialoguePlanOverrides, DialogueSlot, DialogueSlotOverride } from "@/types/dialogue";
+import { MessageSquareText, RotateCcw, Save } from "lucide-react";
+
+// Slots as the form edits them: suggested answers comma separated. Only the wording
+// can change; which filters a slot fills and when it is skipped come with the app
+interface SlotDraft {
+  slot: DialogueSlot;
+  prompts: Partial<Record<LocaleCode, string>>;
+  quickReplies: Partial<Record<LocaleCode, string>>;
+}
+
+const toDraft = (slot: DialogueSlot): SlotDraft => ({
+  slot,
+  prompts: { ...slot.prompts },
+  quickReplies: Object.fromEntries(LOCALE_CODES.map(code => [code, (slot.quickReplies[code] ?? []).join(", ")])),
+});
+
+const splitReplies = (value: string | undefined) =>
+  (value ?? "").split(",").map(reply => reply.trim()).filter(Boolean);
+
+// Only what differs from the default wording is kept, or explains the first thing that is wrong
+const toOverrides = (drafts: SlotDraft[]): DialoguePlanOverrides | string => {
+  const overrides: DialoguePlanOverrides = {};
+
+  for (const { slot, prompts, quickReplies } of drafts) {
+    if (LOCALE_CODES.every(code => !prompts[code]?.trim())) return `The question for "${slot.id}" is empty.`;
+
+    const defaults = DEFAULT_DIALOGUE_PLAN.slots.find(({ id }) => id === slot.id) ?? slot;
+    const override: DialogueSlotOverride = {};
+
+    for (const code of LOCALE_CODES) {
+      // An emptied question goes back to the default wording
+      const prompt = prompts[code]?.trim();
+      if (prompt && prompt !== defaults.prompts[code]) override.prompts = { ...override.prompts, [code]: prompt };
+
+      const replies = splitReplies(quickReplies[code]);
+      if (JSON.stringify(replies) !== JSON.stringify(defaults.quickReplies[code] ?? [])) {
+        override.quickReplies = { ...override.quickReplies, [code]: replies };
+      }
+    }
+
+    if (override.prompts || override.quickReplies) overrides[slot.id] = override;
+  }
+
+  return overrides;
+};
+
+export const DialoguePlanEditor = () => {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<SlotDraft[]>(() => dialoguePlanStore.get().slots.map(toDraft));
+
+  const updateDraft = (index: number, changes: Partial<SlotDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSave = () => {
+    const result = toOverrides(drafts);
+    if (typeof result === "string") {
+      toast({ title: "Questions not saved", description: result, variant: "destructive" });
+      return;
+    }
+
+    dialoguePlanStore.save(result);
+    setDrafts(dialoguePlanStore.get().slots.map(toDraft));
+    toast({ title: "Questions saved", description: "The voice assistant asks the updated questions now." });
+  };
+
+  const handleReset = () => {
+    const plan = dialoguePlanStore.reset();
+    setDrafts(plan.slots.map(toDraft));
+    toast({ title: "Questions reset", description: "The default questions are back in place." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareText className="h-5 w-5" />
+          Voice Follow-up Questions
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          What the voice assistant asks once it has understood a request. It asks about whatever best narrows down the
+          cars still matching, skips anything the customer has already answered or has no preference on, and stops
+          after {dialoguePlanStore.get().maxQuestions} questions. Only the wording is yours to change; an emptied
+          question goes back to the default.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {drafts.map((draft, index) => (
+          <div key={draft.slot.id} className="space-y-4">
+            <Separator />
+            <h3 className="font-medium">
+              {draft.slot.id}
+              <span className="ml-2 text-xs font-normal text-muted-foreground">fills {draft.slot.filters.join(", ")}</span>
+            </h3>
+
+            {LOCALE_CODES.map(code => (
+              <div key={code} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor={`slot-prompt-${index}-${code}`}>Question ({getLocalePack(code).name})</Label>
+                  <Textarea
+                    id={`slot-prompt-${index}-${code}`}
+                    rows={2}
+                    value={draft.prompts[code] ?? ""}
+                    onChange={(e) => updateDraft(index, { prompts: { ...draft.prompts, [code]: e.target.value } })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`slot-replies-${index}-${code}`}>Suggested answers ({getLocalePack(code).name})</Label>
+                  <Input
+                    id={`slot-replies-${index}-${code}`}
+                    value={draft.quickReplies[code] ?? ""}
+                    onChange={(e) => updateDraft(index, { quickReplies: { ...draft.quickReplies, [code]: e.target.value } })}
+                    placeholder="Comma separated"
+                  />
+                </div>
+              </div>
+            ))}
+
+          </div>
+        ))}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={handleReset}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset to Defaults
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            <Save className="mr-2 h-4 w-4" />
+            Save Questions
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -18,14 +18,18 @@ import {
   SortAsc,
   SortDesc
 } from 'lucide-react';
-import { cars as sampleCars } from '@/data/cars';
+import { useCars, useDeleteCar } from '@/hooks/use-cars';
 import { Car } from '@/types/car';
 import { BulkCarOperations } from './BulkCarOperations';
 import { useToast } from '@/hooks/use-toast';
 
+// Stable fallback while the inventory loads, so renders don't see a new list each time
+const EMPTY_CARS: Car[] = [];
+
 export const EnhancedCarInventory: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [carList, setCarList] = useState<Car[]>(sampleCars);
+  const { data: carList = EMPTY_CARS } = useCars();
+  const deleteCar = useDeleteCar();
   const [selectedCars, setSelectedCars] = useState<Car[]>([]);
   const [sortBy, setSortBy] = useState<string>('name');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
@@ -35,7 +39,7 @@ export const EnhancedCarInventory: React.FC = () => {
   const { toast } = useToast();
 
   // Get unique makes for filter dropdown
-  const uniqueMakes = Array.from(new Set(sampleCars.map(car => car.make))).sort();
+  const uniqueMakes = Array.from(new Set(carList.map(car => car.make))).sort();
 
   const filteredCars = carList
     .filter(car => {
@@ -82,13 +86,29 @@ export const EnhancedCarInventory: React.FC = () => {
       }
     });
 
-  const handleDeleteCar = (carId: string) => {
-    setCarList(prev => prev.filter(car => car.id !== carId));
+  const handleDeleteCar = async (carId: string) => {
+    try {
+      await deleteCar.mutateAsync(carId);
+    } catch (error) {
+      toast({
+        title: "Car not removed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleBulkDelete = (carIds: string[]) => {
-    setCarList(prev => prev.filter(car => !carIds.includes(car.id)));
-    setSelectedCars([]);
+  const handleBulkDelete = async (carIds: string[]) => {
+    try {
+      await Promise.all(carIds.map(carId => deleteCar.mutateAsync(carId)));
+      setSelectedCars([]);
+    } catch (error) {
+      toast({
+        title: "Cars not removed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
   const handleBulkEdit = (carIds: string[]) => {
@@ -6,12 +6,13 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Upload, Image, Trash2, Eye, Search } from "lucide-react";
-import { sampleCars as cars } from "@/data/cars";
+import { useCars } from "@/hooks/use-cars";
 
 export const PhotoManager = () => {
   const [selectedCar, setSelectedCar] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
   const { toast } = useToast();
+  const { data: cars = [] } = useCars();
 
   // Mock photo data
   const [photos] = useState([
@@ -6,7 +6,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { UseCaseCatalogueEditor } from "./UseCaseCatalogueEditor";
+import { DialoguePlanEditor } from "./DialoguePlanEditor";
+import { DEFAULT_SPEECH_SETTINGS, ELEVENLABS_SETTINGS_EVENT, SPEECH_PROVIDERS, SPEECH_PROVIDER_IDS, SPEECH_SETTINGS_EVENT, SpeechProviderId } from "@/speech";
 import { Eye, EyeOff, Save, Key, Globe, Bell, Shield } from "lucide-react";
 
 export const SettingsAdmin = () => {
@@ -20,6 +24,8 @@ export const SettingsAdmin = () => {
       elevenLabsApiKey: "",
       elevenLabsVoiceId: "9BWtsMINqrJLrRacOk9x", // Aria default
       elevenLabsModel: "eleven_multilingual_v2",
+      elevenLabsAgentId: "",
+      elevenLabsAgentOrigin: "",
       
       // Dealership Info
       dealershipName: "DreamCars Auto",
@@ -34,6 +40,7 @@ export const SettingsAdmin = () => {
       
       // Voice Settings
       voiceEnabled: true,
+      speechProvider: DEFAULT_SPEECH_SETTINGS.provider,
       autoSpeak: true,
       voiceSpeed: 1.0,
       
@@ -52,10 +59,11 @@ export const SettingsAdmin = () => {
   const handleSave = () => {
     localStorage.setItem("admin_settings", JSON.stringify(settings));
     
-    // Trigger event to notify VoiceProvider of API key update
-    if (settings.elevenLabsApiKey) {
-      window.dispatchEvent(new CustomEvent('elevenlabs-key-updated'));
+    // Trigger event to notify VoiceProvider of API key or agent update
+    if (settings.elevenLabsApiKey || settings.elevenLabsAgentId) {
+      window.dispatchEvent(new CustomEvent(ELEVENLABS_SETTINGS_EVENT));
     }
+    window.dispatchEvent(new CustomEvent(SPEECH_SETTINGS_EVENT));
     
     toast({
       title: "Settings saved",
@@ -67,6 +75,9 @@ export const SettingsAdmin = () => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  // Settings saved before the provider choice existed have none
+  const speechProvider: SpeechProviderId = settings.speechProvider ?? DEFAULT_SPEECH_SETTINGS.provider;
+
   return (
     <div className="space-y-6">
       <div>
@@ -131,6 +142,35 @@ export const SettingsAdmin = () => {
               <p className="text-xs text-muted-foreground">Recommended: eleven_multilingual_v2</p>
             </div>
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="agent-id">Agent ID</Label>
+              <Input
+                id="agent-id"
+                value={settings.elevenLabsAgentId ?? ""}
+                onChange={(e) => updateSetting("elevenLabsAgentId", e.target.value)}
+                placeholder="Conversational agent ID"
+              />
+              <p className="text-xs text-muted-foreground">
+                The agent behind the microphone button. Give it the client tools searchCars, navigateToCarDetail,
+                navigateToComparison and navigateToSection.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="agent-origin">Agent Server</Label>
+              <Input
+                id="agent-origin"
+                value={settings.elevenLabsAgentOrigin ?? ""}
+                onChange={(e) => updateSetting("elevenLabsAgentOrigin", e.target.value)}
+                placeholder="wss://api.elevenlabs.io"
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty for ElevenLabs. Use ws://localhost:8787 with <code>npm run mock:agent</code> to test offline.
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -213,6 +253,29 @@ export const SettingsAdmin = () => {
             />
           </div>
           
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="speech-provider">Speech Provider</Label>
+            <Select
+              value={speechProvider}
+              onValueChange={(value) => updateSetting("speechProvider", value as SpeechProviderId)}
+            >
+              <SelectTrigger id="speech-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPEECH_PROVIDER_IDS.map(id => (
+                  <SelectItem key={id} value={id}>{SPEECH_PROVIDERS[id].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {SPEECH_PROVIDERS[speechProvider]?.description}
+              {" "}Browsers that cannot use the chosen provider fall back to text only.
+            </p>
+          </div>
+
           <Separator />
           
           <div className="flex items-center justify-between">
@@ -242,6 +305,12 @@ export const SettingsAdmin = () => {
         </CardContent>
       </Card>
 
+      {/* Voice Use Cases */}
+      <UseCaseCatalogueEditor />
+
+      {/* Voice Follow-up Questions */}
+      <DialoguePlanEditor />
+
       {/* Notification Settings */}
       <Card>
         <CardHeader>
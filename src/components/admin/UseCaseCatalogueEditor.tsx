@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { SOFT_REQUIREMENT_WEIGHT, useCaseCatalogue } from "@/data/useCases";
+import { LOCALE_CODES, LocaleCode, getLocalePack } from "@/locales";
+import { UseCase } from "@/types/useCase";
+import { Plus, RotateCcw, Save, Sparkles, Trash2 } from "lucide-react";
+
+// Use cases as the form edits them: phrases comma separated, filters as JSON
+interface UseCaseDraft {
+  id: string;
+  labels: Partial<Record<LocaleCode, string>>;
+  phrases: Partial<Record<LocaleCode, string>>;
+  requirements: { weight: number; filters: string }[];
+}
+
+const toDraft = (useCase: UseCase): UseCaseDraft => ({
+  id: useCase.id,
+  labels: { ...useCase.labels },
+  phrases: Object.fromEntries(
+    LOCALE_CODES.map(code => [code, (useCase.phrases[code] ?? []).join(", ")])
+  ),
+  requirements: useCase.requirements.map(({ weight, filters }) => ({ weight, filters: JSON.stringify(filters) })),
+});
+
+// Turns the drafts back into use cases, or explains the first thing that is wrong
+const fromDrafts = (drafts: UseCaseDraft[]): UseCase[] | string => {
+  const ids = new Set<string>();
+  const useCases: UseCase[] = [];
+
+  for (const draft of drafts) {
+    const id = draft.id.trim();
+    if (!id) return "Every use case needs an ID.";
+    if (ids.has(id)) return `The ID "${id}" is used twice.`;
+    ids.add(id);
+
+    const requirements: UseCase["requirements"] = [];
+    for (const { weight, filters } of draft.requirements) {
+      if (!(weight >= 0 && weight <= 1)) return `Weights in "${id}" must be between 0 and 1.`;
+      try {
+        const parsed = JSON.parse(filters);
+        if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) throw new Error("not an object");
+        requirements.push({ weight, filters: parsed });
+      } catch {
+        return `The filters ${filters || "(empty)"} in "${id}" are not a JSON object.`;
+      }
+    }
+
+    useCases.push({
+      id,
+      labels: draft.labels,
+      phrases: Object.fromEntries(
+        LOCALE_CODES.map(code => [
+          code,
+          (draft.phrases[code] ?? "").split(",").map(phrase => phrase.trim().toLowerCase()).filter(Boolean),
+        ])
+      ),
+      requirements,
+    });
+  }
+
+  return useCases;
+};
+
+export const UseCaseCatalogueEditor = () => {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<UseCaseDraft[]>(() => useCaseCatalogue.list().map(toDraft));
+
+  const updateDraft = (index: number, changes: Partial<UseCaseDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const updateRequirement = (index: number, requirementIndex: number, changes: Partial<UseCaseDraft["requirements"][number]>) => {
+    const requirements = drafts[index].requirements.map((requirement, i) =>
+      i === requirementIndex ? { ...requirement, ...changes } : requirement
+    );
+    updateDraft(index, { requirements });
+  };
+
+  const handleSave = () => {
+    const result = fromDrafts(drafts);
+    if (typeof result === "string") {
+      toast({ title: "Use cases not saved", description: result, variant: "destructive" });
+      return;
+    }
+
+    useCaseCatalogue.save(result);
+    toast({ title: "Use cases saved", description: "The voice assistant understands the updated use cases now." });
+  };
+
+  const handleReset = () => {
+    setDrafts(useCaseCatalogue.reset().map(toDraft));
+    toast({ title: "Use cases reset", description: "The default use cases are back in place." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Voice Use Cases
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Lifestyle phrases such as "family car" or "for towing" and the filters they stand for. Filters only apply
+          where the customer has not said anything more specific; the higher the weight, the earlier a filter is applied.
+          Filters weighing less than {SOFT_REQUIREMENT_WEIGHT} only move matching cars up the results.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {drafts.map((draft, index) => (
+          <div key={index} className="space-y-4">
+            {index > 0 && <Separator />}
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={`use-case-id-${index}`}>ID</Label>
+                <Input
+                  id={`use-case-id-${index}`}
+                  value={draft.id}
+                  onChange={(e) => updateDraft(index, { id: e.target.value })}
+                  placeholder="family"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {LOCALE_CODES.map(code => (
+              <div key={code} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`use-case-label-${index}-${code}`}>Label ({getLocalePack(code).name})</Label>
+                  <Input
+                    id={`use-case-label-${index}-${code}`}
+                    value={draft.labels[code] ?? ""}
+                    onChange={(e) => updateDraft(index, { labels: { ...draft.labels, [code]: e.target.value } })}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor={`use-case-phrases-${index}-${code}`}>Phrases ({getLocalePack(code).name})</Label>
+                  <Input
+                    id={`use-case-phrases-${index}-${code}`}
+                    value={draft.phrases[code] ?? ""}
+                    onChange={(e) => updateDraft(index, { phrases: { ...draft.phrases, [code]: e.target.value } })}
+                    placeholder="Comma separated"
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label>Filters and weights</Label>
+              {draft.requirements.map((requirement, requirementIndex) => (
+                <div key={requirementIndex} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.1"
+                    className="w-24"
+                    value={requirement.weight}
+                    onChange={(e) => updateRequirement(index, requirementIndex, { weight: parseFloat(e.target.value) })}
+                  />
+                  <Input
+                    className="flex-1 font-mono text-xs"
+                    value={requirement.filters}
+                    onChange={(e) => updateRequirement(index, requirementIndex, { filters: e.target.value })}
+                    placeholder='{"seatsMin": 5}'
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateDraft(index, {
+                      requirements: draft.requirements.filter((_, i) => i !== requirementIndex),
+                    })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateDraft(index, { requirements: [...draft.requirements, { weight: 1, filters: "{}" }] })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Filter
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-col md:flex-row gap-2 md:justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setDrafts(prev => [...prev, { id: "", labels: {}, phrases: {}, requirements: [] }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Use Case
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleReset}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset to Defaults
+            </Button>
+            <Button type="button" onClick={handleSave}>
+              <Save className="mr-2 h-4 w-4" />
+              Save Use Cases
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
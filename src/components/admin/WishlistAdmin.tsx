@@ -5,90 +5,63 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { Heart, Search, CheckCircle, XCircle, ExternalLink, Calendar } from "lucide-react";
+import { Heart, Search, CheckCircle, XCircle, Calendar } from "lucide-react";
+import { useCancelWishlistItem, useSetWishlistStatus, useWishlistItems } from "@/hooks/use-wishlist";
+import { WISHLIST_STATUS_TRANSITIONS } from "@/data/wishlist";
+import { formatPrice } from "@/lib/format";
+import { WishlistStatus } from "@/types/wishlist";
+
+// Button labels for the forward steps; cancelling has its own button
+const STATUS_ACTION_LABELS: Partial<Record<WishlistStatus, string>> = {
+  sourcing: "Start Sourcing",
+  found: "Mark Found",
+  completed: "Mark Complete",
+};
 
 export const WishlistAdmin = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const { toast } = useToast();
-
-  // Mock wishlist data
-  const [wishlistItems] = useState([
-    {
-      id: "1",
-      customerName: "John Doe",
-      customerEmail: "john@example.com",
-      customerPhone: "(555) 123-4567",
-      make: "BMW",
-      model: "M3",
-      year: 2024,
-      maxPrice: 85000,
-      preferredColor: "Alpine White",
-      transmission: "Manual",
-      fuelType: "Gasoline",
-      additionalRequests: "Looking for Competition Package",
-      status: "pending",
-      priority: "high",
-      createdAt: "2024-01-15",
-      estimatedDelivery: "2-4 weeks"
-    },
-    {
-      id: "2",
-      customerName: "Sarah Johnson",
-      customerEmail: "sarah@example.com",
-      customerPhone: "(555) 987-6543",
-      make: "Tesla",
-      model: "Model Y",
-      year: 2024,
-      maxPrice: 65000,
-      preferredColor: "Pearl White",
-      transmission: "Automatic",
-      fuelType: "Electric",
-      additionalRequests: "Long Range version preferred",
-      status: "sourcing",
-      priority: "medium",
-      createdAt: "2024-01-10",
-      estimatedDelivery: "1-2 weeks"
-    },
-    {
-      id: "3",
-      customerName: "Mike Wilson",
-      customerEmail: "mike@example.com",
-      customerPhone: "(555) 456-7890",
-      make: "Porsche",
-      model: "911",
-      year: 2023,
-      maxPrice: 120000,
-      preferredColor: "Guards Red",
-      transmission: "Manual",
-      fuelType: "Gasoline",
-      additionalRequests: "Prefer Carrera S or GTS",
-      status: "completed",
-      priority: "high",
-      createdAt: "2024-01-05",
-      estimatedDelivery: "Delivered"
-    }
-  ]);
+  const { data: wishlistItems = [] } = useWishlistItems();
+  const setStatus = useSetWishlistStatus();
+  const cancelItem = useCancelWishlistItem();
 
   const filteredItems = wishlistItems.filter(item =>
-    item.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    `${item.make} ${item.model}`.toLowerCase().includes(searchTerm.toLowerCase())
+    item.clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    `${item.desiredSpecs.make ?? ""} ${item.desiredSpecs.model ?? ""}`.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const handleStatusUpdate = (itemId: string, newStatus: string) => {
-    toast({
-      title: "Status updated",
-      description: `Wishlist item status changed to ${newStatus}`,
-    });
+  const handleStatusUpdate = async (itemId: string, newStatus: WishlistStatus) => {
+    try {
+      if (newStatus === "cancelled") {
+        await cancelItem.mutateAsync({ id: itemId });
+      } else {
+        await setStatus.mutateAsync({ id: itemId, status: newStatus });
+      }
+      toast({
+        title: "Status updated",
+        description: `Wishlist item status changed to ${newStatus}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Status not changed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: WishlistStatus) => {
     switch (status) {
-      case "pending":
-        return <Badge variant="secondary">Pending</Badge>;
+      case "active":
+        return <Badge variant="secondary">Active</Badge>;
       case "sourcing":
         return <Badge variant="outline">Sourcing</Badge>;
+      case "found":
+        return <Badge variant="outline">Found</Badge>;
       case "completed":
         return <Badge>Completed</Badge>;
+      case "cancelled":
+        return <Badge variant="destructive">Cancelled</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -96,6 +69,8 @@ export const WishlistAdmin = () => {
 
   const getPriorityBadge = (priority: string) => {
     switch (priority) {
+      case "urgent":
+        return <Badge variant="destructive">Urgent</Badge>;
       case "high":
         return <Badge variant="destructive">High</Badge>;
       case "medium":
@@ -109,8 +84,8 @@ export const WishlistAdmin = () => {
 
   const stats = {
     total: wishlistItems.length,
-    pending: wishlistItems.filter(item => item.status === "pending").length,
-    sourcing: wishlistItems.filter(item => item.status === "sourcing").length,
+    active: wishlistItems.filter(item => item.status === "active").length,
+    sourcing: wishlistItems.filter(item => item.status === "sourcing" || item.status === "found").length,
     completed: wishlistItems.filter(item => item.status === "completed").length
   };
 
@@ -134,11 +109,11 @@ export const WishlistAdmin = () => {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium">Active</CardTitle>
             <Calendar className="h-4 w-4 text-yellow-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.pending}</div>
+            <div className="text-2xl font-bold">{stats.active}</div>
           </CardContent>
         </Card>
         <Card>
@@ -199,56 +174,73 @@ export const WishlistAdmin = () => {
                 <TableRow key={item.id}>
                   <TableCell>
                     <div>
-                      <div className="font-medium">{item.customerName}</div>
-                      <div className="text-sm text-muted-foreground">{item.customerEmail}</div>
-                      <div className="text-sm text-muted-foreground">{item.customerPhone}</div>
+                      <div className="font-medium">{item.clientName}</div>
+                      <div className="text-sm text-muted-foreground">{item.clientEmail}</div>
+                      {item.clientPhone && (
+                        <div className="text-sm text-muted-foreground">{item.clientPhone}</div>
+                      )}
                     </div>
                   </TableCell>
                   <TableCell>
                     <div>
-                      <div className="font-medium">{item.year} {item.make} {item.model}</div>
+                      <div className="font-medium">
+                        {item.desiredSpecs.yearRange?.min && `${item.desiredSpecs.yearRange.min}+ `}
+                        {item.desiredSpecs.make ?? "Any make"} {item.desiredSpecs.model}
+                      </div>
                       <div className="text-sm text-muted-foreground">
-                        {item.preferredColor} • {item.transmission} • {item.fuelType}
+                        {[item.desiredSpecs.vehicleType, item.desiredSpecs.transmission, item.desiredSpecs.fuelType]
+                          .filter(Boolean)
+                          .join(" • ")}
                       </div>
-                      {item.additionalRequests && (
+                      {item.desiredSpecs.additionalRequirements && (
                         <div className="text-sm text-muted-foreground mt-1">
-                          "{item.additionalRequests}"
+                          "{item.desiredSpecs.additionalRequirements}"
                         </div>
                       )}
+                      {item.notes && (
+                        <div className="text-sm text-muted-foreground mt-1 whitespace-pre-line">{item.notes}</div>
+                      )}
                     </div>
                   </TableCell>
-                  <TableCell>${item.maxPrice.toLocaleString()}</TableCell>
+                  <TableCell>
+                    {item.desiredSpecs.priceRange?.max ? formatPrice(item.desiredSpecs.priceRange.max) : "—"}
+                  </TableCell>
                   <TableCell>{getStatusBadge(item.status)}</TableCell>
                   <TableCell>{getPriorityBadge(item.priority)}</TableCell>
                   <TableCell>
                     <div>
-                      <div>{new Date(item.createdAt).toLocaleDateString()}</div>
-                      <div className="text-sm text-muted-foreground">
-                        ETA: {item.estimatedDelivery}
-                      </div>
+                      <div>{item.createdAt.toLocaleDateString()}</div>
+                      {item.estimatedDelivery && (
+                        <div className="text-sm text-muted-foreground">
+                          ETA: {item.estimatedDelivery.toLocaleDateString()}
+                        </div>
+                      )}
                     </div>
                   </TableCell>
                   <TableCell>
                     <div className="flex space-x-2">
-                      {item.status === "pending" && (
-                        <Button 
-                          size="sm" 
-                          onClick={() => handleStatusUpdate(item.id, "sourcing")}
-                        >
-                          Start Sourcing
-                        </Button>
-                      )}
-                      {item.status === "sourcing" && (
-                        <Button 
-                          size="sm" 
-                          onClick={() => handleStatusUpdate(item.id, "completed")}
+                      {WISHLIST_STATUS_TRANSITIONS[item.status]
+                        .filter(status => status !== "cancelled")
+                        .map(status => (
+                          <Button
+                            key={status}
+                            size="sm"
+                            variant={status === "sourcing" && item.status === "found" ? "outline" : "default"}
+                            onClick={() => handleStatusUpdate(item.id, status)}
+                          >
+                            {status === "sourcing" && item.status === "found" ? "Back to Sourcing" : STATUS_ACTION_LABELS[status]}
+                          </Button>
+                        ))}
+                      {WISHLIST_STATUS_TRANSITIONS[item.status].includes("cancelled") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Cancel request"
+                          onClick={() => handleStatusUpdate(item.id, "cancelled")}
                         >
-                          Mark Complete
+                          <XCircle className="h-4 w-4" />
                         </Button>
                       )}
-                      <Button variant="outline" size="sm">
-                        <ExternalLink className="h-4 w-4" />
-                      </Button>
                     </div>
                   </TableCell>
                 </TableRow>
@@ -49,10 +49,23 @@ export const sampleCars: Car[] = [
     image: 'https://images.unsplash.com/photo-1555215695-3004980ad54e?w=400&h=300&fit=crop',
     images: [
       'https://images.unsplash.com/photo-1555215695-3004980ad54e?w=800&h=600&fit=crop',
-      'https://images.unsplash.com/photo-1503376780353-7e6692767b70?w=800&h=600&fit=crop'
+      'https://images.unsplash.com/photo-1606664515524-ed2f786a0bd6?w=800&h=600&fit=crop',
+      'https://images.unsplash.com/photo-1617788138017-80ad40651399?w=800&h=600&fit=crop'
+    ],
+    description: 'The BMW M4 Competition represents the pinnacle of BMW\'s performance engineering. With its twin-turbo S58 engine and track-tuned suspension, this coupe delivers an uncompromising driving experience that balances everyday usability with track-day capability.',
+    highlights: [
+      'M Sport Differential',
+      'Carbon Fiber Roof',
+      'Harman Kardon Surround Sound',
+      'Head-Up Display',
+      'Wireless Apple CarPlay',
+      'Heated Sport Seats',
+      'M Performance Exhaust',
+      'Adaptive M Suspension'
     ],
     year: 2024,
     isNew: true,
+    listedAt: '2024-06-12',
   },
   {
     id: '2',
@@ -99,8 +112,24 @@ export const sampleCars: Car[] = [
     laneChangeAssist: true,
     emergencyBrakeAssist: true,
     image: 'https://images.unsplash.com/photo-1618843479313-40f8afb4b4d8?w=400&h=300&fit=crop',
+    images: [
+      'https://images.unsplash.com/photo-1618843479313-40f8afb4b4d8?w=800&h=600&fit=crop',
+      'https://images.unsplash.com/photo-1555215695-3004980ad54e?w=800&h=600&fit=crop',
+      'https://images.unsplash.com/photo-1606664515524-ed2f786a0bd6?w=800&h=600&fit=crop'
+    ],
+    description: 'The Mercedes-AMG C63 combines luxury with raw performance. Featuring AMG\'s handcrafted biturbo V8 engine, this saloon delivers exceptional power and handling in any weather condition.',
+    highlights: [
+      'Burmester 3D Surround Sound',
+      'AMG Track Pace',
+      'MBUX Infotainment',
+      'AMG Performance Seats',
+      'Panoramic Sunroof',
+      'AMG Ride Control Suspension',
+      'AMG Performance Exhaust'
+    ],
     year: 2023,
     isNew: false,
+    listedAt: '2024-05-28',
   },
   {
     id: '3',
@@ -147,8 +176,25 @@ export const sampleCars: Car[] = [
     laneChangeAssist: true,
     emergencyBrakeAssist: true,
     image: 'https://images.unsplash.com/photo-1606664515524-ed2f786a0bd6?w=400&h=300&fit=crop',
+    images: [
+      'https://images.unsplash.com/photo-1606664515524-ed2f786a0bd6?w=800&h=600&fit=crop',
+      'https://images.unsplash.com/photo-1555215695-3004980ad54e?w=800&h=600&fit=crop',
+      'https://images.unsplash.com/photo-1617788138017-80ad40651399?w=800&h=600&fit=crop'
+    ],
+    description: 'The Audi RS6 Avant is the ultimate performance estate, combining supercar-level performance with practical everyday usability. Its twin-turbo V8 and quattro all-wheel drive system deliver exceptional performance in all conditions.',
+    highlights: [
+      'Quattro All-Wheel Drive',
+      'RS Sport Suspension Plus',
+      'Bang & Olufsen 3D Sound',
+      'Virtual Cockpit Plus',
+      'RS Sport Exhaust',
+      'Carbon Fiber Exterior Package',
+      'Matrix LED Headlights',
+      'RS Performance Mode'
+    ],
     year: 2024,
     isNew: true,
+    listedAt: '2024-06-20',
   },
   {
     id: '4',
@@ -195,8 +241,19 @@ export const sampleCars: Car[] = [
     laneChangeAssist: true,
     emergencyBrakeAssist: true,
     image: 'https://images.unsplash.com/photo-1503376780353-7e6692767b70?w=400&h=300&fit=crop',
+    highlights: [
+      'Porsche Traction Management',
+      'Active Suspension Management',
+      'Bose Surround Sound',
+      'Sport Chrono Package',
+      'Ceramic Composite Brakes',
+      'Sport Seats Plus',
+      'LED Matrix Headlights',
+      'Porsche Communication Management'
+    ],
     year: 2023,
     isNew: false,
+    listedAt: '2024-04-02',
   },
   {
     id: '5',
@@ -245,6 +302,7 @@ export const sampleCars: Car[] = [
     image: 'https://images.unsplash.com/photo-1617788138017-80ad40651399?w=400&h=300&fit=crop',
     year: 2024,
     isNew: true,
+    listedAt: '2024-06-05',
   },
   {
     id: '6',
@@ -293,6 +351,7 @@ export const sampleCars: Car[] = [
     image: 'https://images.unsplash.com/photo-1544636331-e26879cd4d9b?w=400&h=300&fit=crop',
     year: 2022,
     isNew: false,
+    listedAt: '2024-03-18',
   },
   {
     id: '7',
@@ -341,6 +400,7 @@ export const sampleCars: Car[] = [
     image: 'https://images.unsplash.com/photo-1519641471654-76ce0107ad1b?w=400&h=300&fit=crop',
     year: 2023,
     isNew: false,
+    listedAt: '2024-05-09',
   },
   {
     id: '8',
@@ -389,6 +449,7 @@ export const sampleCars: Car[] = [
     image: 'https://images.unsplash.com/photo-1583121274602-3e2820c69888?w=400&h=300&fit=crop',
     year: 2021,
     isNew: false,
+    listedAt: '2024-02-26',
   },
   {
     id: '9',
@@ -437,6 +498,7 @@ export const sampleCars: Car[] = [
     image: 'https://images.unsplash.com/photo-1606664515524-ed2f786a0bd6?w=400&h=300&fit=crop',
     year: 2024,
     isNew: true,
+    listedAt: '2024-06-24',
   },
   {
     id: '10',
@@ -485,5 +547,6 @@ export const sampleCars: Car[] = [
     image: 'https://images.unsplash.com/photo-1621007947382-bb3c3994e3fb?w=400&h=300&fit=crop',
     year: 2022,
     isNew: false,
+    listedAt: '2024-05-15',
   },
 ];
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { ConversationSession, VoicePreferences } from '@/types/conversation';
+import { LocaleCode } from '@/locales';
+import { getBrowserStorage } from './inventory';
+
+export const CONVERSATION_STORAGE_KEY = 'voice_conversations';
+// Older sessions are dropped once there are more than this
+export const MAX_STORED_CONVERSATIONS = 50;
+
+export interface ConversationRepository {
+  // Most recently active first
+  list: () => ConversationSession[];
+  get: (id: string) => ConversationSession | undefined;
+  save: (session: ConversationSession) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+export const VOICE_PREFERENCES_STORAGE_KEY = 'voice_preferences';
+
+export const DEFAULT_VOICE_PREFERENCES: VoicePreferences = { inputMode: 'voice', muted: false };
+
+export const loadVoicePreferences = (storage: Storage | undefined = getBrowserStorage()): VoicePreferences => {
+  try {
+    return { ...DEFAULT_VOICE_PREFERENCES, ...JSON.parse(storage?.getItem(VOICE_PREFERENCES_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_VOICE_PREFERENCES;
+  }
+};
+
+export const saveVoicePreferences = (
+  preferences: VoicePreferences,
+  storage: Storage | undefined = getBrowserStorage(),
+) => {
+  storage?.setItem(VOICE_PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+};
+
+export const createConversationSession = (locale: LocaleCode): ConversationSession => {
+  const now = new Date().toISOString();
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    startedAt: now,
+    updatedAt: now,
+    locale,
+    messages: [],
+    state: { currentStep: 'greeting', collectedFilters: {}, history: [] },
+  };
+};
+
+// Read synchronously like the use case catalogue, since a session is picked
+// up before the first render
+export const createConversationRepository = (
+  storage: Storage | undefined = getBrowserStorage(),
+  storageKey: string = CONVERSATION_STORAGE_KEY,
+  limit: number = MAX_STORED_CONVERSATIONS,
+): ConversationRepository => {
+  let sessions: ConversationSession[] | null = null;
+
+  const load = (): ConversationSession[] => {
+    if (sessions) return sessions;
+
+    const saved = storage?.getItem(storageKey);
+    if (saved) {
+      try {
+        sessions = JSON.parse(saved) as ConversationSession[];
+        return sessions;
+      } catch (error) {
+        console.error('Failed to read stored conversations, starting without them:', error);
+      }
+    }
+
+    sessions = [];
+    return sessions;
+  };
+
+  const persist = (next: ConversationSession[]) => {
+    sessions = next;
+    storage?.setItem(storageKey, JSON.stringify(next));
+  };
+
+  return {
+    list: () => [...load()],
+    get: (id) => load().find(session => session.id === id),
+    save: (session) => {
+      const others = load().filter(existing => existing.id !== session.id);
+      persist([session, ...others].slice(0, limit));
+    },
+    remove: (id) => persist(load().filter(session => session.id !== id)),
+    clear: () => {
+      sessions = [];
+      storage?.removeItem(storageKey);
+    },
+  };
+};
+
+export const conversationRepository = createConversationRepository();
@@ -0,0 +1,196 @@
+import { DialoguePlan, DialoguePlanOverrides } from '@/types/dialogue';
+import { getBrowserStorage } from './inventory';
+
+// What the voice assistant asks about once it has understood a request. Slots
+// are not asked in this order: the assistant picks whichever best splits the
+// cars still in the running, so the order only breaks ties. Admins can change
+// the wording in the settings.
+export const DEFAULT_DIALOGUE_PLAN: DialoguePlan = {
+  maxQuestions: 4,
+  slots: [
+    {
+      id: 'make',
+      attribute: 'make',
+      filters: ['makes', 'models'],
+      prompts: {
+        en: 'What car brand would you prefer? For example, BMW, Mercedes, Audi, or Volkswagen?',
+        de: 'Welche Marke bevorzugen Sie? Zum Beispiel BMW, Mercedes, Audi oder Volkswagen?',
+      },
+      quickReplies: {
+        en: ['BMW', 'Mercedes', 'Audi', 'Volkswagen', 'Any brand'],
+        de: ['BMW', 'Mercedes', 'Audi', 'Volkswagen', 'Marke egal'],
+      },
+      dontCarePhrases: {
+        en: ['any brand', 'any make', 'any manufacturer', 'brand does not matter', "brand doesn't matter"],
+        de: ['marke egal', 'egal welche marke', 'jede marke', 'beliebige marke', 'irgendeine marke'],
+      },
+      skipWhen: [],
+    },
+    {
+      id: 'budget',
+      attribute: 'price',
+      filters: ['priceMin', 'priceMax'],
+      prompts: {
+        en: "What's your budget range? You can say something like 'under 30,000 euros' or 'between 20,000 and 50,000 euros'.",
+        de: "Wie hoch ist Ihr Budget? Sie können etwa 'unter 30.000 Euro' oder 'zwischen 20.000 und 50.000 Euro' sagen.",
+      },
+      quickReplies: {
+        en: ['Under 20,000 euros', 'Under 30,000 euros', 'Between 20,000 and 50,000 euros'],
+        de: ['Unter 20.000 Euro', 'Unter 30.000 Euro', 'Zwischen 20.000 und 50.000 Euro'],
+      },
+      dontCarePhrases: {
+        en: ['any price', 'any budget', 'price does not matter', "price doesn't matter", 'money is no object'],
+        de: ['preis egal', 'egal was es kostet', 'budget egal', 'geld spielt keine rolle'],
+      },
+      skipWhen: [],
+    },
+    {
+      id: 'vehicleType',
+      attribute: 'vehicleType',
+      filters: ['vehicleTypes'],
+      prompts: {
+        en: 'What type of vehicle interests you? For example, SUV, sedan, coupe, or estate?',
+        de: 'Welche Karosserieform interessiert Sie? Zum Beispiel SUV, Limousine, Coupé oder Kombi?',
+      },
+      quickReplies: {
+        en: ['SUV', 'Sedan', 'Coupe', 'Estate'],
+        de: ['SUV', 'Limousine', 'Coupé', 'Kombi'],
+      },
+      dontCarePhrases: {
+        en: ['any type', 'any body type', 'any body style', 'any shape'],
+        de: ['karosserie egal', 'egal welche karosserie', 'jede karosserie', 'jede karosserieform'],
+      },
+      skipWhen: [],
+    },
+    {
+      id: 'fuelType',
+      attribute: 'fuelType',
+      filters: ['fuelTypes'],
+      prompts: {
+        en: 'Which fuel type would you like? Petrol, diesel, hybrid or electric?',
+        de: 'Welche Antriebsart soll es sein? Benzin, Diesel, Hybrid oder Elektro?',
+      },
+      quickReplies: {
+        en: ['Petrol', 'Diesel', 'Hybrid', 'Electric'],
+        de: ['Benzin', 'Diesel', 'Hybrid', 'Elektro'],
+      },
+      dontCarePhrases: {
+        en: ['any fuel', 'any fuel type', 'any engine'],
+        de: ['kraftstoff egal', 'antrieb egal', 'jeder kraftstoff', 'jeder antrieb'],
+      },
+      skipWhen: [],
+    },
+    {
+      id: 'transmission',
+      attribute: 'transmission',
+      filters: ['transmissions'],
+      prompts: {
+        en: 'Do you prefer automatic or manual transmission?',
+        de: 'Möchten Sie Automatik oder Schaltgetriebe?',
+      },
+      quickReplies: {
+        en: ['Automatic', 'Manual'],
+        de: ['Automatik', 'Schaltgetriebe'],
+      },
+      dontCarePhrases: {
+        en: ['any transmission', 'any gearbox', 'either gearbox', 'either transmission'],
+        de: ['getriebe egal', 'egal welches getriebe', 'jedes getriebe'],
+      },
+      // Electric cars have no gearbox to choose
+      skipWhen: [{ fuelTypes: ['electric'] }],
+    },
+    {
+      id: 'mileage',
+      attribute: 'mileage',
+      filters: ['mileageMin', 'mileageMax'],
+      prompts: {
+        en: "How many kilometres may the car have done? For example, 'under 50,000 km'.",
+        de: "Wie viele Kilometer darf das Auto haben? Zum Beispiel 'unter 50.000 km'.",
+      },
+      quickReplies: {
+        en: ['Under 20,000 km', 'Under 50,000 km', 'Under 100,000 km'],
+        de: ['Unter 20.000 km', 'Unter 50.000 km', 'Unter 100.000 km'],
+      },
+      dontCarePhrases: {
+        en: ['any mileage', 'mileage does not matter', "mileage doesn't matter"],
+        de: ['kilometerstand egal', 'laufleistung egal', 'egal wie viele kilometer'],
+      },
+      skipWhen: [{ conditions: ['new'] }],
+    },
+  ],
+};
+
+// Only the admin's rewording is stored, so slots and skip rules added to the default later still arrive
+export const DIALOGUE_PLAN_STORAGE_KEY = 'dialogue_plan_overrides';
+
+export interface DialoguePlanStore {
+  // The default plan with the saved wording applied
+  get: () => DialoguePlan;
+  getOverrides: () => DialoguePlanOverrides;
+  save: (overrides: DialoguePlanOverrides) => void;
+  reset: () => DialoguePlan;
+}
+
+// Wording for slots the plan no longer has is ignored
+export const applyDialoguePlanOverrides = (plan: DialoguePlan, overrides: DialoguePlanOverrides): DialoguePlan => ({
+  ...plan,
+  slots: plan.slots.map(slot => {
+    const override = overrides[slot.id];
+    if (!override) return slot;
+    return {
+      ...slot,
+      prompts: { ...slot.prompts, ...override.prompts },
+      quickReplies: { ...slot.quickReplies, ...override.quickReplies },
+    };
+  }),
+});
+
+// Read synchronously, since the assistant consults it after every answer
+export const createDialoguePlanStore = (
+  storage: Storage | undefined = getBrowserStorage(),
+  seed: DialoguePlan = DEFAULT_DIALOGUE_PLAN,
+  storageKey: string = DIALOGUE_PLAN_STORAGE_KEY,
+): DialoguePlanStore => {
+  let overrides: DialoguePlanOverrides | null = null;
+  let plan: DialoguePlan | null = null;
+
+  const loadOverrides = (): DialoguePlanOverrides => {
+    if (overrides) return overrides;
+
+    const saved = storage?.getItem(storageKey);
+    if (saved) {
+      try {
+        overrides = JSON.parse(saved) as DialoguePlanOverrides;
+        return overrides;
+      } catch (error) {
+        console.error('Failed to read the stored dialogue wording, falling back to the default:', error);
+      }
+    }
+
+    overrides = {};
+    return overrides;
+  };
+
+  const load = (): DialoguePlan => {
+    plan ??= applyDialoguePlanOverrides(seed, loadOverrides());
+    return plan;
+  };
+
+  return {
+    get: load,
+    getOverrides: loadOverrides,
+    save: (next) => {
+      overrides = next;
+      plan = null;
+      storage?.setItem(storageKey, JSON.stringify(next));
+    },
+    reset: () => {
+      overrides = {};
+      plan = seed;
+      storage?.removeItem(storageKey);
+      return plan;
+    },
+  };
+};
+
+export const dialoguePlanStore = createDialoguePlanStore();
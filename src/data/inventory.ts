@@ -0,0 +1,133 @@
+import { Car } from '@/types/car';
+import { sampleCars } from './cars';
+
+// Storage contract every inventory source has to fulfil. Pages and admin
+// screens never talk to a backend directly - they go through the
+// `inventoryRepository` below (usually via the hooks in `@/hooks/use-cars`).
+export interface InventoryBackend {
+  list: () => Promise<Car[]>;
+  get: (id: string) => Promise<Car | undefined>;
+  save: (car: Car) => Promise<Car>;
+  remove: (id: string) => Promise<void>;
+}
+
+export const INVENTORY_STORAGE_KEY = 'inventory_cars';
+
+export const getBrowserStorage = (): Storage | undefined => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// In-memory adapter, persisted to localStorage when available and seeded
+// with the bundled sample data on first use.
+export const createLocalInventoryBackend = (
+  storage: Storage | undefined = getBrowserStorage(),
+  seed: Car[] = sampleCars,
+  storageKey: string = INVENTORY_STORAGE_KEY,
+): InventoryBackend => {
+  let cars: Car[] | null = null;
+
+  const load = (): Car[] => {
+    if (cars) return cars;
+
+    const saved = storage?.getItem(storageKey);
+    if (saved) {
+      try {
+        cars = JSON.parse(saved) as Car[];
+        return cars;
+      } catch (error) {
+        console.error('Failed to read stored inventory, falling back to sample data:', error);
+      }
+    }
+
+    cars = seed.map(car => ({ ...car }));
+    return cars;
+  };
+
+  const persist = () => {
+    storage?.setItem(storageKey, JSON.stringify(cars));
+  };
+
+  return {
+    list: async () => [...load()],
+    get: async (id) => load().find(car => car.id === id),
+    save: async (car) => {
+      const current = load();
+      const index = current.findIndex(existing => existing.id === car.id);
+      cars = index === -1
+        ? [...current, car]
+        : current.map(existing => (existing.id === car.id ? car : existing));
+      persist();
+      return car;
+    },
+    remove: async (id) => {
+      cars = load().filter(car => car.id !== id);
+      persist();
+    },
+  };
+};
+
+// REST adapter speaking plain JSON: GET/PUT/DELETE `${baseUrl}/cars[/:id]`.
+export const createRestInventoryBackend = (
+  baseUrl: string,
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init),
+): InventoryBackend => {
+  const root = baseUrl.replace(/\/$/, '');
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetchImpl(`${root}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Inventory request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+
+  return {
+    list: () => request<Car[]>('/cars'),
+    get: async (id) => {
+      try {
+        return await request<Car>(`/cars/${encodeURIComponent(id)}`);
+      } catch (error) {
+        if (error instanceof Error && error.message.includes(' 404 ')) return undefined;
+        throw error;
+      }
+    },
+    save: (car) => request<Car>(`/cars/${encodeURIComponent(car.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(car),
+    }),
+    remove: (id) => request<void>(`/cars/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+  };
+};
+
+const createDefaultBackend = (): InventoryBackend => {
+  const apiUrl = import.meta.env.VITE_INVENTORY_API_URL as string | undefined;
+  return apiUrl ? createRestInventoryBackend(apiUrl) : createLocalInventoryBackend();
+};
+
+let activeBackend: InventoryBackend | null = null;
+
+export const getInventoryBackend = (): InventoryBackend => {
+  if (!activeBackend) activeBackend = createDefaultBackend();
+  return activeBackend;
+};
+
+export const setInventoryBackend = (backend: InventoryBackend) => {
+  activeBackend = backend;
+};
+
+// Single entry point for inventory reads and writes.
+export const inventoryRepository: InventoryBackend = {
+  list: () => getInventoryBackend().list(),
+  get: (id) => getInventoryBackend().get(id),
+  save: (car) => getInventoryBackend().save(car),
+  remove: (id) => getInventoryBackend().remove(id),
+};
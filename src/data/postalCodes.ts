@@ -0,0 +1,298 @@
+// Offline postal-code coordinates for Germany and the markets around it.
+// Each table maps a postal-code prefix to the approximate centre of that
+// region as [latitude, longitude]. Lookups use the longest prefix listed, so
+// a country can mix coarse one-digit regions with finer two-digit entries.
+// This is accurate to a few dozen kilometres, which is enough for radius
+// search without shipping a full postal database.
+
+export type PostalCountryCode = 'DE' | 'AT' | 'CH' | 'FR' | 'NL' | 'BE' | 'LU' | 'DK' | 'PL' | 'CZ' | 'IT';
+
+export const POSTAL_COUNTRIES: Record<PostalCountryCode, string> = {
+  DE: 'Germany',
+  AT: 'Austria',
+  CH: 'Switzerland',
+  FR: 'France',
+  NL: 'Netherlands',
+  BE: 'Belgium',
+  LU: 'Luxembourg',
+  DK: 'Denmark',
+  PL: 'Poland',
+  CZ: 'Czech Republic',
+  IT: 'Italy',
+};
+
+type PrefixTable = Record<string, [number, number]>;
+
+// German "Leitregionen" (first two digits)
+const DE: PrefixTable = {
+  '01': [51.05, 13.74], // Dresden
+  '02': [51.18, 14.43], // Bautzen, Görlitz
+  '03': [51.76, 14.33], // Cottbus
+  '04': [51.34, 12.37], // Leipzig
+  '06': [51.48, 11.97], // Halle
+  '07': [50.88, 12.08], // Gera, Jena
+  '08': [50.72, 12.49], // Zwickau, Plauen
+  '09': [50.83, 12.92], // Chemnitz
+  '10': [52.52, 13.40], // Berlin
+  '12': [52.45, 13.45], // Berlin south
+  '13': [52.57, 13.33], // Berlin north
+  '14': [52.40, 13.06], // Potsdam
+  '15': [52.34, 14.55], // Frankfurt (Oder)
+  '16': [52.83, 13.82], // Eberswalde, Oranienburg
+  '17': [53.56, 13.26], // Neubrandenburg
+  '18': [54.09, 12.13], // Rostock
+  '19': [53.63, 11.41], // Schwerin
+  '20': [53.55, 10.00], // Hamburg
+  '21': [53.35, 10.20], // Hamburg south, Lüneburg
+  '22': [53.62, 10.03], // Hamburg north
+  '23': [53.87, 10.69], // Lübeck
+  '24': [54.32, 10.14], // Kiel
+  '25': [54.30, 9.20], // Husum, Heide
+  '26': [53.14, 8.21], // Oldenburg
+  '27': [53.55, 8.58], // Bremerhaven, Cuxhaven
+  '28': [53.08, 8.80], // Bremen
+  '29': [52.62, 10.08], // Celle
+  '30': [52.37, 9.74], // Hannover
+  '31': [52.15, 9.95], // Hildesheim
+  '32': [52.12, 8.67], // Herford, Minden
+  '33': [52.02, 8.53], // Bielefeld
+  '34': [51.31, 9.48], // Kassel
+  '35': [50.58, 8.68], // Gießen, Marburg
+  '36': [50.55, 9.68], // Fulda
+  '37': [51.54, 9.93], // Göttingen
+  '38': [52.35, 10.65], // Braunschweig, Wolfsburg
+  '39': [52.13, 11.63], // Magdeburg
+  '40': [51.23, 6.78], // Düsseldorf
+  '41': [51.19, 6.44], // Mönchengladbach
+  '42': [51.26, 7.15], // Wuppertal
+  '44': [51.51, 7.47], // Dortmund
+  '45': [51.46, 7.01], // Essen
+  '46': [51.55, 6.85], // Oberhausen, Bottrop
+  '47': [51.43, 6.76], // Duisburg, Krefeld
+  '48': [51.96, 7.63], // Münster
+  '49': [52.28, 8.05], // Osnabrück
+  '50': [50.94, 6.96], // Cologne
+  '51': [50.99, 7.13], // Leverkusen, Bergisch Gladbach
+  '52': [50.78, 6.08], // Aachen
+  '53': [50.73, 7.10], // Bonn
+  '54': [49.75, 6.64], // Trier
+  '55': [49.99, 8.25], // Mainz
+  '56': [50.36, 7.59], // Koblenz
+  '57': [50.87, 8.02], // Siegen
+  '58': [51.36, 7.47], // Hagen
+  '59': [51.68, 7.82], // Hamm
+  '60': [50.11, 8.68], // Frankfurt am Main
+  '61': [50.23, 8.62], // Bad Homburg
+  '63': [50.05, 9.00], // Offenbach, Hanau, Aschaffenburg
+  '64': [49.87, 8.65], // Darmstadt
+  '65': [50.08, 8.24], // Wiesbaden
+  '66': [49.24, 6.99], // Saarbrücken
+  '67': [49.45, 8.10], // Ludwigshafen, Kaiserslautern
+  '68': [49.49, 8.47], // Mannheim
+  '69': [49.40, 8.69], // Heidelberg
+  '70': [48.78, 9.18], // Stuttgart
+  '71': [48.80, 9.10], // Ludwigsburg, Böblingen
+  '72': [48.50, 9.10], // Tübingen, Reutlingen
+  '73': [48.72, 9.55], // Esslingen, Göppingen
+  '74': [49.14, 9.22], // Heilbronn
+  '75': [48.89, 8.70], // Pforzheim
+  '76': [49.01, 8.40], // Karlsruhe
+  '77': [48.47, 7.94], // Offenburg
+  '78': [47.90, 8.60], // Villingen-Schwenningen, Konstanz
+  '79': [47.99, 7.85], // Freiburg
+  '80': [48.14, 11.58], // Munich
+  '81': [48.12, 11.62], // Munich east
+  '82': [48.00, 11.35], // Starnberg
+  '83': [47.86, 12.12], // Rosenheim
+  '84': [48.54, 12.15], // Landshut
+  '85': [48.76, 11.42], // Ingolstadt, Freising
+  '86': [48.37, 10.90], // Augsburg
+  '87': [47.73, 10.32], // Kempten
+  '88': [47.78, 9.61], // Ravensburg, Friedrichshafen
+  '89': [48.40, 9.99], // Ulm
+  '90': [49.45, 11.08], // Nuremberg
+  '91': [49.60, 11.00], // Erlangen, Fürth
+  '92': [49.55, 12.00], // Amberg, Weiden
+  '93': [49.01, 12.10], // Regensburg
+  '94': [48.57, 13.43], // Passau
+  '95': [50.10, 11.75], // Bayreuth, Hof
+  '96': [49.89, 10.89], // Bamberg, Coburg
+  '97': [49.79, 9.95], // Würzburg
+  '98': [50.61, 10.69], // Suhl
+  '99': [50.98, 11.03], // Erfurt
+};
+
+// Austrian postal regions (first digit)
+const AT: PrefixTable = {
+  '1': [48.21, 16.37], // Vienna
+  '2': [48.00, 16.20], // Lower Austria east
+  '3': [48.20, 15.63], // Lower Austria west, St. Pölten
+  '4': [48.31, 14.29], // Upper Austria, Linz
+  '5': [47.80, 13.04], // Salzburg
+  '6': [47.26, 11.39], // Tyrol, Vorarlberg
+  '7': [47.85, 16.52], // Burgenland
+  '8': [47.07, 15.44], // Styria, Graz
+  '9': [46.62, 14.31], // Carinthia, Klagenfurt
+};
+
+// Swiss postal regions (first digit)
+const CH: PrefixTable = {
+  '1': [46.52, 6.63], // Lausanne, Geneva
+  '2': [46.99, 6.93], // Neuchâtel, Jura
+  '3': [46.95, 7.45], // Bern
+  '4': [47.56, 7.59], // Basel
+  '5': [47.39, 8.04], // Aarau
+  '6': [47.05, 8.31], // Lucerne, Ticino
+  '7': [46.85, 9.53], // Chur, Graubünden
+  '8': [47.37, 8.54], // Zurich
+  '9': [47.42, 9.37], // St. Gallen
+};
+
+// French départements (first two digits), prefecture coordinates
+const FR: PrefixTable = {
+  '01': [46.21, 5.23], '02': [49.56, 3.62], '03': [46.57, 3.33], '04': [44.09, 6.24],
+  '05': [44.56, 6.08], '06': [43.70, 7.27], '07': [44.74, 4.60], '08': [49.77, 4.72],
+  '09': [42.97, 1.61], '10': [48.30, 4.08], '11': [43.21, 2.35], '12': [44.35, 2.57],
+  '13': [43.30, 5.37], '14': [49.18, -0.37], '15': [44.93, 2.44], '16': [45.65, 0.16],
+  '17': [46.16, -1.15], '18': [47.08, 2.40], '19': [45.27, 1.77], '20': [41.93, 8.74],
+  '21': [47.32, 5.04], '22': [48.51, -2.76], '23': [46.17, 1.87], '24': [45.18, 0.72],
+  '25': [47.24, 6.02], '26': [44.93, 4.89], '27': [49.02, 1.15], '28': [48.45, 1.49],
+  '29': [48.00, -4.10], '30': [43.84, 4.36], '31': [43.60, 1.44], '32': [43.65, 0.59],
+  '33': [44.84, -0.58], '34': [43.61, 3.88], '35': [48.11, -1.68], '36': [46.81, 1.69],
+  '37': [47.39, 0.69], '38': [45.19, 5.72], '39': [46.67, 5.55], '40': [43.89, -0.50],
+  '41': [47.59, 1.33], '42': [45.44, 4.39], '43': [45.04, 3.88], '44': [47.22, -1.55],
+  '45': [47.90, 1.91], '46': [44.45, 1.44], '47': [44.20, 0.62], '48': [44.52, 3.50],
+  '49': [47.47, -0.55], '50': [49.12, -1.09], '51': [49.26, 4.03], '52': [48.11, 5.14],
+  '53': [48.07, -0.77], '54': [48.69, 6.18], '55': [48.77, 5.16], '56': [47.66, -2.76],
+  '57': [49.12, 6.18], '58': [46.99, 3.16], '59': [50.63, 3.06], '60': [49.43, 2.08],
+  '61': [48.43, 0.09], '62': [50.29, 2.78], '63': [45.78, 3.08], '64': [43.30, -0.37],
+  '65': [43.23, 0.08], '66': [42.70, 2.90], '67': [48.57, 7.75], '68': [47.75, 7.34],
+  '69': [45.76, 4.84], '70': [47.62, 6.15], '71': [46.31, 4.83], '72': [48.00, 0.20],
+  '73': [45.56, 5.92], '74': [45.90, 6.13], '75': [48.86, 2.35], '76': [49.44, 1.10],
+  '77': [48.54, 2.66], '78': [48.80, 2.13], '79': [46.32, -0.46], '80': [49.89, 2.30],
+  '81': [43.93, 2.15], '82': [44.02, 1.35], '83': [43.12, 5.93], '84': [43.95, 4.81],
+  '85': [46.67, -1.43], '86': [46.58, 0.34], '87': [45.83, 1.26], '88': [48.17, 6.45],
+  '89': [47.80, 3.57], '90': [47.64, 6.86], '91': [48.63, 2.44], '92': [48.89, 2.21],
+  '93': [48.91, 2.44], '94': [48.79, 2.46], '95': [49.04, 2.08],
+};
+
+// Dutch postal regions, first digit with finer entries for the larger cities
+const NL: PrefixTable = {
+  '1': [52.37, 4.90], // North Holland
+  '2': [52.10, 4.40], // South Holland west
+  '3': [51.98, 4.80], // Rotterdam, Utrecht
+  '4': [51.55, 4.20], // Zeeland, West Brabant
+  '5': [51.55, 5.35], // North Brabant
+  '6': [51.60, 5.90], // Limburg, Gelderland south
+  '7': [52.35, 6.50], // Overijssel, Drenthe
+  '8': [52.80, 5.90], // Flevoland, Friesland
+  '9': [53.20, 6.40], // Groningen
+  '10': [52.37, 4.90], // Amsterdam
+  '25': [52.08, 4.30], // The Hague
+  '30': [51.92, 4.48], // Rotterdam
+  '35': [52.09, 5.12], // Utrecht
+  '56': [51.44, 5.48], // Eindhoven
+  '62': [50.85, 5.69], // Maastricht
+  '65': [51.84, 5.86], // Nijmegen
+  '68': [51.98, 5.91], // Arnhem
+  '75': [52.22, 6.89], // Enschede
+  '80': [52.51, 6.09], // Zwolle
+  '97': [53.22, 6.57], // Groningen city
+};
+
+// Belgian postal regions (first digit)
+const BE: PrefixTable = {
+  '1': [50.85, 4.35], // Brussels, Brabant
+  '2': [51.22, 4.40], // Antwerp
+  '3': [50.93, 5.00], // Leuven, Limburg
+  '4': [50.63, 5.57], // Liège
+  '5': [50.47, 4.87], // Namur
+  '6': [50.10, 5.00], // Charleroi, Luxembourg province
+  '7': [50.45, 3.95], // Mons, Hainaut
+  '8': [51.10, 3.00], // West Flanders
+  '9': [51.05, 3.72], // Ghent, East Flanders
+};
+
+// Luxembourg postal regions (first digit)
+const LU: PrefixTable = {
+  '1': [49.61, 6.13], // Luxembourg City
+  '2': [49.61, 6.13],
+  '3': [49.50, 5.98], // Esch-sur-Alzette
+  '4': [49.50, 5.98],
+  '5': [49.60, 6.35], // Remich, Grevenmacher
+  '6': [49.68, 6.40],
+  '7': [49.75, 6.10], // Mersch
+  '8': [49.70, 5.95], // Capellen, Redange
+  '9': [49.90, 6.05], // Ettelbruck, Clervaux
+};
+
+// Danish postal regions (first digit)
+const DK: PrefixTable = {
+  '1': [55.68, 12.57], // Copenhagen
+  '2': [55.68, 12.50], // Copenhagen suburbs
+  '3': [55.93, 12.30], // North Zealand
+  '4': [55.64, 12.08], // Zealand, Roskilde
+  '5': [55.40, 10.39], // Funen, Odense
+  '6': [55.49, 9.47], // South Jutland
+  '7': [55.71, 9.53], // Vejle, Herning
+  '8': [56.16, 10.20], // Aarhus
+  '9': [57.05, 9.92], // Aalborg
+};
+
+// Polish postal districts (first digit)
+const PL: PrefixTable = {
+  '0': [52.23, 21.01], // Warsaw
+  '1': [53.78, 20.48], // Olsztyn, Białystok
+  '2': [51.25, 22.57], // Lublin
+  '3': [50.06, 19.94], // Kraków, Rzeszów
+  '4': [50.26, 19.02], // Katowice, Opole
+  '5': [51.11, 17.04], // Wrocław
+  '6': [52.41, 16.93], // Poznań
+  '7': [53.43, 14.55], // Szczecin
+  '8': [54.35, 18.65], // Gdańsk
+  '9': [51.76, 19.46], // Łódź
+};
+
+// Czech postal regions (first digit)
+const CZ: PrefixTable = {
+  '1': [50.08, 14.44], // Prague
+  '2': [50.00, 14.60], // Central Bohemia
+  '3': [49.75, 13.38], // Plzeň, South Bohemia
+  '4': [50.66, 14.03], // Ústí nad Labem, Liberec
+  '5': [50.21, 15.83], // Hradec Králové, Pardubice
+  '6': [49.20, 16.61], // Brno
+  '7': [49.82, 18.26], // Ostrava, Olomouc
+};
+
+// Italian postal regions, first digit with finer entries for the north
+const IT: PrefixTable = {
+  '0': [41.90, 12.50], // Lazio, Rome
+  '1': [45.07, 7.69], // Piedmont, Liguria
+  '2': [45.46, 9.19], // Lombardy
+  '3': [45.44, 12.00], // Veneto, Trentino, Friuli
+  '4': [44.49, 11.34], // Emilia-Romagna
+  '5': [43.77, 11.25], // Tuscany
+  '6': [43.00, 13.50], // Marche, Abruzzo
+  '7': [41.12, 16.87], // Apulia
+  '8': [40.85, 14.27], // Campania, Calabria
+  '9': [38.12, 13.36], // Sicily
+  '00': [41.90, 12.50], // Rome
+  '10': [45.07, 7.69], // Turin
+  '16': [44.41, 8.93], // Genoa
+  '20': [45.46, 9.19], // Milan
+  '22': [45.81, 9.09], // Como
+  '24': [45.70, 9.67], // Bergamo
+  '25': [45.54, 10.22], // Brescia
+  '30': [45.44, 12.33], // Venice
+  '37': [45.44, 10.99], // Verona
+  '38': [46.07, 11.12], // Trento
+  '39': [46.50, 11.35], // Bolzano
+  '40': [44.49, 11.34], // Bologna
+  '41': [44.65, 10.93], // Modena
+  '50': [43.77, 11.25], // Florence
+  '80': [40.85, 14.27], // Naples
+};
+
+export const POSTAL_CODE_REGIONS: Record<PostalCountryCode, PrefixTable> = {
+  DE, AT, CH, FR, NL, BE, LU, DK, PL, CZ, IT,
+};
@@ -0,0 +1,116 @@
+import { UseCase, UseCaseRequirement } from '@/types/useCase';
+import { getBrowserStorage } from './inventory';
+
+// Lifestyle requests the voice assistant understands out of the box; admins can
+// change or extend them in the settings
+export const DEFAULT_USE_CASES: UseCase[] = [
+  {
+    id: 'family',
+    labels: { en: 'families', de: 'Familien' },
+    phrases: {
+      en: ['family car', 'family', 'kids', 'children', 'child seats', 'school run', 'dog'],
+      de: ['familienauto', 'familienwagen', 'familie', 'kinder', 'kindersitze', 'hund'],
+    },
+    requirements: [
+      { filters: { seatsMin: 5 }, weight: 1 },
+      { filters: { vehicleTypes: ['estate', 'van', 'suv'] }, weight: 0.8 },
+      { filters: { doors: '4-5' }, weight: 0.6 },
+      { filters: { slidingDoor: 'yes' }, weight: 0.3 },
+    ],
+  },
+  {
+    id: 'towing',
+    labels: { en: 'towing', de: 'den Anhängerbetrieb' },
+    phrases: {
+      en: ['towing', 'tow', 'caravan', 'trailer', 'horse box', 'horse trailer', 'boat trailer'],
+      de: ['wohnwagen', 'anhänger', 'pferdeanhänger', 'bootsanhänger', 'ziehen'],
+    },
+    requirements: [
+      { filters: { trailerCoupling: true }, weight: 1 },
+      { filters: { driveTypes: ['awd'] }, weight: 0.7 },
+      { filters: { powerMin: 150 }, weight: 0.6 },
+    ],
+  },
+  {
+    id: 'city-commuter',
+    labels: { en: 'city commuting', de: 'den Stadtverkehr' },
+    phrases: {
+      en: ['city commuter', 'commuter', 'commuting', 'commute', 'city car', 'city driving'],
+      de: ['stadtauto', 'stadtwagen', 'pendlerauto', 'pendler', 'pendeln', 'stadtverkehr'],
+    },
+    requirements: [
+      { filters: { vehicleTypes: ['small-car'] }, weight: 1 },
+      // Short trips are hard on diesel particulate filters
+      { filters: { fuelTypes: ['petrol', 'hybrid', 'plug-in-hybrid', 'electric'] }, weight: 0.5 },
+      { filters: { cubicCapacityMax: 1600 }, weight: 0.3 },
+    ],
+  },
+  {
+    id: 'weekend-fun',
+    labels: { en: 'weekend fun', de: 'Spaß am Wochenende' },
+    phrases: {
+      en: ['weekend fun car', 'weekend fun', 'weekend car', 'fun car', 'weekend toy'],
+      de: ['spaßauto', 'wochenendauto', 'fahrspaß', 'spaß am wochenende'],
+    },
+    requirements: [
+      { filters: { vehicleTypes: ['cabriolet', 'sports-coupe'] }, weight: 1 },
+      { filters: { powerMin: 200 }, weight: 0.6 },
+    ],
+  },
+];
+
+export const USE_CASE_STORAGE_KEY = 'use_case_catalogue';
+
+// Requirements weighing less than this are nice to have: they rank the cars
+// that fit rather than leave out the ones that don't
+export const SOFT_REQUIREMENT_WEIGHT = 0.5;
+
+export const isSoftRequirement = ({ weight }: UseCaseRequirement) => weight < SOFT_REQUIREMENT_WEIGHT;
+
+export interface UseCaseCatalogue {
+  list: () => UseCase[];
+  save: (useCases: UseCase[]) => void;
+  reset: () => UseCase[];
+}
+
+// Read synchronously, since the voice parser needs it for every utterance. `list`
+// hands out the same array until the catalogue changes, so callers may cache on it.
+export const createUseCaseCatalogue = (
+  storage: Storage | undefined = getBrowserStorage(),
+  seed: UseCase[] = DEFAULT_USE_CASES,
+  storageKey: string = USE_CASE_STORAGE_KEY,
+): UseCaseCatalogue => {
+  let useCases: UseCase[] | null = null;
+
+  const load = (): UseCase[] => {
+    if (useCases) return useCases;
+
+    const saved = storage?.getItem(storageKey);
+    if (saved) {
+      try {
+        useCases = JSON.parse(saved) as UseCase[];
+        return useCases;
+      } catch (error) {
+        console.error('Failed to read stored use cases, falling back to the defaults:', error);
+      }
+    }
+
+    useCases = seed;
+    return useCases;
+  };
+
+  return {
+    list: load,
+    save: (next) => {
+      useCases = next;
+      storage?.setItem(storageKey, JSON.stringify(next));
+    },
+    reset: () => {
+      useCases = seed;
+      storage?.removeItem(storageKey);
+      return useCases;
+    },
+  };
+};
+
+export const useCaseCatalogue = createUseCaseCatalogue();
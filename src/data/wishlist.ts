@@ -0,0 +1,199 @@
+import { WishlistItem, WishlistStatus } from '@/types/wishlist';
+import { getBrowserStorage } from './inventory';
+
+// Storage contract for wishlist requests, like the inventory's. The lifecycle
+// rules live in the service below, so a backend only has to store items.
+export interface WishlistBackend {
+  list: () => Promise<WishlistItem[]>;
+  get: (id: string) => Promise<WishlistItem | undefined>;
+  save: (item: WishlistItem) => Promise<WishlistItem>;
+}
+
+// What a customer fills in; the service adds the id, status and timestamps
+export type NewWishlistItem = Omit<WishlistItem, 'id' | 'status' | 'createdAt' | 'updatedAt'>;
+
+// Status changes go through setStatus and cancel, so they are checked
+export type WishlistItemChanges = Partial<Omit<WishlistItem, 'id' | 'status' | 'createdAt' | 'updatedAt'>>;
+
+export interface WishlistService {
+  // Newest first
+  list: () => Promise<WishlistItem[]>;
+  get: (id: string) => Promise<WishlistItem | undefined>;
+  create: (item: NewWishlistItem) => Promise<WishlistItem>;
+  update: (id: string, changes: WishlistItemChanges) => Promise<WishlistItem>;
+  // Throws when the lifecycle does not allow the step
+  setStatus: (id: string, status: WishlistStatus) => Promise<WishlistItem>;
+  // The reason, if any, is added to the notes
+  cancel: (id: string, reason?: string) => Promise<WishlistItem>;
+}
+
+export const WISHLIST_STORAGE_KEY = 'wishlist_items';
+
+// Where a request may go from each status; completed and cancelled requests stay put
+export const WISHLIST_STATUS_TRANSITIONS: Record<WishlistStatus, WishlistStatus[]> = {
+  active: ['sourcing', 'cancelled'],
+  sourcing: ['found', 'cancelled'],
+  // A car that falls through sends the request back to sourcing
+  found: ['completed', 'sourcing', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export const canChangeWishlistStatus = (from: WishlistStatus, to: WishlistStatus) =>
+  WISHLIST_STATUS_TRANSITIONS[from].includes(to);
+
+// Requests the admin shows before any customer has made one
+export const sampleWishlistItems: WishlistItem[] = [
+  {
+    id: 'wl-sample-1',
+    clientName: 'John Doe',
+    clientEmail: 'john@example.com',
+    clientPhone: '(555) 123-4567',
+    desiredSpecs: {
+      make: 'BMW',
+      model: 'M3',
+      yearRange: { min: 2024 },
+      priceRange: { max: 85000 },
+      fuelType: 'petrol',
+      transmission: 'manual',
+      additionalRequirements: 'Alpine White, looking for the Competition Package',
+    },
+    priority: 'high',
+    status: 'active',
+    createdAt: new Date('2024-01-15'),
+    updatedAt: new Date('2024-01-15'),
+  },
+  {
+    id: 'wl-sample-2',
+    clientName: 'Sarah Johnson',
+    clientEmail: 'sarah@example.com',
+    clientPhone: '(555) 987-6543',
+    desiredSpecs: {
+      make: 'Tesla',
+      model: 'Model Y',
+      yearRange: { min: 2024 },
+      priceRange: { max: 65000 },
+      fuelType: 'electric',
+      transmission: 'automatic',
+      additionalRequirements: 'Pearl White, Long Range version preferred',
+    },
+    priority: 'medium',
+    status: 'sourcing',
+    createdAt: new Date('2024-01-10'),
+    updatedAt: new Date('2024-01-12'),
+  },
+  {
+    id: 'wl-sample-3',
+    clientName: 'Mike Wilson',
+    clientEmail: 'mike@example.com',
+    clientPhone: '(555) 456-7890',
+    desiredSpecs: {
+      make: 'Porsche',
+      model: '911',
+      yearRange: { min: 2023 },
+      priceRange: { max: 120000 },
+      fuelType: 'petrol',
+      transmission: 'manual',
+      additionalRequirements: 'Guards Red, prefer Carrera S or GTS',
+    },
+    priority: 'high',
+    status: 'completed',
+    createdAt: new Date('2024-01-05'),
+    updatedAt: new Date('2024-01-28'),
+  },
+];
+
+// Dates are stored as ISO strings and come back as dates
+const reviveDates = (item: WishlistItem): WishlistItem => ({
+  ...item,
+  createdAt: new Date(item.createdAt),
+  updatedAt: new Date(item.updatedAt),
+  estimatedDelivery: item.estimatedDelivery ? new Date(item.estimatedDelivery) : undefined,
+});
+
+// In-memory adapter, persisted to localStorage when available and seeded
+// with the sample requests on first use
+export const createLocalWishlistBackend = (
+  storage: Storage | undefined = getBrowserStorage(),
+  seed: WishlistItem[] = sampleWishlistItems,
+  storageKey: string = WISHLIST_STORAGE_KEY,
+): WishlistBackend => {
+  let items: WishlistItem[] | null = null;
+
+  const load = (): WishlistItem[] => {
+    if (items) return items;
+
+    const saved = storage?.getItem(storageKey);
+    if (saved) {
+      try {
+        items = (JSON.parse(saved) as WishlistItem[]).map(reviveDates);
+        return items;
+      } catch (error) {
+        console.error('Failed to read stored wishlist requests, falling back to the samples:', error);
+      }
+    }
+
+    items = seed.map(item => ({ ...item }));
+    return items;
+  };
+
+  return {
+    list: async () => [...load()],
+    get: async (id) => load().find(item => item.id === id),
+    save: async (item) => {
+      const current = load();
+      items = current.some(existing => existing.id === item.id)
+        ? current.map(existing => (existing.id === item.id ? item : existing))
+        : [...current, item];
+      storage?.setItem(storageKey, JSON.stringify(items));
+      return item;
+    },
+  };
+};
+
+const createWishlistId = () => `wl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createWishlistService = (
+  backend: WishlistBackend = createLocalWishlistBackend(),
+  now: () => Date = () => new Date(),
+  createId: () => string = createWishlistId,
+): WishlistService => {
+  const find = async (id: string) => {
+    const item = await backend.get(id);
+    if (!item) throw new Error(`Wishlist request ${id} does not exist`);
+    return item;
+  };
+
+  const setStatus = async (id: string, status: WishlistStatus, notes?: string) => {
+    const item = await find(id);
+    if (!canChangeWishlistStatus(item.status, status)) {
+      throw new Error(`A ${item.status} wishlist request cannot be moved to ${status}`);
+    }
+    return backend.save({ ...item, status, notes: notes ?? item.notes, updatedAt: now() });
+  };
+
+  return {
+    list: async () => (await backend.list()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    get: (id) => backend.get(id),
+    create: async (item) => {
+      if (!item.clientName.trim() || !item.clientEmail.trim()) {
+        throw new Error('A wishlist request needs a name and an email address');
+      }
+      const createdAt = now();
+      return backend.save({ ...item, id: createId(), status: 'active', createdAt, updatedAt: createdAt });
+    },
+    update: async (id, changes) => {
+      const item = await find(id);
+      return backend.save({ ...item, ...changes, id, updatedAt: now() });
+    },
+    setStatus: (id, status) => setStatus(id, status),
+    cancel: async (id, reason) => {
+      const { notes } = await find(id);
+      const cancellation = reason?.trim() ? `Cancelled: ${reason.trim()}` : undefined;
+      return setStatus(id, 'cancelled', cancellation ? [notes, cancellation].filter(Boolean).join('\n') : notes);
+    },
+  };
+};
+
+// Single entry point for wishlist requests, from the customer form and the admin alike
+export const wishlistService = createWishlistService();
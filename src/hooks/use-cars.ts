@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { inventoryRepository } from '@/data/inventory'
+import { Car } from '@/types/car'
+
+export const carQueryKeys = {
+  all: ['cars'] as const,
+  detail: (id: string) => ['cars', id] as const,
+}
+
+export const useCars = () =>
+  useQuery({
+    queryKey: carQueryKeys.all,
+    queryFn: () => inventoryRepository.list(),
+  })
+
+export const useCar = (id: string | undefined) => {
+  const queryClient = useQueryClient()
+
+  return useQuery({
+    queryKey: carQueryKeys.detail(id ?? ''),
+    queryFn: async () => (await inventoryRepository.get(id!)) ?? null,
+    enabled: !!id,
+    // Reuse the list cache so navigating from a results page is instant
+    initialData: () =>
+      queryClient.getQueryData<Car[]>(carQueryKeys.all)?.find(car => car.id === id),
+  })
+}
+
+export const useSaveCar = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (car: Car) => inventoryRepository.save(car),
+    onSuccess: (car) => {
+      queryClient.setQueryData(carQueryKeys.detail(car.id), car)
+      queryClient.invalidateQueries({ queryKey: carQueryKeys.all })
+    },
+  })
+}
+
+export const useDeleteCar = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => inventoryRepository.remove(id),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: carQueryKeys.detail(id), exact: true })
+      queryClient.invalidateQueries({ queryKey: carQueryKeys.all })
+    },
+  })
+}
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react'
+import type { SpeechProvider, TurnTaking } from '@/speech'
+
+export interface SpeechSessionContextType {
+  // Null until the provider picked in the admin settings has been created
+  speech: SpeechProvider | null
+  // Everything said aloud goes through here, so nothing talks over the assistant
+  turns: TurnTaking | null
+}
+
+export const SpeechSessionContext = createContext<SpeechSessionContextType | undefined>(undefined)
+
+export const useSpeechSession = () => {
+  const context = useContext(SpeechSessionContext)
+  if (!context) {
+    throw new Error('useSpeechSession must be used within SpeechSessionProvider')
+  }
+  return context
+}
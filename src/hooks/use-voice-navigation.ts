@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { CarFilters } from '@/types/car'
+import { serializeSearchState } from '@/utils/searchParams'
+
+// Where voice commands take the user, through the router so the app keeps its state
+export const useVoiceNavigation = () => {
+  const navigate = useNavigate()
+
+  const showCar = useCallback((id: string) => navigate(`/car/${id}`), [navigate])
+
+  // The comparison page takes up to two cars and lets the user pick the rest
+  const compareCars = useCallback((ids: string[]) => {
+    const params = new URLSearchParams()
+    ids.slice(0, 2).forEach((id, index) => params.set(`car${index + 1}`, id))
+    navigate(params.toString() ? `/compare?${params}` : '/compare')
+  }, [navigate])
+
+  // The inventory with these filters, as a link to it would show them
+  const showResults = useCallback((filters: Partial<CarFilters>) => {
+    navigate(`/inventory?${serializeSearchState({ filters })}`)
+  }, [navigate])
+
+  // The inventory exactly as it was left, from the query string the session kept
+  const returnToSearch = useCallback((search = '') => {
+    navigate(search ? `/inventory?${search}` : '/inventory')
+  }, [navigate])
+
+  const goBack = useCallback(() => navigate(-1), [navigate])
+
+  return useMemo(
+    () => ({ showCar, compareCars, showResults, returnToSearch, goBack }),
+    [showCar, compareCars, showResults, returnToSearch, goBack]
+  )
+}
@@ -0,0 +1,28 @@
+import { Dispatch, SetStateAction, createContext, useContext } from 'react'
+import { ConversationState } from '@/types/car'
+import { ConversationMessage, ConversationSession, VoicePreferences } from '@/types/conversation'
+import { LocaleCode } from '@/locales'
+
+export interface VoiceSessionContextType {
+  session: ConversationSession
+  // Whether the voice assistant is open; it stays open when a voice command changes the page
+  assistantOpen: boolean
+  setAssistantOpen: (open: boolean) => void
+  preferences: VoicePreferences
+  updatePreferences: (changes: Partial<VoicePreferences>) => void
+  addMessage: (type: ConversationMessage['type'], text: string) => void
+  setConversationState: Dispatch<SetStateAction<ConversationState>>
+  setLocale: (locale: LocaleCode) => void
+  recordSearch: (search: string) => void
+  startNewSession: () => void
+}
+
+export const VoiceSessionContext = createContext<VoiceSessionContextType | undefined>(undefined)
+
+export const useVoiceSession = () => {
+  const context = useContext(VoiceSessionContext)
+  if (!context) {
+    throw new Error('useVoiceSession must be used within VoiceSessionProvider')
+  }
+  return context
+}
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react'
+
+export interface VoiceContextType {
+  isConnected: boolean
+  isListening: boolean
+  startVoiceControl: () => Promise<void>
+  stopVoiceControl: () => Promise<void>
+  speak: (text: string) => void
+}
+
+export const VoiceContext = createContext<VoiceContextType | undefined>(undefined)
+
+export const useVoice = () => {
+  const context = useContext(VoiceContext)
+  if (!context) {
+    throw new Error('useVoice must be used within VoiceProvider')
+  }
+  return context
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { NewWishlistItem, wishlistService } from '@/data/wishlist'
+import { WishlistStatus } from '@/types/wishlist'
+
+export const wishlistQueryKeys = {
+  all: ['wishlist'] as const,
+}
+
+export const useWishlistItems = () =>
+  useQuery({
+    queryKey: wishlistQueryKeys.all,
+    queryFn: () => wishlistService.list(),
+  })
+
+export const useCreateWishlistItem = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (item: NewWishlistItem) => wishlistService.create(item),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: wishlistQueryKeys.all }),
+  })
+}
+
+export const useSetWishlistStatus = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: WishlistStatus }) => wishlistService.setStatus(id, status),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: wishlistQueryKeys.all }),
+  })
+}
+
+export const useCancelWishlistItem = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) => wishlistService.cancel(id, reason),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: wishlistQueryKeys.all }),
+  })
+}
@@ -0,0 +1,78 @@
+import { Car } from "@/types/car"
+
+export const formatPrice = (price: number) =>
+  new Intl.NumberFormat("en-IE", {
+    style: "currency",
+    currency: "EUR",
+    maximumFractionDigits: 0,
+  }).format(price)
+
+export const formatMileage = (mileage: number) => `${mileage.toLocaleString("en-US")} km`
+
+export const VEHICLE_TYPE_LABELS: Record<Car["vehicleType"], string> = {
+  cabriolet: "Cabriolet",
+  suv: "SUV",
+  "small-car": "Small Car",
+  van: "Van",
+  estate: "Estate",
+  saloon: "Saloon",
+  "sports-coupe": "Sports Coupe",
+  other: "Other",
+}
+
+export const FUEL_TYPE_LABELS: Record<Car["fuelType"], string> = {
+  petrol: "Petrol",
+  diesel: "Diesel",
+  electric: "Electric",
+  hybrid: "Hybrid",
+  "plug-in-hybrid": "Plug-in Hybrid",
+  hydrogen: "Hydrogen",
+  cng: "CNG",
+  lpg: "LPG",
+  ethanol: "Ethanol",
+}
+
+export const TRANSMISSION_LABELS: Record<Car["transmission"], string> = {
+  automatic: "Automatic",
+  "semi-automatic": "Semi-automatic",
+  manual: "Manual",
+}
+
+export const DRIVE_TYPE_LABELS: Record<Car["driveType"], string> = {
+  awd: "All-wheel drive",
+  fwd: "Front-wheel drive",
+  rwd: "Rear-wheel drive",
+}
+
+const EQUIPMENT_LABELS: Partial<Record<keyof Car, string>> = {
+  sunroof: "Sunroof",
+  trailerCoupling: "Trailer Coupling",
+  heatedSeats: "Heated Seats",
+  navigationSystem: "Navigation System",
+  carPlay: "Apple CarPlay / Android Auto",
+  alloyWheels: "Alloy Wheels",
+  ledHeadlights: "LED Headlights",
+  laneChangeAssist: "Lane Change Assist",
+  emergencyBrakeAssist: "Emergency Brake Assist",
+  fullServiceHistory: "Full Service History",
+}
+
+// Marketing highlights when the listing has them, otherwise the equipment flags
+export const getCarFeatureLabels = (car: Car): string[] => {
+  if (car.highlights && car.highlights.length > 0) return car.highlights
+
+  return Object.entries(EQUIPMENT_LABELS)
+    .filter(([key]) => car[key as keyof Car] === true)
+    .map(([, label]) => label)
+}
+
+export const getCarSpecs = (car: Car): Record<string, string | number> => ({
+  engine: car.cubicCapacity > 0 ? `${(car.cubicCapacity / 1000).toFixed(1)}L ${FUEL_TYPE_LABELS[car.fuelType]}` : FUEL_TYPE_LABELS[car.fuelType],
+  horsepower: `${car.power} hp`,
+  transmission: TRANSMISSION_LABELS[car.transmission],
+  drivetrain: DRIVE_TYPE_LABELS[car.driveType],
+  seatingCapacity: car.seats,
+  doors: car.doors,
+  emissionClass: car.emissionClass.replace("euro", "Euro "),
+  previousOwners: car.numberOfOwners,
+})
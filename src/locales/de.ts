@@ -0,0 +1,502 @@
+import type { Car, FeatureFilterKey, FilterAdjustment, SortMode } from '@/types/car';
+import { describeRange, joinValues } from './shared';
+import type { LocalePack } from './types';
+
+// German adjectives change their ending with the noun ("rot", "roter", "roten")
+const inflected = <V,>(stem: string, value: V): [string, V][] =>
+  ['', 'e', 'en', 'er', 'es'].map(ending => [stem + ending, value]);
+
+const VEHICLE_TYPES: Record<Car['vehicleType'], string> = {
+  cabriolet: 'Cabrio',
+  suv: 'SUV',
+  'small-car': 'Kleinwagen',
+  van: 'Van',
+  estate: 'Kombi',
+  saloon: 'Limousine',
+  'sports-coupe': 'Sportwagen',
+  other: 'Sonstige',
+};
+
+const CONDITIONS: Record<Car['condition'], string> = {
+  new: 'Neuwagen',
+  used: 'Gebrauchtwagen',
+  'pre-registration': 'Tageszulassung',
+  employee: 'Jahreswagen',
+  classic: 'Oldtimer',
+  demonstration: 'Vorführwagen',
+};
+
+const FUEL_TYPES: Record<Car['fuelType'], string> = {
+  petrol: 'Benzin',
+  diesel: 'Diesel',
+  electric: 'Elektro',
+  hybrid: 'Hybrid',
+  'plug-in-hybrid': 'Plug-in-Hybrid',
+  hydrogen: 'Wasserstoff',
+  cng: 'Erdgas',
+  lpg: 'Autogas',
+  ethanol: 'Ethanol',
+};
+
+const TRANSMISSIONS: Record<Car['transmission'], string> = {
+  automatic: 'Automatik',
+  'semi-automatic': 'Halbautomatik',
+  manual: 'Schaltgetriebe',
+};
+
+const DRIVE_TYPES: Record<Car['driveType'], string> = {
+  awd: 'Allradantrieb',
+  fwd: 'Frontantrieb',
+  rwd: 'Heckantrieb',
+};
+
+const COLORS: Record<string, string> = {
+  Black: 'Schwarz',
+  White: 'Weiß',
+  Silver: 'Silber',
+  Grey: 'Grau',
+  Blue: 'Blau',
+  Red: 'Rot',
+  Brown: 'Braun',
+  Green: 'Grün',
+  Orange: 'Orange',
+  Yellow: 'Gelb',
+  Beige: 'Beige',
+  Gold: 'Gold',
+  Purple: 'Lila',
+};
+
+const FEATURE_NAMES: Partial<Record<FeatureFilterKey, string>> = {
+  heatedSeats: 'Sitzheizung',
+  navigationSystem: 'Navigationssystem',
+  sunroof: 'Schiebedach',
+  carPlay: 'Apple CarPlay',
+  alloyWheels: 'Alufelgen',
+  ledHeadlights: 'LED-Scheinwerfer',
+  laneChangeAssist: 'Spurwechselassistent',
+  emergencyBrakeAssist: 'Notbremsassistent',
+  trailerCoupling: 'Anhängerkupplung',
+  fullServiceHistory: 'Scheckheft',
+};
+
+const SORT_LABELS: Record<SortMode, string> = {
+  relevance: 'bester Übereinstimmung',
+  'price-asc': 'Preis aufsteigend',
+  'price-desc': 'Preis absteigend',
+  'mileage-asc': 'niedrigstem Kilometerstand',
+  'registration-desc': 'neuester Erstzulassung',
+  'power-desc': 'höchster Leistung',
+  'listing-newest': 'neuesten Angeboten',
+};
+
+const ADJUSTMENT_NAMES: Record<FilterAdjustment, string> = {
+  cheaper: 'etwas Günstigerem',
+  pricier: 'etwas Teurerem',
+  newer: 'etwas Neuerem',
+  older: 'auch älteren Fahrzeugen',
+  lessMileage: 'weniger Kilometern',
+  morePower: 'mehr Leistung',
+};
+
+const carName = (car: Car) => `${car.make} ${car.model}`;
+
+const UNDER_OVER = { max: (value: string) => `unter ${value}`, min: (value: string) => `über ${value}` };
+const AT_LEAST_MOST = { max: (value: string) => `höchstens ${value}`, min: (value: string) => `mindestens ${value}` };
+
+const formatNumber = (value: number) => value.toLocaleString('de-DE');
+
+export const de: LocalePack = {
+  name: 'Deutsch',
+  speechLang: 'de-DE',
+
+  nlp: {
+    keywords: {
+      vehicleTypes: {
+        'suv': 'suv',
+        'geländewagen': 'suv',
+        'offroader': 'suv',
+        'pickup': 'suv',
+        'limousine': 'saloon',
+        'stufenheck': 'saloon',
+        'coupé': 'sports-coupe',
+        'coupe': 'sports-coupe',
+        'sportwagen': 'sports-coupe',
+        'kombi': 'estate',
+        'kleinwagen': 'small-car',
+        'cabrio': 'cabriolet',
+        'cabriolet': 'cabriolet',
+        'roadster': 'cabriolet',
+        'van': 'van',
+        'transporter': 'van',
+        'kleinbus': 'van',
+      },
+
+      conditions: {
+        ...Object.fromEntries(inflected('neu', 'new' as const)),
+        'neuwagen': 'new',
+        ...Object.fromEntries(inflected('gebraucht', 'used' as const)),
+        'gebrauchtwagen': 'used',
+        'tageszulassung': 'pre-registration',
+        'jahreswagen': 'employee',
+        'vorführwagen': 'demonstration',
+        'vorführfahrzeug': 'demonstration',
+        'oldtimer': 'classic',
+        'klassiker': 'classic',
+      },
+
+      fuelTypes: {
+        'benzin': 'petrol',
+        'benziner': 'petrol',
+        'diesel': 'diesel',
+        'elektro': 'electric',
+        'elektroauto': 'electric',
+        'e-auto': 'electric',
+        ...Object.fromEntries(inflected('elektrisch', 'electric' as const)),
+        'hybrid': 'hybrid',
+        'plug-in-hybrid': 'plug-in-hybrid',
+        'phev': 'plug-in-hybrid',
+        'wasserstoff': 'hydrogen',
+        'erdgas': 'cng',
+        'cng': 'cng',
+        'autogas': 'lpg',
+        'lpg': 'lpg',
+        'ethanol': 'ethanol',
+      },
+
+      transmissions: {
+        'automatik': 'automatic',
+        'automatikgetriebe': 'automatic',
+        'schaltgetriebe': 'manual',
+        'schalter': 'manual',
+        'handschaltung': 'manual',
+        'manuell': 'manual',
+        'halbautomatik': 'semi-automatic',
+      },
+
+      driveTypes: {
+        'allrad': 'awd',
+        'allradantrieb': 'awd',
+        '4x4': 'awd',
+        'awd': 'awd',
+        'frontantrieb': 'fwd',
+        'heckantrieb': 'rwd',
+      },
+
+      features: {
+        'sitzheizung': 'heatedSeats',
+        'beheizte sitze': 'heatedSeats',
+        'navi': 'navigationSystem',
+        'navigation': 'navigationSystem',
+        'navigationssystem': 'navigationSystem',
+        'schiebedach': 'sunroof',
+        'panoramadach': 'sunroof',
+        'apple carplay': 'carPlay',
+        'carplay': 'carPlay',
+        'android auto': 'carPlay',
+        'alufelgen': 'alloyWheels',
+        'led-scheinwerfer': 'ledHeadlights',
+        'spurwechselassistent': 'laneChangeAssist',
+        'spurhalteassistent': 'laneChangeAssist',
+        'notbremsassistent': 'emergencyBrakeAssist',
+        'anhängerkupplung': 'trailerCoupling',
+        'ahk': 'trailerCoupling',
+        'scheckheft': 'fullServiceHistory',
+        'scheckheftgepflegt': 'fullServiceHistory',
+        'scheckheftgepflegte': 'fullServiceHistory',
+        'scheckheftgepflegten': 'fullServiceHistory',
+        'lückenlose wartung': 'fullServiceHistory',
+      },
+
+      colors: {
+        ...Object.fromEntries(inflected('schwarz', 'Black')),
+        ...Object.fromEntries(inflected('weiß', 'White')),
+        'silber': 'Silver',
+        'silberne': 'Silver',
+        'silbernen': 'Silver',
+        ...Object.fromEntries(inflected('grau', 'Grey')),
+        ...Object.fromEntries(inflected('blau', 'Blue')),
+        ...Object.fromEntries(inflected('rot', 'Red')),
+        ...Object.fromEntries(inflected('braun', 'Brown')),
+        ...Object.fromEntries(inflected('grün', 'Green')),
+        'orange': 'Orange',
+        ...Object.fromEntries(inflected('gelb', 'Yellow')),
+        'beige': 'Beige',
+        'gold': 'Gold',
+        'golden': 'Gold',
+        'lila': 'Purple',
+        'violett': 'Purple',
+      },
+
+      slidingDoors: {
+        'schiebetür': 'yes',
+        'schiebetüren': 'yes',
+      },
+    },
+
+    sortPhrases: [
+      ['neueste angebote', 'listing-newest'],
+      ['neu eingetroffen', 'listing-newest'],
+      ['preis aufsteigend', 'price-asc'],
+      ['preis absteigend', 'price-desc'],
+      ['günstigste zuerst', 'price-asc'],
+      ['niedrigster preis', 'price-asc'],
+      ['höchster preis', 'price-desc'],
+      ['wenigste kilometer', 'mileage-asc'],
+      ['niedrigster kilometerstand', 'mileage-asc'],
+      ['neueste erstzulassung', 'registration-desc'],
+      ['meiste ps', 'power-desc'],
+      ['beste treffer', 'relevance'],
+      ['günstigste', 'price-asc'],
+      ['billigste', 'price-asc'],
+      ['teuerste', 'price-desc'],
+      ['stärkste', 'power-desc'],
+    ],
+
+    adjustmentPhrases: [
+      ...inflected<FilterAdjustment>('günstiger', 'cheaper'),
+      ...inflected<FilterAdjustment>('billiger', 'cheaper'),
+      ...inflected<FilterAdjustment>('teurer', 'pricier'),
+      ['mehr budget', 'pricier'],
+      // Plain "neuer" is "ein neuer BMW", so only the inflected comparative counts
+      ...inflected<FilterAdjustment>('neuer', 'newer').slice(1),
+      ...inflected<FilterAdjustment>('jünger', 'newer'),
+      ...inflected<FilterAdjustment>('älter', 'older'),
+      ['weniger kilometer', 'lessMileage'],
+      ['weniger laufleistung', 'lessMileage'],
+      ['mehr leistung', 'morePower'],
+      ['mehr ps', 'morePower'],
+      ...inflected<FilterAdjustment>('stärker', 'morePower'),
+    ],
+
+    numberWords: {
+      values: {
+        'ein': 1, 'eins': 1, 'zwei': 2, 'drei': 3, 'vier': 4, 'fünf': 5, 'sechs': 6, 'sieben': 7, 'acht': 8,
+        'neun': 9, 'zehn': 10, 'elf': 11, 'zwölf': 12, 'dreizehn': 13, 'vierzehn': 14, 'fünfzehn': 15,
+        'sechzehn': 16, 'siebzehn': 17, 'achtzehn': 18, 'neunzehn': 19, 'zwanzig': 20, 'dreißig': 30,
+        'vierzig': 40, 'fünfzig': 50, 'sechzig': 60, 'siebzig': 70, 'achtzig': 80, 'neunzig': 90,
+      },
+      multipliers: { 'hundert': 100, 'tausend': 1000, 'million': 1000000, 'millionen': 1000000 },
+      joiners: ['und'],
+      scales: {
+        'k': 1000, 'tausend': 1000, 'tsd': 1000, 'mille': 1000,
+        'million': 1000000, 'millionen': 1000000, 'mio': 1000000,
+      },
+    },
+
+    unitWords: {
+      '€': 'priceRange', 'eur': 'priceRange', 'euro': 'priceRange', 'euros': 'priceRange',
+      'km': 'mileageRange', 'kilometer': 'mileageRange', 'kilometern': 'mileageRange',
+      'ps': 'powerRange', 'pferdestärken': 'powerRange', 'kw': 'powerRange', 'kilowatt': 'powerRange',
+      'sitze': 'seatsRange', 'sitzer': 'seatsRange', 'sitzplätze': 'seatsRange', 'sitzplätzen': 'seatsRange',
+      'türen': 'doorsRange', 'türer': 'doorsRange', 'tür': 'doorsRange',
+      'vorbesitzer': 'ownersRange', 'vorbesitzern': 'ownersRange', 'halter': 'ownersRange', 'haltern': 'ownersRange',
+      'besitzer': 'ownersRange',
+      'monate': 'huValidityRange', 'monaten': 'huValidityRange',
+      'ccm': 'cubicCapacityRange', 'cm³': 'cubicCapacityRange', 'liter': 'cubicCapacityRange',
+    },
+
+    unitScales: {
+      'kw': { type: 'powerRange', factor: 1.36 },
+      'kilowatt': { type: 'powerRange', factor: 1.36 },
+      'liter': { type: 'cubicCapacityRange', factor: 1000 },
+      'jahr': { type: 'huValidityRange', factor: 12 },
+      'jahre': { type: 'huValidityRange', factor: 12 },
+      'jahren': { type: 'huValidityRange', factor: 12 },
+    },
+
+    unitFillers: ['vorherige', 'vorherigen', 'frühere', 'früheren', 'bisherige', 'bisherigen'],
+
+    contextWords: {
+      'preis': 'priceRange', 'budget': 'priceRange', 'kosten': 'priceRange', 'kostet': 'priceRange',
+      'zahlen': 'priceRange', 'ausgeben': 'priceRange', 'günstiger': 'priceRange', 'billiger': 'priceRange',
+      'teurer': 'priceRange',
+      'kilometerstand': 'mileageRange', 'laufleistung': 'mileageRange', 'gelaufen': 'mileageRange',
+      'gefahren': 'mileageRange',
+      'baujahr': 'yearRange', 'jahrgang': 'yearRange', 'erstzulassung': 'yearRange', 'zugelassen': 'yearRange',
+      'neuer': 'yearRange', 'älter': 'yearRange', 'jünger': 'yearRange',
+      'leistung': 'powerRange', 'stärker': 'powerRange',
+      'tüv': 'huValidityRange', 'hu': 'huValidityRange', 'hauptuntersuchung': 'huValidityRange',
+      'hubraum': 'cubicCapacityRange', 'motor': 'cubicCapacityRange',
+    },
+
+    quantityPhrases: [
+      ['aus erster hand', 'ownersRange', { max: 1 }],
+      ['erste hand', 'ownersRange', { max: 1 }],
+      ['erster hand', 'ownersRange', { max: 1 }],
+      ['ein vorbesitzer', 'ownersRange', { max: 1 }],
+      ['einen vorbesitzer', 'ownersRange', { max: 1 }],
+      ['ein halter', 'ownersRange', { max: 1 }],
+      ['einen halter', 'ownersRange', { max: 1 }],
+      ['tüv neu', 'huValidityRange', { min: 24 }],
+      ['neuer tüv', 'huValidityRange', { min: 24 }],
+      ['neuem tüv', 'huValidityRange', { min: 24 }],
+      ['hu neu', 'huValidityRange', { min: 24 }],
+    ],
+
+    leadingBounds: [
+      ['nicht mehr als', 'max'], ['weniger als', 'max'], ['günstiger als', 'max'], ['billiger als', 'max'],
+      ['älter als', 'max'], ['bis zu', 'max'], ['mehr als', 'min'], ['neuer als', 'min'], ['jünger als', 'min'],
+      ['unter', 'max'], ['unterhalb', 'max'], ['höchstens', 'max'], ['maximal', 'max'], ['max', 'max'],
+      ['bis', 'max'], ['vor', 'max'],
+      ['über', 'min'], ['oberhalb', 'min'], ['mindestens', 'min'], ['min', 'min'], ['ab', 'min'], ['von', 'min'],
+      ['seit', 'min'], ['nach', 'min'],
+      // "Nicht älter als 2018" is 2018 or newer
+      ['nicht älter als', 'min'], ['nicht neuer als', 'max'], ['nicht jünger als', 'max'],
+      ['nicht weniger als', 'min'], ['nicht günstiger als', 'min'], ['nicht billiger als', 'min'],
+    ],
+
+    trailingBounds: [
+      ['oder weniger', 'max'], ['oder günstiger', 'max'], ['oder älter', 'max'], ['oder früher', 'max'],
+      ['maximal', 'max'], ['max', 'max'],
+      ['oder mehr', 'min'], ['oder neuer', 'min'], ['oder jünger', 'min'], ['oder später', 'min'],
+      ['plus', 'min'], ['+', 'min'],
+    ],
+
+    rangeJoiners: ['bis', 'und', '-'],
+
+    negationCues: [
+      'alles außer', 'auf keinen fall', 'außer', 'ausgenommen', 'ohne', 'statt', 'anstatt', 'anstelle von',
+      'kein', 'keine', 'keinen', 'keinem',
+      'nicht', 'nie',
+    ],
+    negationFalseFriends: [
+      'nicht mehr als', 'nicht älter als', 'nicht neuer als', 'nicht jünger als', 'nicht weniger als',
+      'nicht günstiger als', 'nicht billiger als',
+    ],
+    listConnectors: ['oder', 'noch', 'und', '/'],
+    articles: ['ein', 'eine', 'einen', 'einem', 'der', 'die', 'das', 'den', 'kein', 'keine', 'keinen', 'nicht'],
+    // Inflected forms only: the bare stems are other words ("erst", "acht")
+    ordinalWords: Object.fromEntries(
+      ([
+        ['erst', 1], ['zweit', 2], ['dritt', 3], ['viert', 4], ['fünft', 5], ['sechst', 6], ['siebt', 7],
+        ['acht', 8], ['neunt', 9], ['zehnt', 10], ['letzt', -1], ['vorletzt', -2],
+      ] as [string, number][]).flatMap(([stem, position]) => inflected(stem, position).slice(1))
+    ),
+    anaphora: ['ihn', 'es', 'diesen', 'dieses', 'den da', 'das da', 'die da', 'die beiden', 'beide'],
+
+    intentPhrases: {
+      wishlist: ['wunschliste', 'merkliste', 'vormerken', 'merken', 'benachrichtige mich', 'für später'],
+      external: ['überall suchen', 'woanders', 'extern', 'externe', 'andere händler', 'anderen händlern', 'autoscout'],
+      search: ['suche', 'suchen', 'finde', 'finden', 'zeig', 'zeige', 'zeigen'],
+      compare: ['vergleiche', 'vergleichen', 'vergleich'],
+      details: ['details', 'mehr infos', 'mehr informationen', 'erzähl mir', 'mehr über', 'öffne'],
+      reset: ['zurücksetzen', 'löschen', 'von vorne', 'neu anfangen'],
+      confirm: ['ja', 'genau', 'richtig', 'korrekt', 'passt'],
+      deny: ['nein', 'falsch', 'ändern'],
+      // "Audi statt BMW" also rules out BMW, see negationCues
+      replace: ['stattdessen', 'statt', 'anstatt', 'anstelle von', 'lieber', 'eher', 'ändere auf', 'wechsle zu', 'mach daraus'],
+      remove: ['entferne', 'entfernen', 'streiche', 'streichen', 'lösche', 'löschen', 'weg mit', 'vergiss', 'brauche keine'],
+      undo: ['rückgängig', 'nimm das zurück', 'vergiss das', 'einen schritt zurück'],
+      readResults: ['lies mir', 'lies vor', 'vorlesen', 'was hast du gefunden', 'nenn mir'],
+      nextPage: ['nächste seite', 'nächsten', 'weitere ergebnisse', 'zeig mir mehr', 'mehr davon'],
+      previousPage: ['vorherige seite', 'vorherigen', 'eine seite zurück'],
+      goBack: ['zurück', 'geh zurück'],
+      backToSearch: ['zurück zu meiner suche', 'zurück zur suche', 'zurück zu den ergebnissen', 'zurück zur liste'],
+      dontCare: ['egal', 'ist mir gleich', 'keine präferenz', 'keine vorliebe', 'beliebig', 'spielt keine rolle'],
+      summary: ['bisher', 'zusammenfassung', 'fasse zusammen', 'meine filter', 'was habe ich'],
+    },
+    confidencePhrases: ['suche', 'finde', 'zeig mir', 'ich möchte', 'ich will', 'ich brauche'],
+  },
+
+  responses: {
+    welcome: 'Willkommen beim Sprachassistenten von RedLine Motors! Ich helfe Ihnen, Ihr perfektes Auto zu finden. Ich kann unseren Bestand durchsuchen, Fahrzeuge auf Ihre Wunschliste setzen oder bei anderen Anbietern suchen, wenn wir nicht das Passende haben. Wonach suchen Sie heute?',
+    searching: 'Perfekt! Ich suche jetzt nach passenden Fahrzeugen.',
+    denial: 'Kein Problem! Sagen Sie mir einfach, was ich ändern oder wonach ich stattdessen suchen soll.',
+    reset: 'Alle Filter gelöscht! Fangen wir neu an. Was für ein Auto suchen Sie?',
+    noResults: 'In unserem aktuellen Bestand habe ich leider keine passenden Fahrzeuge gefunden. Ich kann Ihnen aber helfen: Ich setze die Suche auf Ihre Wunschliste und melde mich, sobald passende Fahrzeuge eintreffen, oder ich suche bei externen Quellen wie AutoTrader und anderen Händlern. Was ist Ihnen lieber?',
+    wishlist: 'Gute Wahl! Ich helfe Ihnen, das auf Ihre Wunschliste zu setzen, damit wir das perfekte Auto für Sie finden. Ich öffne das Formular.',
+    externalSearch: 'Sehr gern! Ich durchsuche externe Quellen wie AutoTrader, CarGurus und andere Händlernetzwerke. Das kann einen Moment dauern, aber ich finde die besten Angebote für Sie.',
+    externalResults: 'Gute Nachrichten! 3 passende Fahrzeuge auf AutoTrader, 2 ähnliche Autos bei Händlern in der Nähe und 1 exakter Treffer auf CarGurus. Ich stelle einen ausführlichen Bericht mit Preisen, Standorten und Kontaktdaten zusammen. Sie erhalten innerhalb der nächsten Stunde eine E-Mail mit allen Details.',
+    unknown: "Das habe ich leider nicht ganz verstanden. Sie können zum Beispiel sagen: 'Ich möchte einen BMW SUV unter 50.000 Euro', 'Auf meine Wunschliste setzen', 'Extern suchen' oder 'Zeig mir Elektroautos mit Sitzheizung.'",
+    unclear: 'Sie suchen also ein Auto. Können Sie genauer sagen, was Sie sich vorstellen?',
+    confirmation: parts => `Alles klar! Ich suche nach ${parts.join(', ')}.`,
+    excluding: spans => `ohne ${spans.join(', ')}`,
+    removed: parts => `Okay, ich suche nicht mehr nach ${parts.join(', ')}.`,
+    summary: parts => `Bisher suchen Sie nach ${parts.join(', ')}.`,
+    nothingSet: 'Sie haben noch keine Filter gesetzt. Wonach suchen Sie?',
+    undone: utterance => `Okay, ich habe „${utterance}“ rückgängig gemacht.`,
+    nothingToUndo: 'Es gibt noch nichts, was ich rückgängig machen könnte.',
+    resultsFound: total => `Ich habe ${total} ${total === 1 ? 'passendes Fahrzeug' : 'passende Fahrzeuge'} gefunden.`,
+    pageIntro: (from, to, total) => (from === to ? `Hier ist Fahrzeug ${from} von ${total}.` : `Hier sind die Fahrzeuge ${from} bis ${to} von ${total}.`),
+    carSummary: (car, position) =>
+      `Nummer ${position}: ${carName(car)} von ${car.firstRegistration} für ${formatNumber(car.price)} €, ${formatNumber(car.mileage)} km.`,
+    noResultsToBrowse: 'Es gibt noch keine Ergebnisse. Sagen Sie mir zuerst, wonach Sie suchen.',
+    noMoreResults: 'Das waren alle. Möchten Sie mehr über eines davon hören oder die Suche ändern?',
+    firstPage: 'Wir sind schon bei den ersten Ergebnissen.',
+    unknownReference: "Welches Fahrzeug meinen Sie? Sie können zum Beispiel 'das erste' oder 'das zweite' sagen.",
+    openingDetails: car => `Ich öffne die Details zum ${carName(car)}.`,
+    openingComparison: cars => `Ich vergleiche ${cars.map(carName).join(' und ')}.`,
+    compareNeedsTwo: "Welche zwei Fahrzeuge soll ich vergleichen? Zum Beispiel 'das erste und das dritte'.",
+    goingBack: 'Ich gehe zurück.',
+    returningToSearch: 'Ich bringe Sie zurück zu Ihrer Suche.',
+    relaxedMatches: (count, parts) =>
+      `Ich habe keinen genauen Treffer, aber ${count} ${count === 1 ? 'Fahrzeug' : 'Fahrzeuge'} ${parts.join(', ')}. Soll ich die Suche anpassen?`,
+    relaxedWithout: (count, parts) =>
+      `Ich habe keinen genauen Treffer, aber ${count} ${count === 1 ? 'Fahrzeug' : 'Fahrzeuge'}, wenn wir „${parts.join(', ')}“ weglassen. Soll ich das tun?`,
+    anythingElse: 'Gibt es sonst noch etwas, worauf Sie Wert legen? Ich kann unseren Bestand durchsuchen, Ihre Wunschliste ergänzen oder extern suchen. Sagen Sie einfach Bescheid!',
+    anythingElseReplies: ['Ja, das ist alles', 'Auf meine Wunschliste', 'Was habe ich bisher?'],
+    dontCare: 'Kein Problem, danach frage ich nicht mehr.',
+    entityConfirmations: {
+      make: found => [`Fahrzeugen von ${joinValues(found, 'oder')}`],
+      model: found => [`dem ${joinValues(found, 'oder')}`],
+      vehicleType: found => [`Karosserie ${joinValues(found, 'oder', value => VEHICLE_TYPES[value])}`],
+      condition: found => [joinValues(found, 'oder', value => CONDITIONS[value])],
+      fuelType: found => [`Kraftstoff ${joinValues(found, 'oder', value => FUEL_TYPES[value])}`],
+      transmission: found => [joinValues(found, 'oder', value => TRANSMISSIONS[value])],
+      driveType: found => [joinValues(found, 'oder', value => DRIVE_TYPES[value])],
+      color: found => [`in ${joinValues(found, 'oder', value => COLORS[value] ?? value)}`],
+      priceRange: ([{ value }]) => describeRange(value, UNDER_OVER, price => `${formatNumber(price)} €`),
+      yearRange: ([{ value }]) => [
+        ...(value.min ? [`Erstzulassung ab ${value.min}`] : []),
+        ...(value.max ? [`Erstzulassung bis ${value.max}`] : []),
+      ],
+      mileageRange: ([{ value }]) => describeRange(value, UNDER_OVER, mileage => `${formatNumber(mileage)} km`),
+      powerRange: ([{ value }]) => [
+        ...(value.min ? [`mindestens ${value.min} PS`] : []),
+        ...(value.max ? [`höchstens ${value.max} PS`] : []),
+      ],
+      seatsRange: ([{ value }]) => describeRange(value, AT_LEAST_MOST, seats => `${seats} Sitze`),
+      doorsRange: ([{ value }]) => [`${(value.min ?? value.max) <= 3 ? '2 oder 3' : '4 oder 5'} Türen`],
+      ownersRange: ([{ value }]) =>
+        value.max === undefined ? [] : [value.max <= 1 ? 'aus erster Hand' : `höchstens ${value.max} Vorbesitzer`],
+      huValidityRange: ([{ value }]) => (value.min ? [`mindestens ${value.min} Monate TÜV`] : []),
+      cubicCapacityRange: ([{ value }]) => describeRange(value, AT_LEAST_MOST, ccm => `${formatNumber(ccm)} ccm`),
+      slidingDoor: () => ['mit Schiebetür'],
+      adjustment: found => found.map(({ value }) => ADJUSTMENT_NAMES[value]),
+      resultReference: () => [],
+      useCase: found => [`geeignet für ${joinValues(found, 'und', value => value.label)}`],
+      feature: found => [`mit ${found.map(({ value }) => FEATURE_NAMES[value] ?? value).join(', ')}`],
+      sort: ([{ value }]) => [`sortiert nach ${SORT_LABELS[value] ?? value}`],
+    },
+  },
+
+  ui: {
+    title: 'Sprachassistent für die Fahrzeugsuche',
+    liveTranscript: 'Live-Transkript:',
+    listening: 'Hört zu...',
+    speaking: 'Spricht...',
+    startListening: 'Zuhören starten',
+    stopListening: 'Zuhören beenden',
+    stopSpeaking: 'Sprechen beenden',
+    typeMessage: 'Schreiben Sie, wonach Sie suchen...',
+    send: 'Senden',
+    textMode: 'Lieber tippen',
+    voiceMode: 'Lieber sprechen',
+    muteSpeech: 'Sprachausgabe aus',
+    unmuteSpeech: 'Sprachausgabe an',
+    quickReplies: 'Vorschläge',
+    examples: [
+      '💡 Sagen Sie zum Beispiel: "Ich möchte einen gebrauchten BMW SUV unter 40.000 Euro mit Sitzheizung"',
+      '🔄 Oder: "Auf meine Wunschliste setzen" / "Extern suchen"',
+      '🌟 Oder: "Zeig mir Elektroautos mit Automatik"',
+    ],
+    recognitionErrorTitle: 'Fehler bei der Spracherkennung',
+    recognitionErrorDescription: 'Bitte versuchen Sie es erneut oder prüfen Sie die Mikrofonberechtigung.',
+    synthesisErrorTitle: 'Fehler bei der Sprachausgabe',
+    synthesisErrorDescription: 'Die Antwort konnte nicht vorgelesen werden. Sie steht weiterhin im Gespräch.',
+    searchCompleteTitle: 'Suche abgeschlossen',
+    searchCompleteDescription: 'Passende Fahrzeuge für Ihre Sprachsuche gefunden!',
+    externalSearchCompleteTitle: 'Externe Suche abgeschlossen',
+    externalSearchCompleteDescription: 'Mehrere Treffer gefunden! Die Details erhalten Sie per E-Mail.',
+  },
+};
@@ -0,0 +1,441 @@
+import {
+  DRIVE_TYPE_LABELS,
+  FUEL_TYPE_LABELS,
+  TRANSMISSION_LABELS,
+  VEHICLE_TYPE_LABELS,
+  formatMileage,
+  formatPrice,
+} from '@/lib/format';
+import { SORT_OPTIONS } from '@/utils/sorting';
+import type { Car, FeatureFilterKey, FilterAdjustment } from '@/types/car';
+import { describeRange, joinValues } from './shared';
+import type { LocalePack } from './types';
+
+const FEATURE_NAMES: Partial<Record<FeatureFilterKey, string>> = {
+  heatedSeats: 'heated seats',
+  navigationSystem: 'navigation system',
+  sunroof: 'sunroof',
+  carPlay: 'Apple CarPlay',
+  alloyWheels: 'alloy wheels',
+  ledHeadlights: 'LED headlights',
+  laneChangeAssist: 'lane change assist',
+  emergencyBrakeAssist: 'emergency brake assist',
+  trailerCoupling: 'a tow bar',
+  fullServiceHistory: 'a full service history',
+};
+
+const ADJUSTMENT_NAMES: Record<FilterAdjustment, string> = {
+  cheaper: 'something cheaper',
+  pricier: 'a bigger budget',
+  newer: 'something newer',
+  older: 'older cars too',
+  lessMileage: 'less mileage',
+  morePower: 'more power',
+};
+
+const carName = (car: Car) => `${car.make} ${car.model}`;
+
+const UNDER_OVER = { max: (value: string) => `under ${value}`, min: (value: string) => `over ${value}` };
+const AT_LEAST_MOST = { max: (value: string) => `no more than ${value}`, min: (value: string) => `at least ${value}` };
+
+export const en: LocalePack = {
+  name: 'English',
+  speechLang: 'en-US',
+
+  nlp: {
+    keywords: {
+      vehicleTypes: {
+        'suv': 'suv',
+        'sports utility vehicle': 'suv',
+        'off-road': 'suv',
+        'pickup': 'suv',
+        'saloon': 'saloon',
+        'sedan': 'saloon',
+        'coupe': 'sports-coupe',
+        'sports car': 'sports-coupe',
+        'estate': 'estate',
+        'wagon': 'estate',
+        'small car': 'small-car',
+        'hatchback': 'small-car',
+        'cabriolet': 'cabriolet',
+        'convertible': 'cabriolet',
+        'roadster': 'cabriolet',
+        'van': 'van',
+        'minibus': 'van',
+      },
+
+      conditions: {
+        'new': 'new',
+        'used': 'used',
+        'second hand': 'used',
+        'pre-registration': 'pre-registration',
+        'demo': 'demonstration',
+        'demonstration': 'demonstration',
+        'classic': 'classic',
+        'vintage': 'classic',
+      },
+
+      fuelTypes: {
+        'petrol': 'petrol',
+        'gas': 'petrol',
+        'gasoline': 'petrol',
+        'diesel': 'diesel',
+        'electric': 'electric',
+        'ev': 'electric',
+        'hybrid': 'hybrid',
+        'plug-in hybrid': 'plug-in-hybrid',
+        'phev': 'plug-in-hybrid',
+        'hydrogen': 'hydrogen',
+        'natural gas': 'cng',
+        'cng': 'cng',
+        'lpg': 'lpg',
+        'ethanol': 'ethanol',
+      },
+
+      transmissions: {
+        'automatic': 'automatic',
+        'auto': 'automatic',
+        'manual': 'manual',
+        'stick shift': 'manual',
+        'semi-automatic': 'semi-automatic',
+        'semi auto': 'semi-automatic',
+      },
+
+      driveTypes: {
+        'all wheel drive': 'awd',
+        'awd': 'awd',
+        '4wd': 'awd',
+        'front wheel drive': 'fwd',
+        'fwd': 'fwd',
+        'rear wheel drive': 'rwd',
+        'rwd': 'rwd',
+      },
+
+      features: {
+        'heated seats': 'heatedSeats',
+        'navigation': 'navigationSystem',
+        'nav': 'navigationSystem',
+        'gps': 'navigationSystem',
+        'sunroof': 'sunroof',
+        'panoramic roof': 'sunroof',
+        'apple carplay': 'carPlay',
+        'android auto': 'carPlay',
+        'alloy wheels': 'alloyWheels',
+        'led headlights': 'ledHeadlights',
+        'led lights': 'ledHeadlights',
+        'lane assist': 'laneChangeAssist',
+        'emergency brake': 'emergencyBrakeAssist',
+        'trailer coupling': 'trailerCoupling',
+        'tow bar': 'trailerCoupling',
+        'full service history': 'fullServiceHistory',
+        'service history': 'fullServiceHistory',
+        'service book': 'fullServiceHistory',
+      },
+
+      colors: {
+        'black': 'Black',
+        'white': 'White',
+        'silver': 'Silver',
+        'grey': 'Grey',
+        'gray': 'Grey',
+        'blue': 'Blue',
+        'red': 'Red',
+        'brown': 'Brown',
+        'green': 'Green',
+        'orange': 'Orange',
+        'yellow': 'Yellow',
+        'beige': 'Beige',
+        'gold': 'Gold',
+        'purple': 'Purple',
+      },
+
+      slidingDoors: {
+        'sliding door': 'yes',
+        'sliding doors': 'yes',
+      },
+    },
+
+    sortPhrases: [
+      ['newest listings', 'listing-newest'],
+      ['latest arrivals', 'listing-newest'],
+      ['recently added', 'listing-newest'],
+      ['just arrived', 'listing-newest'],
+      ['price low to high', 'price-asc'],
+      ['price high to low', 'price-desc'],
+      ['cheapest first', 'price-asc'],
+      ['lowest price', 'price-asc'],
+      ['cheapest', 'price-asc'],
+      ['most expensive', 'price-desc'],
+      ['highest price', 'price-desc'],
+      ['lowest mileage', 'mileage-asc'],
+      ['least mileage', 'mileage-asc'],
+      ['fewest kilometers', 'mileage-asc'],
+      ['most recent registration', 'registration-desc'],
+      ['newest first', 'registration-desc'],
+      ['youngest', 'registration-desc'],
+      ['most powerful', 'power-desc'],
+      ['most horsepower', 'power-desc'],
+      ['strongest', 'power-desc'],
+      ['best match', 'relevance'],
+      ['most relevant', 'relevance'],
+    ],
+
+    adjustmentPhrases: [
+      ['cheaper', 'cheaper'],
+      ['less expensive', 'cheaper'],
+      ['more affordable', 'cheaper'],
+      ['lower price', 'cheaper'],
+      ['more expensive', 'pricier'],
+      ['pricier', 'pricier'],
+      ['bigger budget', 'pricier'],
+      ['higher budget', 'pricier'],
+      ['newer', 'newer'],
+      ['more recent', 'newer'],
+      ['younger', 'newer'],
+      ['older', 'older'],
+      ['less mileage', 'lessMileage'],
+      ['lower mileage', 'lessMileage'],
+      ['fewer miles', 'lessMileage'],
+      ['fewer kilometers', 'lessMileage'],
+      ['fewer kilometres', 'lessMileage'],
+      ['more power', 'morePower'],
+      ['more powerful', 'morePower'],
+      ['more horsepower', 'morePower'],
+      ['faster', 'morePower'],
+    ],
+
+    numberWords: {
+      values: {
+        'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5, 'six': 6, 'seven': 7, 'eight': 8, 'nine': 9,
+        'ten': 10, 'eleven': 11, 'twelve': 12, 'thirteen': 13, 'fourteen': 14, 'fifteen': 15, 'sixteen': 16,
+        'seventeen': 17, 'eighteen': 18, 'nineteen': 19, 'twenty': 20, 'thirty': 30, 'forty': 40, 'fifty': 50,
+        'sixty': 60, 'seventy': 70, 'eighty': 80, 'ninety': 90,
+      },
+      multipliers: { 'hundred': 100, 'thousand': 1000, 'million': 1000000 },
+      joiners: [],
+      scales: { 'k': 1000, 'grand': 1000, 'thousand': 1000, 'million': 1000000, 'mil': 1000000 },
+    },
+
+    unitWords: {
+      '€': 'priceRange', '$': 'priceRange', '£': 'priceRange', 'eur': 'priceRange', 'euro': 'priceRange',
+      'euros': 'priceRange', 'dollars': 'priceRange', 'bucks': 'priceRange',
+      'km': 'mileageRange', 'kms': 'mileageRange', 'kilometers': 'mileageRange', 'kilometres': 'mileageRange',
+      'miles': 'mileageRange', 'mi': 'mileageRange',
+      'hp': 'powerRange', 'bhp': 'powerRange', 'ps': 'powerRange', 'horsepower': 'powerRange',
+      'horses': 'powerRange', 'kw': 'powerRange',
+      'seats': 'seatsRange', 'seat': 'seatsRange', 'seater': 'seatsRange',
+      'doors': 'doorsRange', 'door': 'doorsRange', 'doored': 'doorsRange',
+      'owners': 'ownersRange', 'owner': 'ownersRange', 'keepers': 'ownersRange', 'keeper': 'ownersRange',
+      'months': 'huValidityRange',
+      'cc': 'cubicCapacityRange', 'ccm': 'cubicCapacityRange', 'liter': 'cubicCapacityRange',
+      'litre': 'cubicCapacityRange', 'liters': 'cubicCapacityRange', 'litres': 'cubicCapacityRange',
+    },
+
+    unitScales: {
+      'kw': { type: 'powerRange', factor: 1.36 },
+      'liter': { type: 'cubicCapacityRange', factor: 1000 },
+      'litre': { type: 'cubicCapacityRange', factor: 1000 },
+      'liters': { type: 'cubicCapacityRange', factor: 1000 },
+      'litres': { type: 'cubicCapacityRange', factor: 1000 },
+      'year': { type: 'huValidityRange', factor: 12 },
+      'years': { type: 'huValidityRange', factor: 12 },
+    },
+
+    unitFillers: ['previous', 'prior', 'former'],
+
+    contextWords: {
+      'price': 'priceRange', 'budget': 'priceRange', 'cost': 'priceRange', 'costs': 'priceRange',
+      'pay': 'priceRange', 'spend': 'priceRange', 'afford': 'priceRange', 'cheaper': 'priceRange',
+      'expensive': 'priceRange',
+      'mileage': 'mileageRange', 'driven': 'mileageRange', 'odometer': 'mileageRange',
+      'year': 'yearRange', 'registered': 'yearRange', 'registration': 'yearRange', 'built': 'yearRange',
+      'newer': 'yearRange', 'older': 'yearRange',
+      'power': 'powerRange', 'powerful': 'powerRange',
+      'tüv': 'huValidityRange', 'tuv': 'huValidityRange', 'mot': 'huValidityRange', 'hu': 'huValidityRange',
+      'inspection': 'huValidityRange',
+      'engine': 'cubicCapacityRange', 'displacement': 'cubicCapacityRange',
+    },
+
+    quantityPhrases: [
+      ['first owner', 'ownersRange', { max: 1 }],
+      ['single owner', 'ownersRange', { max: 1 }],
+      ['first hand', 'ownersRange', { max: 1 }],
+      ['new tüv', 'huValidityRange', { min: 24 }],
+      ['fresh tüv', 'huValidityRange', { min: 24 }],
+      ['new mot', 'huValidityRange', { min: 12 }],
+    ],
+
+    leadingBounds: [
+      ['no more than', 'max'], ['not more than', 'max'], ['less than', 'max'], ['cheaper than', 'max'],
+      ['lower than', 'max'], ['older than', 'max'], ['up to', 'max'], ['at most', 'max'],
+      ['more than', 'min'], ['at least', 'min'], ['newer than', 'min'], ['higher than', 'min'],
+      ['starting at', 'min'],
+      // A negated comparator bounds the other end: "no older than 2018" is 2018 or newer
+      ['no older than', 'min'], ['not older than', 'min'], ['no newer than', 'max'], ['not newer than', 'max'],
+      ['no less than', 'min'], ['not less than', 'min'], ['no cheaper than', 'min'], ['not cheaper than', 'min'],
+      ['no lower than', 'min'], ['not lower than', 'min'],
+      ['under', 'max'], ['below', 'max'], ['max', 'max'], ['maximum', 'max'], ['within', 'max'],
+      ['before', 'max'], ['until', 'max'],
+      ['over', 'min'], ['above', 'min'], ['min', 'min'], ['minimum', 'min'], ['from', 'min'],
+      ['after', 'min'], ['since', 'min'],
+    ],
+
+    trailingBounds: [
+      ['or less', 'max'], ['or under', 'max'], ['or cheaper', 'max'], ['or below', 'max'], ['or earlier', 'max'],
+      ['or older', 'max'], ['max', 'max'],
+      ['or more', 'min'], ['or newer', 'min'], ['or later', 'min'], ['or above', 'min'], ['plus', 'min'], ['+', 'min'],
+    ],
+
+    rangeJoiners: ['to', 'and', '-', 'until'],
+
+    negationCues: [
+      'anything but', 'anything except', 'everything but', 'other than', 'instead of', 'rather than',
+      "don't want", 'do not want',
+      "don't like", 'neither', 'except', 'excluding', 'without', 'avoid', 'never', 'not', 'no',
+    ],
+    negationFalseFriends: [
+      'no more than', 'not more than', 'no older than', 'not older than', 'no newer than', 'not newer than',
+      'no less than', 'not less than', 'no cheaper than', 'not cheaper than', 'no lower than', 'not lower than',
+    ],
+    listConnectors: ['or', 'nor', 'and', '/'],
+    articles: ['a', 'an', 'any', 'no', 'not'],
+    ordinalWords: {
+      'first': 1, 'second': 2, 'third': 3, 'fourth': 4, 'fifth': 5, 'sixth': 6, 'seventh': 7, 'eighth': 8,
+      'ninth': 9, 'tenth': 10, 'last': -1, 'second last': -2, 'second to last': -2, 'penultimate': -2,
+    },
+    anaphora: ['it', 'that one', 'this one', 'that car', 'this car', 'them', 'those', 'these', 'both'],
+
+    intentPhrases: {
+      wishlist: ['wishlist', 'wish list', 'add to list', 'save for later', 'keep looking', 'notify me'],
+      external: ['search everywhere', 'look elsewhere', 'external', 'other dealer', 'other dealers', 'autotrader', 'outside'],
+      search: ['find', 'search', 'show', 'looking for'],
+      compare: ['compare', 'comparison'],
+      details: ['detail', 'details', 'more info', 'tell me about', 'tell me more', 'more about', 'open'],
+      reset: ['reset', 'clear', 'start over'],
+      confirm: ['yes', 'correct', 'right'],
+      deny: ['no', 'wrong', 'change'],
+      replace: ['instead', 'make it', 'actually', 'rather', 'switch to', 'change to', 'change it to', 'swap'],
+      remove: ['remove', 'drop', 'forget', 'get rid of', 'take off', 'no longer', "don't need", 'clear'],
+      undo: ['undo', 'scratch that', 'take that back', 'revert', 'go back a step'],
+      readResults: ['read me', 'read out', 'read them', 'what did you find', 'what have you found', 'list them'],
+      nextPage: ['next page', 'next ones', 'next few', 'more results', 'show me more'],
+      previousPage: ['previous page', 'previous ones', 'page back', 'go back a page'],
+      goBack: ['go back'],
+      backToSearch: ['back to my search', 'back to the search', 'back to my results', 'back to the results', 'back to the list'],
+      dontCare: [
+        "don't care", "doesn't matter", 'does not matter', 'no preference', "i'm not fussy", 'whatever', 'either is fine',
+        'either way', 'any is fine', 'anything is fine', 'any will do',
+      ],
+      summary: [
+        'so far', 'what have i set', 'what did i set', 'what have i said', 'what did i ask for', 'my filters',
+        'my criteria', 'recap', 'sum up', 'summarize', 'summarise',
+      ],
+    },
+    confidencePhrases: ['find', 'search', 'looking for', 'want', 'need', 'show me'],
+  },
+
+  responses: {
+    welcome: "Welcome to RedLine Motors voice assistant! I'm here to help you find your perfect car. I can search our inventory, add items to your wishlist, or even look for cars from external sources if we don't have what you need. What are you looking for today?",
+    searching: 'Perfect! Let me search for cars matching your criteria.',
+    denial: "No problem! Please tell me what you'd like to change or search for instead.",
+    reset: "All filters cleared! Let's start fresh. What kind of car are you looking for?",
+    noResults: "I didn't find any cars in our current inventory that match your criteria. However, I can help you in a few ways: I can add this to your wishlist and notify you when matching cars arrive, or I can search external sources like AutoTrader and other dealerships. Which would you prefer?",
+    wishlist: "Great choice! I'll help you add this to your wishlist so we can find the perfect car for you. Let me open the wishlist form.",
+    externalSearch: "Excellent! I'll search external automotive sources including AutoTrader, CarGurus, and other dealership networks. This might take a moment, but I'll find the best options for you.",
+    externalResults: 'Great news! Found 3 matching vehicles on AutoTrader, Located 2 similar cars at nearby dealerships, Discovered 1 exact match on CarGurus. I\'ll prepare a detailed report with prices, locations, and contact information. You can expect an email within the next hour with all the details.',
+    unknown: "I didn't quite understand that. You can say things like: 'I want a BMW SUV under 50,000 euros', 'Add this to my wishlist', 'Search external sources', or 'Show me electric cars with heated seats.'",
+    unclear: "I understand you're looking for a car. Could you be more specific about what you want?",
+    confirmation: parts => `Got it! Looking for ${parts.join(', ')}.`,
+    excluding: spans => `excluding ${spans.join(', ')}`,
+    removed: parts => `Okay, no longer looking for ${parts.join(', ')}.`,
+    summary: parts => `So far you're looking for ${parts.join(', ')}.`,
+    nothingSet: "You haven't set any filters yet. What are you looking for?",
+    undone: utterance => `Okay, I've undone "${utterance}".`,
+    nothingToUndo: "There's nothing to undo yet.",
+    resultsFound: total => `I found ${total} matching ${total === 1 ? 'car' : 'cars'}.`,
+    pageIntro: (from, to, total) => (from === to ? `Here is car ${from} of ${total}.` : `Here are cars ${from} to ${to} of ${total}.`),
+    carSummary: (car, position) =>
+      `Number ${position}: the ${car.firstRegistration} ${carName(car)} for ${formatPrice(car.price)}, ${formatMileage(car.mileage)}.`,
+    noResultsToBrowse: "There are no results to go through yet. Tell me what you're looking for first.",
+    noMoreResults: "That's all of them. Would you like to hear about one of these, or change the search?",
+    firstPage: "We're already at the first results.",
+    unknownReference: "Which car do you mean? You can say 'the first one' or 'the second one'.",
+    openingDetails: car => `Opening the details for the ${carName(car)}.`,
+    openingComparison: cars => `Let's compare the ${cars.map(carName).join(' and the ')}.`,
+    compareNeedsTwo: "Tell me which two cars to compare, for example 'the first and the third'.",
+    goingBack: 'Going back.',
+    returningToSearch: 'Taking you back to your search.',
+    relaxedMatches: (count, parts) =>
+      `I don't have an exact match, but I have ${count} ${count === 1 ? 'car' : 'cars'} ${parts.join(', ')}. Shall I change the search?`,
+    relaxedWithout: (count, parts) =>
+      `I don't have an exact match, but I have ${count} ${count === 1 ? 'car' : 'cars'} if we drop "${parts.join(', ')}". Shall I do that?`,
+    anythingElse: "Is there anything else specific you're looking for? I can search our inventory, add to your wishlist, or look at external sources. Just let me know!",
+    anythingElseReplies: ["Yes, that's everything", 'Add it to my wishlist', 'What have I set so far?'],
+    dontCare: "No problem, I won't ask about that.",
+    entityConfirmations: {
+      make: found => [`${joinValues(found, 'or')} vehicles`],
+      model: found => [`the ${joinValues(found, 'or')}`],
+      vehicleType: found => [`${joinValues(found, 'or', value => VEHICLE_TYPE_LABELS[value])} body type`],
+      condition: found => [`${joinValues(found, 'or')} condition`],
+      fuelType: found => [`${joinValues(found, 'or', value => FUEL_TYPE_LABELS[value].toLowerCase())} fuel type`],
+      transmission: found => [`${joinValues(found, 'or', value => TRANSMISSION_LABELS[value].toLowerCase())} transmission`],
+      driveType: found => [joinValues(found, 'or', value => DRIVE_TYPE_LABELS[value].toLowerCase())],
+      color: found => [`in ${joinValues(found, 'or', value => value.toLowerCase())}`],
+      priceRange: ([{ value }]) => describeRange(value, UNDER_OVER, price => `€${price.toLocaleString()}`),
+      yearRange: ([{ value }]) => [
+        ...(value.min ? [`registered ${value.min} or later`] : []),
+        ...(value.max ? [`registered ${value.max} or earlier`] : []),
+      ],
+      mileageRange: ([{ value }]) => describeRange(value, UNDER_OVER, mileage => `${mileage.toLocaleString()} km`),
+      powerRange: ([{ value }]) => [
+        ...(value.min ? [`at least ${value.min} hp`] : []),
+        ...(value.max ? [`no more than ${value.max} hp`] : []),
+      ],
+      seatsRange: ([{ value }]) => describeRange(value, AT_LEAST_MOST, seats => `${seats} seats`),
+      doorsRange: ([{ value }]) => [`${(value.min ?? value.max) <= 3 ? '2 or 3' : '4 or 5'} doors`],
+      ownersRange: ([{ value }]) =>
+        value.max === undefined ? [] : [value.max <= 1 ? 'one owner' : `no more than ${value.max} owners`],
+      huValidityRange: ([{ value }]) => (value.min ? [`at least ${value.min} months of TÜV`] : []),
+      cubicCapacityRange: ([{ value }]) => describeRange(value, AT_LEAST_MOST, ccm => `${ccm.toLocaleString()} ccm`),
+      slidingDoor: () => ['with a sliding door'],
+      adjustment: found => found.map(({ value }) => ADJUSTMENT_NAMES[value]),
+      resultReference: () => [],
+      useCase: found => [`suited for ${joinValues(found, 'and', value => value.label)}`],
+      feature: found => [`with ${found.map(({ value }) => FEATURE_NAMES[value] ?? value).join(', ')}`],
+      sort: ([{ value }]) => {
+        const sortLabel = SORT_OPTIONS.find(option => option.value === value)?.label;
+        return [`sorted by ${sortLabel?.toLowerCase() ?? value}`];
+      },
+    },
+  },
+
+  ui: {
+    title: 'Voice Car Search Assistant',
+    liveTranscript: 'Live transcript:',
+    listening: 'Listening...',
+    speaking: 'Speaking...',
+    startListening: 'Start Listening',
+    stopListening: 'Stop Listening',
+    stopSpeaking: 'Stop Speaking',
+    typeMessage: 'Type what you are looking for...',
+    send: 'Send',
+    textMode: 'Type instead',
+    voiceMode: 'Talk instead',
+    muteSpeech: 'Mute voice',
+    unmuteSpeech: 'Unmute voice',
+    quickReplies: 'Suggestions',
+    examples: [
+      '💡 Try saying: "I want a used BMW SUV under 40,000 euros with heated seats"',
+      '🔄 Or: "Add this to my wishlist" / "Search external sources"',
+      '🌟 Or: "Show me electric cars with automatic transmission"',
+    ],
+    recognitionErrorTitle: 'Voice Recognition Error',
+    recognitionErrorDescription: 'Please try again or check your microphone permissions.',
+    synthesisErrorTitle: 'Voice Playback Error',
+    synthesisErrorDescription: "The answer couldn't be read out. It is still shown in the conversation.",
+    searchCompleteTitle: 'Search Complete',
+    searchCompleteDescription: 'Found cars matching your voice search criteria!',
+    externalSearchCompleteTitle: 'External Search Complete',
+    externalSearchCompleteDescription: 'Found multiple matches! Check your email for detailed results.',
+  },
+};
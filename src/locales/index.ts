@@ -0,0 +1,22 @@
+import { de } from './de';
+import { en } from './en';
+import type { LocalePack } from './types';
+
+export type { AssistantResponses, AssistantTexts, KeywordMappings, LocalePack, NlpLocale } from './types';
+
+// Adding a language means adding its pack here; nothing else needs to change
+export const LOCALES = { en, de } satisfies Record<string, LocalePack>;
+
+export type LocaleCode = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+export const LOCALE_CODES = Object.keys(LOCALES) as LocaleCode[];
+
+export const getLocalePack = (locale: LocaleCode): LocalePack => LOCALES[locale] ?? LOCALES[DEFAULT_LOCALE];
+
+// Picks the pack for a browser language such as "de-AT", falling back to the default
+export function resolveLocale(language: string | undefined): LocaleCode {
+  const prefix = language?.toLowerCase().split('-')[0];
+  return LOCALE_CODES.find(code => code === prefix) ?? DEFAULT_LOCALE;
+}
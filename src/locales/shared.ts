@@ -0,0 +1,73 @@
+import type { KeywordMappings } from './types';
+
+// Brand and model names sound the same in every language
+export const BRAND_KEYWORDS: Pick<KeywordMappings, 'makes' | 'models'> = {
+  makes: {
+    'volkswagen': 'Volkswagen',
+    'vw': 'Volkswagen',
+    'bmw': 'BMW',
+    'mercedes': 'Mercedes',
+    'benz': 'Mercedes',
+    'audi': 'Audi',
+    'toyota': 'Toyota',
+    'ford': 'Ford',
+    'porsche': 'Porsche',
+    'tesla': 'Tesla',
+    'lamborghini': 'Lamborghini',
+    'ferrari': 'Ferrari',
+  },
+
+  models: {
+    'golf': 'Golf',
+    'polo': 'Polo',
+    'passat': 'Passat',
+    'tiguan': 'Tiguan',
+    'm3': 'M3',
+    'm4': 'M4',
+    'm5': 'M5',
+    'x3': 'X3',
+    'x5': 'X5',
+    'a4': 'A4',
+    'a6': 'A6',
+    'q5': 'Q5',
+    'q7': 'Q7',
+    'rs6': 'RS6',
+    'c63': 'C63',
+    'c-class': 'C-Class',
+    'e-class': 'E-Class',
+    'g-class': 'G-Class',
+    'c-klasse': 'C-Class',
+    'e-klasse': 'E-Class',
+    'g-klasse': 'G-Class',
+    'cayenne': 'Cayenne',
+    'macan': 'Macan',
+    'taycan': 'Taycan',
+    'model s': 'Model S',
+    'model 3': 'Model 3',
+    'model y': 'Model Y',
+    'prius': 'Prius',
+    'corolla': 'Corolla',
+    'rav4': 'RAV4',
+    'huracan': 'Huracán',
+    'huracán': 'Huracán',
+    'urus': 'Urus',
+    'range rover': 'Range Rover',
+    'defender': 'Defender',
+    'mustang': 'Mustang',
+    'focus': 'Focus',
+  },
+};
+
+// "BMW or Audi", "BMW oder Audi"
+export const joinValues = <T,>(found: { value: T }[], conjunction: string, label: (value: T) => string = String) =>
+  found.map(({ value }) => label(value)).join(` ${conjunction} `);
+
+// Reads a min/max pair back with the locale's words for each side
+export const describeRange = (
+  { min, max }: { min?: number; max?: number },
+  words: { min: (value: string) => string; max: (value: string) => string },
+  format: (value: number) => string,
+) => [
+  ...(max ? [words.max(format(max))] : []),
+  ...(min ? [words.min(format(min))] : []),
+];
@@ -0,0 +1,197 @@
+import type {
+  Car,
+  EntityOfType,
+  FeatureFilterKey,
+  FilterAdjustment,
+  NumericRange,
+  ParsedEntityType,
+  SortMode,
+} from '@/types/car';
+
+// Phrase -> canonical value for each entity type the parser recognises
+export interface KeywordMappings {
+  makes: Record<string, string>;
+  models: Record<string, string>;
+  vehicleTypes: Record<string, Car['vehicleType']>;
+  conditions: Record<string, Car['condition']>;
+  fuelTypes: Record<string, Car['fuelType']>;
+  transmissions: Record<string, Car['transmission']>;
+  driveTypes: Record<string, Car['driveType']>;
+  features: Record<string, FeatureFilterKey>;
+  colors: Record<string, string>;
+  slidingDoors: Record<string, 'yes'>;
+}
+
+export type QuantityType =
+  | 'priceRange'
+  | 'yearRange'
+  | 'mileageRange'
+  | 'powerRange'
+  | 'seatsRange'
+  | 'doorsRange'
+  | 'ownersRange'
+  | 'huValidityRange'
+  | 'cubicCapacityRange';
+
+export type Bound = 'min' | 'max';
+
+export type IntentPhraseKey =
+  | 'wishlist'
+  | 'external'
+  | 'search'
+  | 'compare'
+  | 'details'
+  | 'reset'
+  | 'confirm'
+  | 'deny'
+  // Dialogue acts on filters already collected
+  | 'replace'
+  | 'remove'
+  | 'undo'
+  | 'summary'
+  // Browsing the results of a search
+  | 'readResults'
+  | 'nextPage'
+  | 'previousPage'
+  | 'goBack'
+  // Back to the inventory as the user last saw it, from wherever the conversation went
+  | 'backToSearch'
+  // No preference on what the assistant just asked about
+  | 'dontCare';
+
+/**
+ * Spelled-out numbers. Words are matched as parts of a token too, so German
+ * compounds such as "fünfundzwanzigtausend" read as 25,000.
+ */
+export interface NumberWords {
+  // "five" -> 5, "fifty" -> 50
+  values: Record<string, number>;
+  // "hundred" -> 100, "thousand" -> 1000
+  multipliers: Record<string, number>;
+  // Glue inside a compound ("fünf-und-zwanzig")
+  joiners: string[];
+  // Shorthand after a written number ("30 grand", "1.5 million", "50 k")
+  scales: Record<string, number>;
+}
+
+export interface NlpLocale {
+  // Makes and models are shared across locales, every other keyword is spoken language
+  keywords: Omit<KeywordMappings, 'makes' | 'models'>;
+  // Phrases that pick a result order; longer phrases are listed first so they win
+  sortPhrases: [string, SortMode][];
+  // Phrases that move a limit already set ("a bit cheaper", "newer")
+  adjustmentPhrases: [string, FilterAdjustment][];
+  numberWords: NumberWords;
+  // Units that settle what a number measures, whether written before ("€30,000") or after ("30,000 euros")
+  unitWords: Record<string, QuantityType>;
+  // Units that also convert the number ("150 kW" -> hp, "2 litre" -> ccm); only applied to their own quantity
+  unitScales: Record<string, { type: QuantityType; factor: number }>;
+  // Words that may sit between a number and the unit after it ("2 previous owners")
+  unitFillers: string[];
+  // Words near a number that hint at what it measures when no unit is given
+  contextWords: Record<string, QuantityType>;
+  // Phrases that stand for a quantity without a number ("first owner", "TÜV neu")
+  quantityPhrases: [string, QuantityType, NumericRange][];
+  // Comparators before a number ("under 30,000")
+  leadingBounds: [string, Bound][];
+  // Comparators after a number ("30,000 or less")
+  trailingBounds: [string, Bound][];
+  rangeJoiners: string[];
+  // Phrases that rule out what follows them ("no diesel")
+  negationCues: string[];
+  // Cue phrases that are not negations ("no more than 30,000")
+  negationFalseFriends: string[];
+  // Words that continue a negated list ("no diesel or petrol")
+  listConnectors: string[];
+  // Filler allowed between a cue and what it negates ("not a manual")
+  articles: string[];
+  // "first" -> 1, "last" -> -1; "first" and "last" may take a count ("the first three")
+  ordinalWords: Record<string, number>;
+  // Words that point back at the cars just talked about ("it", "that one", "them")
+  anaphora: string[];
+  intentPhrases: Record<IntentPhraseKey, string[]>;
+  // Phrases that make a request sound deliberate ("I'm looking for")
+  confidencePhrases: string[];
+}
+
+export interface AssistantResponses {
+  welcome: string;
+  searching: string;
+  denial: string;
+  reset: string;
+  noResults: string;
+  wishlist: string;
+  externalSearch: string;
+  externalResults: string;
+  unknown: string;
+  unclear: string;
+  confirmation: (parts: string[]) => string;
+  excluding: (spans: string[]) => string;
+  removed: (parts: string[]) => string;
+  // "What have I set so far?"
+  summary: (parts: string[]) => string;
+  nothingSet: string;
+  undone: (utterance: string) => string;
+  nothingToUndo: string;
+  // Reading results out and moving between them
+  resultsFound: (total: number) => string;
+  pageIntro: (from: number, to: number, total: number) => string;
+  carSummary: (car: Car, position: number) => string;
+  noResultsToBrowse: string;
+  noMoreResults: string;
+  firstPage: string;
+  unknownReference: string;
+  openingDetails: (car: Car) => string;
+  openingComparison: (cars: Car[]) => string;
+  compareNeedsTwo: string;
+  goingBack: string;
+  returningToSearch: string;
+  // Nothing matched, but a smaller search would: the limits that moved, or the filters to drop
+  relaxedMatches: (count: number, parts: string[]) => string;
+  relaxedWithout: (count: number, parts: string[]) => string;
+  // Asked once the dialogue plan has nothing left worth asking, with answers offered as chips;
+  // the plan's own questions are edited in the admin settings
+  anythingElse: string;
+  anythingElseReplies: string[];
+  // "Any brand": the assistant lets the question go
+  dontCare: string;
+  // How each entity is read back; every entity type needs one
+  entityConfirmations: { [T in ParsedEntityType]: (found: EntityOfType<T>[]) => string[] };
+}
+
+export interface AssistantTexts {
+  title: string;
+  liveTranscript: string;
+  listening: string;
+  speaking: string;
+  startListening: string;
+  stopListening: string;
+  stopSpeaking: string;
+  // Typing instead of speaking, when there is no microphone
+  typeMessage: string;
+  send: string;
+  textMode: string;
+  voiceMode: string;
+  muteSpeech: string;
+  unmuteSpeech: string;
+  quickReplies: string;
+  examples: string[];
+  recognitionErrorTitle: string;
+  recognitionErrorDescription: string;
+  synthesisErrorTitle: string;
+  synthesisErrorDescription: string;
+  searchCompleteTitle: string;
+  searchCompleteDescription: string;
+  externalSearchCompleteTitle: string;
+  externalSearchCompleteDescription: string;
+}
+
+export interface LocalePack {
+  // Shown in the language picker, in its own language
+  name: string;
+  // BCP 47 tag for speech recognition and synthesis
+  speechLang: string;
+  nlp: NlpLocale;
+  responses: AssistantResponses;
+  ui: AssistantTexts;
+}
@@ -8,6 +8,7 @@ import { PhotoManager } from "@/components/admin/PhotoManager";
 import { WishlistAdmin } from "@/components/admin/WishlistAdmin";
 import { SettingsAdmin } from "@/components/admin/SettingsAdmin";
 import { AnalyticsAdmin } from "@/components/admin/AnalyticsAdmin";
+import { ConversationTranscriptsAdmin } from "@/components/admin/ConversationTranscriptsAdmin";
 
 const Admin = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(() => {
@@ -30,6 +31,7 @@ const Admin = () => {
         <Route path="/wishlist" element={<WishlistAdmin />} />
         <Route path="/settings" element={<SettingsAdmin />} />
         <Route path="/analytics" element={<AnalyticsAdmin />} />
+        <Route path="/conversations" element={<ConversationTranscriptsAdmin />} />
         <Route path="*" element={<Navigate to="/admin" replace />} />
       </Routes>
     </AdminLayout>
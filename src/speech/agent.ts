@@ -0,0 +1,36 @@
+// Session setup for the ElevenLabs conversational agent behind hands-free control
+import type { SpeechSettings } from './settings';
+
+const DEFAULT_AGENT_ORIGIN = 'wss://api.elevenlabs.io';
+
+export type AgentSessionConfig =
+  | { agentId: string; connectionType: 'websocket' }
+  | { signedUrl: string };
+
+/**
+ * How to reach the configured agent. Public agents only need their id; with
+ * an API key a signed URL is fetched first, so private agents work too. A
+ * custom origin (the mock agent server) always hands out a signed URL, as the
+ * conversation hook puts its own origin in front of a bare agent id.
+ */
+export async function createAgentSessionConfig(
+  settings: Pick<SpeechSettings, 'elevenLabsAgentId' | 'elevenLabsApiKey' | 'elevenLabsAgentOrigin'>,
+): Promise<AgentSessionConfig> {
+  const agentId = settings.elevenLabsAgentId.trim();
+  const origin = settings.elevenLabsAgentOrigin.trim().replace(/\/$/, '') || undefined;
+
+  if (!settings.elevenLabsApiKey && !origin) {
+    return { agentId, connectionType: 'websocket' };
+  }
+
+  const api = (origin ?? DEFAULT_AGENT_ORIGIN).replace(/^ws/, 'http');
+  const response = await fetch(`${api}/v1/convai/conversation/get-signed-url?agent_id=${encodeURIComponent(agentId)}`, {
+    headers: settings.elevenLabsApiKey ? { 'xi-api-key': settings.elevenLabsApiKey } : {},
+  });
+  if (!response.ok) {
+    throw new Error(`Could not reach the voice agent (${response.status})`);
+  }
+
+  const { signed_url: signedUrl } = await response.json() as { signed_url: string };
+  return { signedUrl };
+}
@@ -0,0 +1,129 @@
+// Speech through ElevenLabs: the microphone is recorded while listening and
+// transcribed when the user stops, answers are synthesised with the voice
+// configured in the admin settings.
+import { createSpeechEvents } from './events';
+import type { SpeechErrorCode, SpeechProvider } from './types';
+
+const API_URL = 'https://api.elevenlabs.io/v1';
+const TRANSCRIPTION_MODEL = 'scribe_v1';
+
+export interface ElevenLabsSpeechOptions {
+  apiKey: string;
+  voiceId: string;
+  modelId: string;
+}
+
+export function createElevenLabsSpeechProvider({ apiKey, voiceId, modelId }: ElevenLabsSpeechOptions): SpeechProvider {
+  const events = createSpeechEvents();
+  let lang = 'en-US';
+  let recorder: MediaRecorder | undefined;
+  let audio: HTMLAudioElement | undefined;
+  let synthesis: AbortController | undefined;
+  let finishSpeaking: (() => void) | undefined;
+  let disposed = false;
+
+  const canRecord = typeof navigator !== 'undefined' && !!navigator.mediaDevices && typeof MediaRecorder !== 'undefined';
+
+  const fail = (error: unknown, code: SpeechErrorCode = 'network') => {
+    const notAllowed = error instanceof DOMException && error.name === 'NotAllowedError';
+    events.emit('error', {
+      code: notAllowed ? 'not-allowed' : code,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  };
+
+  const transcribe = async (recording: Blob) => {
+    const body = new FormData();
+    body.append('model_id', TRANSCRIPTION_MODEL);
+    body.append('language_code', lang.split('-')[0]);
+    body.append('file', recording, 'speech.webm');
+
+    const response = await fetch(`${API_URL}/speech-to-text`, { method: 'POST', headers: { 'xi-api-key': apiKey }, body });
+    if (!response.ok) throw new Error(`Transcription failed (${response.status})`);
+
+    const { text } = await response.json() as { text: string };
+    if (text.trim()) events.emit('transcript', { text: text.trim(), final: true });
+    else events.emit('error', { code: 'no-speech', message: 'Nothing was heard' });
+  };
+
+  const start = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const chunks: Blob[] = [];
+      const current = new MediaRecorder(stream);
+      recorder = current;
+      current.ondataavailable = (event) => chunks.push(event.data);
+      current.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        // A recording started since then is still listening
+        if (recorder === current) events.emit('listening', false);
+        if (!disposed) transcribe(new Blob(chunks, { type: current.mimeType })).catch(fail);
+      };
+      current.start();
+      events.emit('listening', true);
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const cancel = () => {
+    synthesis?.abort();
+    audio?.pause();
+    finishSpeaking?.();
+  };
+
+  const speak = async (text: string) => {
+    cancel();
+    synthesis = new AbortController();
+
+    try {
+      const response = await fetch(`${API_URL}/text-to-speech/${voiceId}`, {
+        method: 'POST',
+        headers: { 'xi-api-key': apiKey, 'Content-Type': 'application/json', Accept: 'audio/mpeg' },
+        body: JSON.stringify({ text, model_id: modelId }),
+        signal: synthesis.signal,
+      });
+      if (!response.ok) throw new Error(`Speech synthesis failed (${response.status})`);
+
+      const url = URL.createObjectURL(await response.blob());
+      audio = new Audio(url);
+      await new Promise<void>(resolve => {
+        finishSpeaking = resolve;
+        audio!.onended = () => resolve();
+        audio!.onerror = () => resolve();
+        audio!.play().catch(() => resolve());
+      });
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) fail(error, 'synthesis');
+    } finally {
+      finishSpeaking = undefined;
+    }
+  };
+
+  return {
+    id: 'elevenlabs',
+    recognition: !!apiKey && canRecord,
+    synthesis: !!apiKey,
+    setLanguage: value => {
+      lang = value;
+    },
+    start: () => {
+      if (recorder?.state !== 'recording') start();
+    },
+    stop: () => {
+      if (recorder?.state === 'recording') recorder.stop();
+    },
+    onTranscript: listener => events.on('transcript', listener),
+    onListeningChange: listener => events.on('listening', listener),
+    onError: listener => events.on('error', listener),
+    speak,
+    cancel,
+    dispose: () => {
+      disposed = true;
+      cancel();
+      if (recorder?.state === 'recording') recorder.stop();
+      events.clear();
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { SpeechEvents } from './types';
+
+type Listener<T> = (value: T) => void;
+
+// Typed listener sets, one per event name
+export function createEvents<E extends object>(names: (keyof E)[]) {
+  const listeners = new Map<keyof E, Set<Listener<E[keyof E]>>>(names.map(name => [name, new Set()]));
+
+  return {
+    on: <K extends keyof E>(event: K, listener: Listener<E[K]>) => {
+      listeners.get(event)?.add(listener as Listener<E[keyof E]>);
+      return () => {
+        listeners.get(event)?.delete(listener as Listener<E[keyof E]>);
+      };
+    },
+    emit: <K extends keyof E>(event: K, value: E[K]) => {
+      listeners.get(event)?.forEach(listener => listener(value));
+    },
+    clear: () => listeners.forEach(set => set.clear()),
+  };
+}
+
+// The listener sets every provider keeps for its transcripts, state and errors
+export const createSpeechEvents = () => createEvents<SpeechEvents>(['transcript', 'listening', 'error']);
@@ -0,0 +1,56 @@
+import { createElevenLabsSpeechProvider } from './elevenLabs';
+import { createScriptedSpeechProvider } from './scripted';
+import type { SpeechSettings } from './settings';
+import type { SpeechProvider, SpeechProviderId } from './types';
+import { createWebSpeechProvider } from './webSpeech';
+
+export type { SpeechError, SpeechProvider, SpeechProviderId, Transcript } from './types';
+export type { ScriptedSpeechProvider } from './scripted';
+export { createElevenLabsSpeechProvider, createScriptedSpeechProvider, createWebSpeechProvider };
+export { createTurnTaking } from './turns';
+export type { TurnState, TurnTaking, TurnTakingOptions, VoiceDetector } from './turns';
+export { createMicrophoneVoiceDetector } from './voiceActivity';
+export { createAgentSessionConfig } from './agent';
+export type { AgentSessionConfig } from './agent';
+export * from './settings';
+
+// Shown in the admin settings
+export const SPEECH_PROVIDERS: Record<SpeechProviderId, { name: string; description: string }> = {
+  'web-speech': {
+    name: 'Browser speech',
+    description: "The browser's built-in recognition and voices. Free, but recognition only works in Chrome, Edge and Safari; elsewhere customers type and still hear the answers.",
+  },
+  elevenlabs: {
+    name: 'ElevenLabs',
+    description: 'Transcription and natural voices from ElevenLabs. Needs the API key above.',
+  },
+  scripted: {
+    name: 'Text only',
+    description: 'Customers type instead of speaking and answers are shown, not spoken.',
+  },
+};
+
+export const SPEECH_PROVIDER_IDS = Object.keys(SPEECH_PROVIDERS) as SpeechProviderId[];
+
+const FACTORIES: Record<SpeechProviderId, (settings: SpeechSettings) => SpeechProvider> = {
+  'web-speech': () => createWebSpeechProvider(),
+  elevenlabs: settings => createElevenLabsSpeechProvider({
+    apiKey: settings.elevenLabsApiKey,
+    voiceId: settings.elevenLabsVoiceId,
+    modelId: settings.elevenLabsModel,
+  }),
+  scripted: () => createScriptedSpeechProvider(),
+};
+
+/**
+ * The provider chosen in the settings, or the text-only one when this
+ * browser can neither listen nor speak with it (no API key, no speech APIs).
+ * One that can only speak is kept: customers type and hear the answers.
+ */
+export function createSpeechProvider(settings: SpeechSettings): SpeechProvider {
+  const provider = (FACTORIES[settings.provider] ?? FACTORIES['web-speech'])(settings);
+  if (provider.recognition || provider.synthesis || provider.submit) return provider;
+
+  provider.dispose();
+  return createScriptedSpeechProvider();
+}
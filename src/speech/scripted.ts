@@ -0,0 +1,53 @@
+// A speech provider without audio: transcripts come from a script or from
+// typed text, and whatever the assistant says is kept instead of played.
+// Used in tests and in browsers without a microphone.
+import { createSpeechEvents } from './events';
+import type { SpeechProvider } from './types';
+
+export interface ScriptedSpeechProvider extends SpeechProvider {
+  submit: (text: string) => void;
+  // Everything spoken so far, oldest first
+  readonly spoken: string[];
+}
+
+/**
+ * Every start hears the next line of `script`, as if the user had said it
+ * and stopped; with the script used up, start only listens for `submit`.
+ */
+export function createScriptedSpeechProvider(script: string[] = []): ScriptedSpeechProvider {
+  const events = createSpeechEvents();
+  const lines = [...script];
+  const spoken: string[] = [];
+
+  const submit = (text: string) => {
+    if (text.trim()) events.emit('transcript', { text: text.trim(), final: true });
+  };
+
+  return {
+    id: 'scripted',
+    recognition: false,
+    synthesis: false,
+    spoken,
+    submit,
+    setLanguage: () => {},
+    start: () => {
+      events.emit('listening', true);
+      const line = lines.shift();
+      if (line === undefined) return;
+      // Heard after the caller has finished starting, like a real recogniser
+      setTimeout(() => {
+        submit(line);
+        events.emit('listening', false);
+      }, 0);
+    },
+    stop: () => events.emit('listening', false),
+    onTranscript: listener => events.on('transcript', listener),
+    onListeningChange: listener => events.on('listening', listener),
+    onError: listener => events.on('error', listener),
+    speak: async text => {
+      spoken.push(text);
+    },
+    cancel: () => {},
+    dispose: () => events.clear(),
+  };
+}
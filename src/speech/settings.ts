@@ -0,0 +1,44 @@
+import { getBrowserStorage } from '@/data/inventory';
+import type { SpeechProviderId } from './types';
+
+// Speech settings live with the other admin settings
+export const ADMIN_SETTINGS_KEY = 'admin_settings';
+// Fired when the admin saves settings, so open assistants can switch provider
+export const SPEECH_SETTINGS_EVENT = 'speech-settings-updated';
+// Fired when the ElevenLabs key or agent changes, so the voice agent reconnects with them
+export const ELEVENLABS_SETTINGS_EVENT = 'elevenlabs-key-updated';
+
+export interface SpeechSettings {
+  provider: SpeechProviderId;
+  elevenLabsApiKey: string;
+  elevenLabsVoiceId: string;
+  elevenLabsModel: string;
+  // Conversational agent for hands-free control; the origin points at another server, such as the mock agent
+  elevenLabsAgentId: string;
+  elevenLabsAgentOrigin: string;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  provider: 'web-speech',
+  elevenLabsApiKey: '',
+  elevenLabsVoiceId: '9BWtsMINqrJLrRacOk9x',
+  elevenLabsModel: 'eleven_multilingual_v2',
+  elevenLabsAgentId: '',
+  elevenLabsAgentOrigin: '',
+};
+
+export function loadSpeechSettings(storage: Storage | undefined = getBrowserStorage()): SpeechSettings {
+  try {
+    const saved = JSON.parse(storage?.getItem(ADMIN_SETTINGS_KEY) ?? '{}');
+    return {
+      provider: saved.speechProvider ?? DEFAULT_SPEECH_SETTINGS.provider,
+      elevenLabsApiKey: saved.elevenLabsApiKey ?? DEFAULT_SPEECH_SETTINGS.elevenLabsApiKey,
+      elevenLabsVoiceId: saved.elevenLabsVoiceId || DEFAULT_SPEECH_SETTINGS.elevenLabsVoiceId,
+      elevenLabsModel: saved.elevenLabsModel || DEFAULT_SPEECH_SETTINGS.elevenLabsModel,
+      elevenLabsAgentId: saved.elevenLabsAgentId ?? DEFAULT_SPEECH_SETTINGS.elevenLabsAgentId,
+      elevenLabsAgentOrigin: saved.elevenLabsAgentOrigin ?? DEFAULT_SPEECH_SETTINGS.elevenLabsAgentOrigin,
+    };
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+}
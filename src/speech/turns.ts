@@ -0,0 +1,252 @@
+// Turn-taking between the user and the assistant on top of a speech provider.
+// Audio is half duplex: recognition pauses while the assistant speaks, so it
+// never hears itself, and answers queue up instead of cutting each other off.
+// The user can still take the turn back by talking over the assistant.
+import { createEvents } from './events';
+import type { SpeechProvider, Transcript } from './types';
+
+export type TurnState = 'idle' | 'listening' | 'processing' | 'speaking';
+
+export interface TurnEvents {
+  state: TurnState;
+  // Everything heard while listening, interim results included, for display
+  transcript: Transcript;
+  // A finished user turn, to be answered
+  utterance: string;
+}
+
+/**
+ * Watches the microphone and calls `onVoice` for as long as someone is
+ * talking; returns a function that stops watching.
+ */
+export type VoiceDetector = (onVoice: () => void) => () => void;
+
+export interface TurnTakingOptions {
+  // Quiet after the user last said something that ends their turn
+  endOfTurnMs?: number;
+  // Quiet after the microphone opens that ends the conversation
+  noSpeechMs?: number;
+  // How long a recogniser that transcribes after stopping may take
+  lateTranscriptMs?: number;
+  // Without one there is no barge-in, and only transcripts count as speech
+  detectVoice?: VoiceDetector;
+}
+
+export interface TurnTaking {
+  readonly state: TurnState;
+  // Opens the microphone for a hands-free conversation; talking over the assistant interrupts it
+  listen: () => void;
+  // Closes the microphone; what was heard so far still counts
+  stopListening: () => void;
+  // Queued behind anything still being said
+  say: (text: string) => void;
+  // Barge-in: drops what is queued and hands the turn to the user
+  interrupt: () => void;
+  // Drops what is queued without listening
+  silence: () => void;
+  // Typed text: a whole turn of its own, taken like speech would be
+  submit: (text: string) => void;
+  onStateChange: (listener: (state: TurnState) => void) => () => void;
+  onTranscript: (listener: (transcript: Transcript) => void) => () => void;
+  onUtterance: (listener: (text: string) => void) => () => void;
+  // Leaves the provider to its owner
+  dispose: () => void;
+}
+
+const END_OF_TURN_MS = 1500;
+const NO_SPEECH_MS = 8000;
+const LATE_TRANSCRIPT_MS = 4000;
+
+/**
+ * idle -> listening -> processing -> speaking -> listening ... until the user
+ * stops or goes quiet. A final transcript that arrives outside a listening
+ * turn, such as typed text or a recogniser that transcribes after stopping,
+ * is a turn of its own. Whatever the assistant has queued is spoken in order,
+ * after which listening resumes if the user left the microphone open.
+ */
+export function createTurnTaking(
+  speech: SpeechProvider,
+  {
+    endOfTurnMs = END_OF_TURN_MS,
+    noSpeechMs = NO_SPEECH_MS,
+    lateTranscriptMs = LATE_TRANSCRIPT_MS,
+    detectVoice,
+  }: TurnTakingOptions = {},
+): TurnTaking {
+  const events = createEvents<TurnEvents>(['state', 'transcript', 'utterance']);
+  const queue: string[] = [];
+  let state: TurnState = 'idle';
+  // The user has the microphone open; it reopens after every answer until they close it or go quiet
+  let conversing = false;
+  // Final transcripts of the current turn
+  let heard: string[] = [];
+  // Bumped whenever speech is cut off, so a cancelled utterance does not start the next one
+  let speaking = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopDetecting: (() => void) | undefined;
+
+  const setState = (next: TurnState) => {
+    if (state === next) return;
+    state = next;
+    events.emit('state', next);
+  };
+
+  const schedule = (ms: number, action: () => void) => {
+    clearTimeout(timer);
+    timer = setTimeout(action, ms);
+  };
+
+  const watch = (onVoice: () => void) => {
+    stopDetecting?.();
+    stopDetecting = detectVoice?.(onVoice);
+  };
+
+  const unwatch = () => {
+    stopDetecting?.();
+    stopDetecting = undefined;
+  };
+
+  // The state always changes before the recogniser stops, so its end event is not taken for the user's
+  const pause = (next: TurnState) => {
+    clearTimeout(timer);
+    unwatch();
+    setState(next);
+    speech.stop();
+  };
+
+  const settle = () => {
+    clearTimeout(timer);
+    if (queue.length > 0) speakNext();
+    else if (conversing) startListening();
+    else setState('idle');
+  };
+
+  const deliver = (text: string) => {
+    clearTimeout(timer);
+    setState('processing');
+    events.emit('utterance', text);
+    // Nothing was said in reply, at least not yet; a later answer pauses listening again
+    if (state === 'processing') settle();
+  };
+
+  const endTurn = () => {
+    const text = heard.join(' ').trim();
+    heard = [];
+    pause('processing');
+    if (text) deliver(text);
+    else schedule(lateTranscriptMs, settle);
+  };
+
+  const giveUp = () => {
+    conversing = false;
+    heard = [];
+    pause('idle');
+  };
+
+  function startListening() {
+    heard = [];
+    setState('listening');
+    speech.start();
+    schedule(noSpeechMs, giveUp);
+    watch(() => {
+      if (state === 'listening') schedule(endOfTurnMs, endTurn);
+    });
+  }
+
+  function speakNext() {
+    const text = queue.shift();
+    if (text === undefined) {
+      unwatch();
+      settle();
+      return;
+    }
+
+    if (state !== 'speaking') {
+      heard = [];
+      pause('speaking');
+      watch(interrupt);
+    }
+
+    const current = ++speaking;
+    speech.speak(text).finally(() => {
+      if (current === speaking && state === 'speaking') speakNext();
+    });
+  }
+
+  const cutOff = () => {
+    queue.length = 0;
+    speaking++;
+    speech.cancel();
+    unwatch();
+  };
+
+  function interrupt() {
+    cutOff();
+    conversing = true;
+    startListening();
+  }
+
+  const unsubscribers = [
+    speech.onTranscript(transcript => {
+      // Our own voice, or the tail of what the user said before the assistant cut in
+      if (state === 'speaking') return;
+      events.emit('transcript', transcript);
+
+      if (state !== 'listening') {
+        if (transcript.final) deliver(transcript.text);
+        return;
+      }
+      if (transcript.final) heard.push(transcript.text);
+      schedule(endOfTurnMs, endTurn);
+    }),
+    speech.onListeningChange(listening => {
+      // The recogniser stopped by itself: the turn is over
+      if (!listening && state === 'listening') endTurn();
+    }),
+    speech.onError(() => {
+      if (state === 'speaking') return;
+      giveUp();
+    }),
+  ];
+
+  return {
+    get state() {
+      return state;
+    },
+    listen: () => {
+      conversing = true;
+      if (state === 'speaking') interrupt();
+      else if (state !== 'listening') startListening();
+    },
+    stopListening: () => {
+      conversing = false;
+      if (state === 'listening') endTurn();
+    },
+    say: text => {
+      queue.push(text);
+      if (state !== 'speaking') speakNext();
+    },
+    interrupt,
+    silence: () => {
+      const wasSpeaking = state === 'speaking';
+      cutOff();
+      if (wasSpeaking) settle();
+    },
+    submit: text => {
+      if (!text.trim()) return;
+      if (state === 'speaking') cutOff();
+      heard = [];
+      if (state === 'listening' || state === 'speaking') pause('processing');
+      deliver(text.trim());
+    },
+    onStateChange: listener => events.on('state', listener),
+    onTranscript: listener => events.on('transcript', listener),
+    onUtterance: listener => events.on('utterance', listener),
+    dispose: () => {
+      clearTimeout(timer);
+      cutOff();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      events.clear();
+    },
+  };
+}
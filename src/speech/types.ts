@@ -0,0 +1,48 @@
+export type SpeechProviderId = 'web-speech' | 'elevenlabs' | 'scripted';
+
+export interface Transcript {
+  text: string;
+  // Interim results may still change; only final ones are acted on
+  final: boolean;
+}
+
+// 'synthesis' is an answer that could not be spoken; the others are about listening
+export type SpeechErrorCode = 'not-allowed' | 'no-speech' | 'network' | 'synthesis' | 'failed';
+
+export interface SpeechError {
+  code: SpeechErrorCode;
+  message: string;
+}
+
+export interface SpeechEvents {
+  transcript: Transcript;
+  listening: boolean;
+  error: SpeechError;
+}
+
+/**
+ * Speech in and out for the voice assistant. The assistant only talks to
+ * this interface, so recognition and synthesis can come from the browser,
+ * a cloud service or a script.
+ */
+export interface SpeechProvider {
+  readonly id: SpeechProviderId;
+  // Whether this browser and configuration let it listen to the microphone and speak
+  // answers; Firefox, for one, speaks but cannot listen, so customers type there
+  readonly recognition: boolean;
+  readonly synthesis: boolean;
+  // BCP 47 tag; recognition picks it up on its next start
+  setLanguage: (lang: string) => void;
+  start: () => void;
+  stop: () => void;
+  // Each returns a function that removes the listener
+  onTranscript: (listener: (transcript: Transcript) => void) => () => void;
+  onListeningChange: (listener: (listening: boolean) => void) => () => void;
+  onError: (listener: (error: SpeechError) => void) => () => void;
+  // Resolves once the text has been spoken or cancelled
+  speak: (text: string) => Promise<void>;
+  cancel: () => void;
+  dispose: () => void;
+  // Providers without a microphone take typed text instead
+  submit?: (text: string) => void;
+}
@@ -0,0 +1,72 @@
+// Voice activity from the microphone level, for barge-in and for noticing
+// the end of a turn with recognisers that only transcribe after stopping.
+import type { VoiceDetector } from './turns';
+
+export interface VoiceDetectorOptions {
+  // RMS level, 0 to 1, that counts as someone talking
+  threshold?: number;
+  // How long the level has to stay up, so a cough or a click does not interrupt
+  minDurationMs?: number;
+}
+
+const SAMPLE_INTERVAL_MS = 50;
+
+/**
+ * Undefined where the browser has no microphone access or Web Audio. Echo
+ * cancellation keeps most of the assistant's own voice out; the threshold
+ * and duration are set high enough for the rest.
+ */
+export function createMicrophoneVoiceDetector(
+  { threshold = 0.04, minDurationMs = 250 }: VoiceDetectorOptions = {},
+): VoiceDetector | undefined {
+  if (typeof window === 'undefined' || !navigator.mediaDevices || typeof AudioContext === 'undefined') {
+    return undefined;
+  }
+
+  return onVoice => {
+    let stopped = false;
+    let release = () => {};
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then(stream => {
+        if (stopped) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        const context = new AudioContext();
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 1024;
+        context.createMediaStreamSource(stream).connect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+        let loudSince: number | undefined;
+
+        const interval = setInterval(() => {
+          analyser.getFloatTimeDomainData(samples);
+          const level = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+          const now = Date.now();
+
+          if (level < threshold) {
+            loudSince = undefined;
+            return;
+          }
+          loudSince ??= now;
+          if (now - loudSince >= minDurationMs) onVoice();
+        }, SAMPLE_INTERVAL_MS);
+
+        release = () => {
+          clearInterval(interval);
+          stream.getTracks().forEach(track => track.stop());
+          context.close();
+        };
+      })
+      // Without the microphone there is simply no barge-in
+      .catch(() => {});
+
+    return () => {
+      stopped = true;
+      release();
+    };
+  };
+}
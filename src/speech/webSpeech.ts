@@ -0,0 +1,117 @@
+// Speech through the browser's own Web Speech API: recognition where the
+// browser has it (Chrome, Edge, Safari) and synthesis almost everywhere.
+import { createSpeechEvents } from './events';
+import type { SpeechErrorCode, SpeechProvider } from './types';
+
+// The recogniser types are declared in src/types/speech.d.ts and only reachable through Window
+type Recognition = InstanceType<NonNullable<Window['SpeechRecognition']>>;
+type RecognitionError = Parameters<NonNullable<Recognition['onerror']>>[0]['error'];
+
+const ERROR_CODES: Partial<Record<RecognitionError, SpeechErrorCode>> = {
+  'not-allowed': 'not-allowed',
+  'service-not-allowed': 'not-allowed',
+  'audio-capture': 'not-allowed',
+  'no-speech': 'no-speech',
+  'network': 'network',
+};
+
+export function createWebSpeechProvider({ rate = 0.9, volume = 0.8 } = {}): SpeechProvider {
+  const events = createSpeechEvents();
+  const RecognitionClass = typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+  const synth = typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : undefined;
+  let lang = 'en-US';
+  let recognition: Recognition | undefined;
+  // Recognition cannot start again until it has fully ended, so a quick restart waits for the end
+  let running = false;
+  let restart = false;
+
+  if (RecognitionClass) {
+    recognition = new RecognitionClass();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      let finalTranscript = '';
+      let interimTranscript = '';
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const transcript = event.results[i][0].transcript;
+        if (event.results[i].isFinal) {
+          finalTranscript += transcript;
+        } else {
+          interimTranscript += transcript;
+        }
+      }
+
+      events.emit('transcript', { text: finalTranscript || interimTranscript, final: !!finalTranscript });
+    };
+    recognition.onerror = (event) => {
+      events.emit('error', { code: ERROR_CODES[event.error] ?? 'failed', message: event.message || event.error });
+    };
+    recognition.onend = () => {
+      running = false;
+      if (restart) {
+        restart = false;
+        begin();
+        return;
+      }
+      events.emit('listening', false);
+    };
+  }
+
+  function begin() {
+    if (!recognition) return;
+    recognition.lang = lang;
+    recognition.start();
+    running = true;
+  }
+
+  return {
+    id: 'web-speech',
+    recognition: !!recognition,
+    synthesis: !!synth,
+    setLanguage: value => {
+      lang = value;
+    },
+    start: () => {
+      if (!recognition) return;
+      if (running) {
+        restart = true;
+        return;
+      }
+      begin();
+      events.emit('listening', true);
+    },
+    stop: () => {
+      restart = false;
+      recognition?.stop();
+    },
+    onTranscript: listener => events.on('transcript', listener),
+    onListeningChange: listener => events.on('listening', listener),
+    onError: listener => events.on('error', listener),
+    speak: text => new Promise(resolve => {
+      if (!synth) return resolve();
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.rate = rate;
+      utterance.volume = volume;
+      utterance.voice = synth.getVoices().find(voice => voice.lang.startsWith(lang.split('-')[0])) || null;
+      utterance.onend = () => resolve();
+      utterance.onerror = (event) => {
+        // Cancelled speech is not a failure
+        if (event.error !== 'interrupted' && event.error !== 'canceled') {
+          events.emit('error', { code: 'synthesis', message: event.error });
+        }
+        resolve();
+      };
+      synth.speak(utterance);
+    }),
+    cancel: () => synth?.cancel(),
+    dispose: () => {
+      recognition?.abort();
+      synth?.cancel();
+      events.clear();
+    },
+  };
+}
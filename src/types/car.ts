@@ -1,3 +1,6 @@
+import type { DialogueProgress } from './dialogue';
+import type { UseCaseMatch } from './useCase';
+
 // Enhanced Car Interface with comprehensive details
 export interface Car {
   id: string;
@@ -71,8 +74,11 @@ export interface Car {
   // Display
   image: string;
   images?: string[];
+  description?: string;
+  highlights?: string[]; // Marketing feature list shown on detail/comparison pages
   year: number; // For compatibility
   isNew?: boolean; // For compatibility
+  listedAt?: string; // ISO date the car was added to the inventory
 }
 
 // Filter interfaces
@@ -85,6 +91,7 @@ export interface CarFilters {
   
   // Vehicle Type
   vehicleTypes: string[];
+  excludeVehicleTypes: string[];
   
   // Capacity
   seatsMin: number;
@@ -114,17 +121,21 @@ export interface CarFilters {
   // Location
   countries: string[];
   city: string;
-  radius: number;
+  zipCode: string; // Radius search origin
+  zipCountry: string; // ISO code of the origin postal code, defaults to DE
+  radius: number; // km
   deliveryAvailable: boolean;
   
   // Technical Data
   fuelTypes: string[];
+  excludeFuelTypes: string[];
   powerMin: number;
   powerMax: number;
   cubicCapacityMin: number;
   cubicCapacityMax: number;
   driveTypes: string[];
   transmissions: string[];
+  excludeTransmissions: string[];
   
   // Environmental
   emissionClasses: string[];
@@ -132,6 +143,7 @@ export interface CarFilters {
   
   // Exterior
   exteriorColors: string[];
+  excludeExteriorColors: string[];
   parkingSensors: string[];
   cruiseControl: string[];
   
@@ -149,18 +161,115 @@ export interface CarFilters {
   ledHeadlights: boolean;
   laneChangeAssist: boolean;
   emergencyBrakeAssist: boolean;
+
+  // Use cases asked for; their lighter requirements order the results instead of filtering them
+  preferredUseCases: string[];
 }
 
+// Boolean filters that only restrict results when switched on
+export type FeatureFilterKey =
+  | 'fullServiceHistory'
+  | 'roadworthy'
+  | 'newService'
+  | 'deliveryAvailable'
+  | 'particulateFilter'
+  | 'sunroof'
+  | 'trailerCoupling'
+  | 'heatedSeats'
+  | 'navigationSystem'
+  | 'carPlay'
+  | 'alloyWheels'
+  | 'ledHeadlights'
+  | 'laneChangeAssist'
+  | 'emergencyBrakeAssist';
+
+export type SortMode =
+  | 'relevance'
+  | 'price-asc'
+  | 'price-desc'
+  | 'mileage-asc'
+  | 'registration-desc'
+  | 'power-desc'
+  | 'listing-newest';
+
 // Voice command types
+
+// Where an entity was found in the utterance (character offsets, end exclusive)
+export interface EntitySpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+// A nudge to a limit, or to the results shown when none is set: "cheaper", "newer", "less mileage"
+export type FilterAdjustment = 'cheaper' | 'pricier' | 'newer' | 'older' | 'lessMileage' | 'morePower';
+
+interface EntityOf<T extends string, V> {
+  type: T;
+  value: V;
+  span: EntitySpan;
+  confidence: number; // 0..1
+  negated?: boolean; // The user ruled the value out ("no diesel", "anything but BMW")
+}
+
+export type ParsedEntity =
+  | EntityOf<'make', string>
+  | EntityOf<'model', string>
+  | EntityOf<'vehicleType', Car['vehicleType']>
+  | EntityOf<'condition', Car['condition']>
+  | EntityOf<'fuelType', Car['fuelType']>
+  | EntityOf<'transmission', Car['transmission']>
+  | EntityOf<'driveType', Car['driveType']>
+  | EntityOf<'color', string>
+  | EntityOf<'feature', FeatureFilterKey>
+  | EntityOf<'priceRange', NumericRange>
+  | EntityOf<'yearRange', NumericRange>
+  | EntityOf<'mileageRange', NumericRange>
+  | EntityOf<'powerRange', NumericRange>
+  | EntityOf<'seatsRange', NumericRange>
+  | EntityOf<'doorsRange', NumericRange>
+  | EntityOf<'ownersRange', NumericRange>
+  | EntityOf<'huValidityRange', NumericRange> // months
+  | EntityOf<'cubicCapacityRange', NumericRange> // ccm
+  | EntityOf<'slidingDoor', 'yes'>
+  | EntityOf<'useCase', UseCaseMatch>
+  | EntityOf<'adjustment', FilterAdjustment>
+  // A car in the results: 1-based on the page being read, negative from its end, 0 for "it" or "that one"
+  | EntityOf<'resultReference', number>
+  | EntityOf<'sort', SortMode>;
+
+export type ParsedEntityType = ParsedEntity['type'];
+export type EntityOfType<T extends ParsedEntityType> = Extract<ParsedEntity, { type: T }>;
+
+// Entities in the order they appear in the utterance
+export type ParsedEntities = ParsedEntity[];
+
 export interface VoiceCommand {
   intent: string;
-  entities: Record<string, any>;
+  entities: ParsedEntities;
   confidence: number;
 }
 
+// One turn that changed the collected filters, kept so it can be undone
+export interface FilterChange {
+  utterance: string;
+  previousFilters: Partial<CarFilters>;
+}
+
 export interface ConversationState {
   currentStep: string;
   collectedFilters: Partial<CarFilters>;
+  // Oldest first; "undo" restores the filters from before the last entry
+  history: FilterChange[];
   pendingConfirmation?: string;
+  // Filters the assistant offered when nothing matched, applied if the user agrees
+  pendingRelaxation?: Partial<CarFilters>;
+  // Follow-up questions asked and waved off so far
+  dialogue?: DialogueProgress;
   lastSpoken?: string;
 }
\ No newline at end of file
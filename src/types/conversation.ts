@@ -0,0 +1,30 @@
+import type { LocaleCode } from '@/locales';
+import type { ConversationState } from './car';
+
+export interface ConversationMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  text: string;
+  // ISO 8601, so sessions survive a trip through storage
+  timestamp: string;
+}
+
+// How the buyer prefers to use the assistant, kept apart from any one conversation
+export interface VoicePreferences {
+  // Typing instead of talking; forced when the browser cannot listen
+  inputMode: 'voice' | 'text';
+  // Answers are shown but not read out
+  muted: boolean;
+}
+
+// One conversation with the voice assistant, kept across pages and visits
+export interface ConversationSession {
+  id: string;
+  startedAt: string;
+  updatedAt: string;
+  locale: LocaleCode;
+  messages: ConversationMessage[];
+  state: ConversationState;
+  // Query string of the inventory as the user last saw it, for "go back to my search"
+  lastSearch?: string;
+}
@@ -0,0 +1,42 @@
+import type { LocaleCode } from '@/locales';
+import type { CarFilters } from './car';
+
+// What answering a slot tells apart in the inventory
+export type SlotAttribute = 'make' | 'price' | 'vehicleType' | 'fuelType' | 'transmission' | 'year' | 'mileage' | 'power';
+
+// Something the assistant may ask the buyer about to narrow the search
+export interface DialogueSlot {
+  id: string;
+  attribute: SlotAttribute;
+  // The slot is filled once any of these filters is set, however the buyer set them
+  filters: (keyof CarFilters)[];
+  // The question, per spoken language
+  prompts: Partial<Record<LocaleCode, string>>;
+  // Answers offered as chips under the question
+  quickReplies: Partial<Record<LocaleCode, string[]>>;
+  // What buyers say when they have no preference ("any brand"); the slot is not asked after that
+  dontCarePhrases: Partial<Record<LocaleCode, string[]>>;
+  // Not worth asking once the filters match any of these ("electric" settles the gearbox)
+  skipWhen: Partial<CarFilters>[];
+}
+
+export interface DialoguePlan {
+  slots: DialogueSlot[];
+  // Follow-up questions per conversation before the assistant stops asking and offers to search
+  maxQuestions: number;
+}
+
+// How an admin has reworded a slot; languages left out keep the default wording
+export type DialogueSlotOverride = Partial<Pick<DialogueSlot, 'prompts' | 'quickReplies'>>;
+
+// By slot id; the slots themselves and when they are asked always come from the default plan
+export type DialoguePlanOverrides = Record<string, DialogueSlotOverride>;
+
+// How far a conversation has got through the plan
+export interface DialogueProgress {
+  // Slot ids, in the order they were asked
+  asked: string[];
+  dontCare: string[];
+  // The question waiting for an answer; "doesn't matter" refers to it
+  current?: string;
+}
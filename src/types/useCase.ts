@@ -0,0 +1,25 @@
+import type { LocaleCode } from '@/locales';
+import type { CarFilters } from './car';
+
+// Filters that go together in a use case, and how much they matter to it (0..1)
+export interface UseCaseRequirement {
+  filters: Partial<CarFilters>;
+  weight: number;
+}
+
+// A lifestyle request ("a family car", "something for towing") and what it asks of the car
+export interface UseCase {
+  id: string;
+  // How the assistant names the use case when reading it back, per spoken language
+  labels: Partial<Record<LocaleCode, string>>;
+  // What buyers say, per spoken language; matched like any other keyword
+  phrases: Partial<Record<LocaleCode, string[]>>;
+  requirements: UseCaseRequirement[];
+}
+
+// A use case as the parser found it, labelled in the language it was heard in
+export interface UseCaseMatch {
+  id: string;
+  label: string;
+  requirements: UseCaseRequirement[];
+}
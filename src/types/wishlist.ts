@@ -1,3 +1,8 @@
+export type WishlistPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// active -> sourcing -> found -> completed, or cancelled along the way
+export type WishlistStatus = 'active' | 'sourcing' | 'found' | 'completed' | 'cancelled';
+
 export interface WishlistItem {
   id: string;
   clientName: string;
@@ -15,8 +20,8 @@ export interface WishlistItem {
     features?: string[];
     additionalRequirements?: string;
   };
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'active' | 'sourcing' | 'found' | 'completed' | 'cancelled';
+  priority: WishlistPriority;
+  status: WishlistStatus;
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
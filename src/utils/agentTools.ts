@@ -0,0 +1,108 @@
+// Client tools the ElevenLabs agent calls while it talks to the user. Searches
+// run through the same parser and filter engine as the voice assistant and
+// the inventory page; every tool answers with JSON the agent can read from.
+import { Car, CarFilters } from '@/types/car';
+import { DEFAULT_LOCALE, LocaleCode } from '@/locales';
+import { applyEntitiesToFilters, parseVoiceCommand } from './nlp';
+import { filterCars } from './filters';
+import { suggestRelaxations } from './relaxation';
+
+// Cars listed per search; the agent reads them out, so a handful is plenty
+const MAX_AGENT_RESULTS = 5;
+
+export interface AgentToolContext {
+  listCars: () => Promise<Car[]>;
+  navigation: {
+    showCar: (id: string) => void;
+    compareCars: (ids: string[]) => void;
+    showResults: (filters: Partial<CarFilters>) => void;
+  };
+  locale?: LocaleCode;
+}
+
+export interface AgentCarSummary {
+  id: string;
+  make: string;
+  model: string;
+  year: number;
+  price: number;
+  mileage: number;
+  fuelType: Car['fuelType'];
+  transmission: Car['transmission'];
+}
+
+export interface AgentSearchResult {
+  query: string;
+  filters: Partial<CarFilters>;
+  total: number;
+  cars: AgentCarSummary[];
+  // With nothing found, the smallest change to the filters that finds something
+  suggestion?: { filters: Partial<CarFilters>; total: number };
+}
+
+const summarize = (car: Car): AgentCarSummary => ({
+  id: car.id,
+  make: car.make,
+  model: car.model,
+  year: car.firstRegistration,
+  price: car.price,
+  mileage: car.mileage,
+  fuelType: car.fuelType,
+  transmission: car.transmission,
+});
+
+const failure = (error: string) => JSON.stringify({ ok: false, error });
+
+export function createAgentTools({ listCars, navigation, locale = DEFAULT_LOCALE }: AgentToolContext) {
+  const findCars = async (ids: string[]) => {
+    const cars = await listCars();
+    return ids.map(id => cars.find(car => car.id === id));
+  };
+
+  return {
+    navigateToSection: ({ section }: { section: string }) => {
+      const element = document.getElementById(section);
+      if (!element) return failure(`There is no section "${section}" on this page`);
+      element.scrollIntoView({ behavior: 'smooth' });
+      return JSON.stringify({ ok: true, section });
+    },
+
+    navigateToCarDetail: async ({ carId }: { carId: string }) => {
+      const [car] = await findCars([carId]);
+      if (!car) return failure(`There is no car with the id "${carId}"`);
+      navigation.showCar(car.id);
+      return JSON.stringify({ ok: true, car: summarize(car) });
+    },
+
+    // Either car may be left out; the comparison page lets the user pick it
+    navigateToComparison: async ({ car1Id, car2Id }: { car1Id?: string; car2Id?: string }) => {
+      const ids = [car1Id, car2Id].filter((id): id is string => !!id);
+      const cars = await findCars(ids);
+      const missing = ids.filter((_, index) => !cars[index]);
+      if (missing.length > 0) return failure(`There is no car with the id "${missing[0]}"`);
+      navigation.compareCars(ids);
+      return JSON.stringify({ ok: true, cars: cars.map(summarize) });
+    },
+
+    // "A diesel estate under 20,000"; `showResults` also opens the inventory with those filters
+    searchCars: async ({ query, showResults = false }: { query: string; showResults?: boolean }) => {
+      const { entities } = parseVoiceCommand(query, locale);
+      const filters = applyEntitiesToFilters(entities, {});
+      const cars = await listCars();
+      const matches = filterCars(cars, filters);
+
+      if (showResults) navigation.showResults(filters);
+
+      const result: AgentSearchResult = {
+        query,
+        filters,
+        total: matches.length,
+        cars: matches.slice(0, MAX_AGENT_RESULTS).map(summarize),
+      };
+      const [relaxation] = matches.length === 0 ? suggestRelaxations(cars, filters) : [];
+      if (relaxation) result.suggestion = { filters: relaxation.filters, total: relaxation.matches };
+
+      return JSON.stringify(result);
+    },
+  };
+}
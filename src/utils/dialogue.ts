@@ -0,0 +1,117 @@
+// Dialogue manager for the voice assistant's follow-up questions. The plan says
+// what may be asked; which question comes next is decided by the inventory:
+// the slot whose answer splits the cars still in the running most evenly.
+import { Car, CarFilters } from '@/types/car';
+import { DialoguePlan, DialogueProgress, DialogueSlot, SlotAttribute } from '@/types/dialogue';
+import { LocaleCode } from '@/locales';
+import { filterCars } from './filters';
+import { hasPhrase, tokenizeUtterance } from './tokenizer';
+
+export const EMPTY_DIALOGUE_PROGRESS: DialogueProgress = { asked: [], dontCare: [] };
+
+// Numbers are grouped into bands a buyer would answer with; a price per euro would split every car apart
+const band = (size: number) => (value: number) => String(Math.floor(value / size));
+
+const SLOT_ATTRIBUTES: Record<SlotAttribute, (car: Car) => string> = {
+  make: car => car.make,
+  price: car => band(10000)(car.price),
+  vehicleType: car => car.vehicleType,
+  fuelType: car => car.fuelType,
+  transmission: car => car.transmission,
+  year: car => band(3)(car.firstRegistration),
+  mileage: car => band(25000)(car.mileage),
+  power: car => band(50)(car.power),
+};
+
+const isSet = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+export const isSlotFilled = (slot: DialogueSlot, filters: Partial<CarFilters>) =>
+  slot.filters.some(key => isSet(filters[key]));
+
+// A list condition holds when everything asked for is among its values: "electric" settles
+// the gearbox, "electric or hybrid" does not
+const matchesCondition = (condition: Partial<CarFilters>, filters: Partial<CarFilters>) =>
+  Object.entries(condition).every(([key, expected]) => {
+    const actual = filters[key as keyof CarFilters];
+    if (Array.isArray(expected)) {
+      return Array.isArray(actual) && actual.length > 0 && actual.every(value => (expected as unknown[]).includes(value));
+    }
+    return actual === expected;
+  });
+
+export const isSlotSkipped = (slot: DialogueSlot, filters: Partial<CarFilters>) =>
+  slot.skipWhen.some(condition => matchesCondition(condition, filters));
+
+/**
+ * What the answer is worth, in bits: the entropy of the slot's attribute over
+ * the cars. Asking about a make every remaining car shares is worth nothing.
+ */
+export function slotInformation(slot: DialogueSlot, cars: Car[]): number {
+  const read = SLOT_ATTRIBUTES[slot.attribute];
+  if (!read || cars.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  cars.forEach(car => {
+    const value = read(car);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+
+  return [...counts.values()].reduce((bits, count) => {
+    const p = count / cars.length;
+    return bits - p * Math.log2(p);
+  }, 0);
+}
+
+/**
+ * The next slot worth asking about, or undefined when the plan's questions are
+ * used up or nothing left would narrow the search. Slots already filled,
+ * asked, waved off or made moot by the filters are passed over; ties go to the
+ * slot listed first.
+ */
+export function chooseNextSlot(
+  plan: DialoguePlan,
+  cars: Car[],
+  filters: Partial<CarFilters>,
+  progress: DialogueProgress = EMPTY_DIALOGUE_PROGRESS,
+): DialogueSlot | undefined {
+  if (progress.asked.length >= plan.maxQuestions) return undefined;
+
+  const remaining = filterCars(cars, filters);
+  let best: DialogueSlot | undefined;
+  let bestInformation = 0;
+
+  plan.slots.forEach(slot => {
+    const open = !progress.asked.includes(slot.id) && !progress.dontCare.includes(slot.id)
+      && !isSlotFilled(slot, filters) && !isSlotSkipped(slot, filters);
+    if (!open) return;
+
+    const information = slotInformation(slot, remaining);
+    if (information > bestInformation) {
+      best = slot;
+      bestInformation = information;
+    }
+  });
+
+  return best;
+}
+
+// Slots the buyer waved off in so many words ("any brand is fine")
+export function findDontCareSlots(plan: DialoguePlan, text: string, locale: LocaleCode): string[] {
+  const tokens = tokenizeUtterance(text);
+  return plan.slots
+    .filter(slot => (slot.dontCarePhrases[locale] ?? []).some(phrase => hasPhrase(tokens, phrase)))
+    .map(slot => slot.id);
+}
+
+// The slot gets asked; the question before it, answered or not, is no longer waiting
+export const markAsked = (progress: DialogueProgress, slot: DialogueSlot | undefined): DialogueProgress => ({
+  ...progress,
+  asked: slot ? [...progress.asked, slot.id] : progress.asked,
+  current: slot?.id,
+});
+
+export const markDontCare = (progress: DialogueProgress, slotIds: string[]): DialogueProgress => ({
+  ...progress,
+  dontCare: [...new Set([...progress.dontCare, ...slotIds])],
+});
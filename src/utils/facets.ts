@@ -0,0 +1,57 @@
+import { Car, CarFilters } from '@/types/car';
+import { matchCar } from './filters';
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+// Checkbox groups that get counts, keyed by the CarFilters list they write to
+const FACET_FIELDS = {
+  makes: 'make',
+  vehicleTypes: 'vehicleType',
+  conditions: 'condition',
+  fuelTypes: 'fuelType',
+  transmissions: 'transmission',
+  exteriorColors: 'exteriorColor',
+} as const satisfies Partial<Record<keyof CarFilters, keyof Car>>;
+
+export type FacetKey = keyof typeof FACET_FIELDS;
+export type Facets = Record<FacetKey, FacetOption[]>;
+
+/**
+ * Count, for every value of every facet, how many cars would match if that
+ * value were the only selection in its group while all other active filters
+ * stay in place. Values no car has at all are not listed; values that only
+ * drop to zero because of other filters are listed with a count of 0. A
+ * selected value is always listed, spelled as it was selected, so it can be
+ * unchecked even when it came from a link or the voice assistant and no car
+ * has it.
+ */
+export function computeFacets(cars: Car[], filters: Partial<CarFilters>): Facets {
+  const facets = {} as Facets;
+
+  for (const [filterKey, carKey] of Object.entries(FACET_FIELDS) as [FacetKey, keyof Car][]) {
+    const otherFilters = { ...filters, [filterKey]: [] };
+    const counts = new Map<string, number>();
+
+    for (const car of cars) {
+      const value = String(car[carKey]);
+      if (!counts.has(value)) counts.set(value, 0);
+      if (matchCar(car, otherFilters)) counts.set(value, counts.get(value)! + 1);
+    }
+
+    const options = [...counts.entries()].map(([value, count]) => ({ value, count }));
+    for (const selected of filters[filterKey] ?? []) {
+      if (options.some(option => option.value === selected)) continue;
+      // Filters compare regardless of case, so "bmw" selects the BMW row
+      const sameValue = options.find(option => option.value.toLowerCase() === selected.trim().toLowerCase());
+      if (sameValue) sameValue.value = selected;
+      else options.push({ value: selected, count: 0 });
+    }
+
+    facets[filterKey] = options.sort((a, b) => a.value.localeCompare(b.value));
+  }
+
+  return facets;
+}
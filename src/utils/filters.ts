@@ -0,0 +1,197 @@
+import { Car, CarFilters, FeatureFilterKey } from '@/types/car';
+import { WishlistItem } from '@/types/wishlist';
+import { getCarDistance, getSearchOrigin } from './geo';
+
+type Filters = Partial<CarFilters>;
+type CarPredicate = (car: Car, filters: Filters) => boolean;
+
+// Criteria are named after the filter field they check
+export type FilterCriterion = keyof CarFilters;
+
+// Keyed by every feature filter, so a new one is not left out of the list below
+const FEATURE_FILTERS: Record<FeatureFilterKey, true> = {
+  fullServiceHistory: true,
+  roadworthy: true,
+  newService: true,
+  deliveryAvailable: true,
+  particulateFilter: true,
+  sunroof: true,
+  trailerCoupling: true,
+  heatedSeats: true,
+  navigationSystem: true,
+  carPlay: true,
+  alloyWheels: true,
+  ledHeadlights: true,
+  laneChangeAssist: true,
+  emergencyBrakeAssist: true,
+};
+
+export const FEATURE_FILTER_KEYS = Object.keys(FEATURE_FILTERS) as FeatureFilterKey[];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const hasValues = (values: string[] | undefined): values is string[] =>
+  Array.isArray(values) && values.length > 0;
+
+const includesValue = (values: string[] | undefined, value: string) =>
+  !hasValues(values) || values.some(candidate => normalize(candidate) === normalize(value));
+
+const excludesValue = (values: string[] | undefined, value: string) =>
+  !hasValues(values) || !values.some(candidate => normalize(candidate) === normalize(value));
+
+// A zero or missing bound means "no limit", matching how the filter UI resets its sliders
+const withinRange = (value: number, min: number | undefined, max: number | undefined) =>
+  (!min || value >= min) && (!max || value <= max);
+
+// Model filters match on the model name or a run of its words ("M4" and "Model S" match "M4 Competition" and "Model S Plaid")
+const matchesModel = (car: Car, model: string) => {
+  const wanted = normalize(model).split(/\s+/).join(' ');
+  const carModel = normalize(car.model).split(/\s+/).join(' ');
+  return ` ${carModel} `.includes(` ${wanted} `);
+};
+
+const FEATURE_PREDICATES = Object.fromEntries(
+  FEATURE_FILTER_KEYS.map(key => [key, (car: Car, f: Filters) => !f[key] || car[key] === true]),
+) as Record<FeatureFilterKey, CarPredicate>;
+
+/**
+ * One predicate per CarFilters field, each bound of a range on its own.
+ * Adding a field to CarFilters means adding exactly one line here; the type
+ * makes a missing one a compile error.
+ */
+const PREDICATES: { [K in keyof CarFilters]-?: CarPredicate } = {
+  // Basic Data
+  makes: (car, f) => includesValue(f.makes, car.make),
+  models: (car, f) => !hasValues(f.models) || f.models.some(model => matchesModel(car, model)),
+  excludeMakes: (car, f) => excludesValue(f.excludeMakes, car.make),
+  excludeModels: (car, f) => !hasValues(f.excludeModels) || !f.excludeModels.some(model => matchesModel(car, model)),
+
+  // Vehicle Type
+  vehicleTypes: (car, f) => includesValue(f.vehicleTypes, car.vehicleType),
+  excludeVehicleTypes: (car, f) => excludesValue(f.excludeVehicleTypes, car.vehicleType),
+
+  // Capacity
+  seatsMin: (car, f) => withinRange(car.seats, f.seatsMin, undefined),
+  seatsMax: (car, f) => withinRange(car.seats, undefined, f.seatsMax),
+  doors: (car, f) => {
+    if (!f.doors || f.doors === 'any') return true;
+    return f.doors === '2-3' ? car.doors <= 3 : car.doors >= 4;
+  },
+  slidingDoor: (car, f) => !f.slidingDoor || f.slidingDoor === 'any' || car.slidingDoor === (f.slidingDoor === 'yes'),
+
+  // Type and Condition
+  conditions: (car, f) => includesValue(f.conditions, car.condition),
+
+  // Purchase Options
+  paymentTypes: (car, f) => includesValue(f.paymentTypes, car.paymentType),
+
+  // Vehicle Details
+  priceMin: (car, f) => withinRange(car.price, f.priceMin, undefined),
+  priceMax: (car, f) => withinRange(car.price, undefined, f.priceMax),
+  yearMin: (car, f) => withinRange(car.firstRegistration, f.yearMin, undefined),
+  yearMax: (car, f) => withinRange(car.firstRegistration, undefined, f.yearMax),
+  mileageMin: (car, f) => withinRange(car.mileage, f.mileageMin, undefined),
+  mileageMax: (car, f) => withinRange(car.mileage, undefined, f.mileageMax),
+  huValidMonths: (car, f) => !f.huValidMonths || car.huValidMonths >= f.huValidMonths,
+  // '1'..'3' cap the number of previous owners, '4+' accepts any history
+  numberOfOwners: (car, f) => {
+    if (!f.numberOfOwners || f.numberOfOwners === 'any' || f.numberOfOwners === '4+') return true;
+    return car.numberOfOwners <= parseInt(f.numberOfOwners, 10);
+  },
+
+  // Location
+  countries: (car, f) => includesValue(f.countries, car.country),
+  city: (car, f) => !f.city || normalize(car.city) === normalize(f.city),
+  // The postal code only places the radius search, which checks it
+  zipCode: () => true,
+  zipCountry: () => true,
+  // Cars outside the radius still qualify when the dealer can deliver them
+  radius: (car, f) => {
+    if (!f.radius || !getSearchOrigin(f)) return true;
+    return getCarDistance(car, f)?.withinRadius || car.deliveryAvailable;
+  },
+
+  // Technical Data
+  fuelTypes: (car, f) => includesValue(f.fuelTypes, car.fuelType),
+  excludeFuelTypes: (car, f) => excludesValue(f.excludeFuelTypes, car.fuelType),
+  powerMin: (car, f) => withinRange(car.power, f.powerMin, undefined),
+  powerMax: (car, f) => withinRange(car.power, undefined, f.powerMax),
+  cubicCapacityMin: (car, f) => withinRange(car.cubicCapacity, f.cubicCapacityMin, undefined),
+  cubicCapacityMax: (car, f) => withinRange(car.cubicCapacity, undefined, f.cubicCapacityMax),
+  driveTypes: (car, f) => includesValue(f.driveTypes, car.driveType),
+  transmissions: (car, f) => includesValue(f.transmissions, car.transmission),
+  excludeTransmissions: (car, f) => excludesValue(f.excludeTransmissions, car.transmission),
+
+  // Environmental
+  emissionClasses: (car, f) => includesValue(f.emissionClasses, car.emissionClass),
+
+  // Exterior
+  exteriorColors: (car, f) => includesValue(f.exteriorColors, car.exteriorColor),
+  excludeExteriorColors: (car, f) => excludesValue(f.excludeExteriorColors, car.exteriorColor),
+  parkingSensors: (car, f) => includesValue(f.parkingSensors, car.parkingSensors),
+  cruiseControl: (car, f) => includesValue(f.cruiseControl, car.cruiseControl),
+
+  // Interior
+  interiorMaterials: (car, f) => includesValue(f.interiorMaterials, car.interiorMaterial),
+  airConditioning: (car, f) => includesValue(f.airConditioning, car.airConditioning),
+
+  // Features & Extras, one criterion each so relevance ranking can count them
+  ...FEATURE_PREDICATES,
+
+  // Orders the results, see rankCars
+  preferredUseCases: () => true,
+};
+
+export function matchCar(car: Car, filters: Filters): boolean {
+  return Object.values(PREDICATES).every(predicate => predicate(car, filters));
+}
+
+export function filterCars(cars: Car[], filters: Filters): Car[] {
+  return cars.filter(car => matchCar(car, filters));
+}
+
+// Names of the criteria a car fails; an empty list means it is an exact match
+export function getMissedCriteria(car: Car, filters: Filters): FilterCriterion[] {
+  return (Object.keys(PREDICATES) as FilterCriterion[])
+    .filter(criterion => !PREDICATES[criterion](car, filters));
+}
+
+// Fields that place or order the search rather than restrict it: the radius origin and preferred use cases
+const NON_RESTRICTING_KEYS: FilterCriterion[] = ['zipCode', 'zipCountry', 'preferredUseCases'];
+
+const isSet = (value: unknown) =>
+  Array.isArray(value) ? value.length > 0 : value !== undefined && value !== '' && value !== 0 && value !== false && value !== 'any';
+
+// Criteria the filters actually restrict on
+export function getActiveCriteria(filters: Filters): FilterCriterion[] {
+  return (Object.keys(PREDICATES) as FilterCriterion[])
+    .filter(criterion => !NON_RESTRICTING_KEYS.includes(criterion) && isSet(filters[criterion]));
+}
+
+// Translate a wishlist request into the same filter shape the inventory uses
+export function wishlistSpecsToFilters(specs: WishlistItem['desiredSpecs']): Filters {
+  const filters: Filters = {};
+
+  if (specs.make) filters.makes = [specs.make];
+  if (specs.model) filters.models = [specs.model];
+  if (specs.vehicleType) filters.vehicleTypes = [specs.vehicleType];
+  if (specs.condition) filters.conditions = [specs.condition];
+  if (specs.fuelType) filters.fuelTypes = [specs.fuelType];
+  if (specs.transmission) filters.transmissions = [specs.transmission];
+  if (specs.priceRange?.min) filters.priceMin = specs.priceRange.min;
+  if (specs.priceRange?.max) filters.priceMax = specs.priceRange.max;
+  if (specs.yearRange?.min) filters.yearMin = specs.yearRange.min;
+  if (specs.yearRange?.max) filters.yearMax = specs.yearRange.max;
+
+  specs.features?.forEach(feature => {
+    if ((FEATURE_FILTER_KEYS as readonly string[]).includes(feature)) {
+      filters[feature as FeatureFilterKey] = true;
+    }
+  });
+
+  return filters;
+}
+
+export function findWishlistMatches(cars: Car[], specs: WishlistItem['desiredSpecs']): Car[] {
+  return filterCars(cars, wishlistSpecsToFilters(specs));
+}
@@ -0,0 +1,67 @@
+import { Car, CarFilters } from '@/types/car';
+import { POSTAL_CODE_REGIONS, POSTAL_COUNTRIES, PostalCountryCode } from '@/data/postalCodes';
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export interface CarDistance {
+  km: number;
+  withinRadius: boolean;
+}
+
+export const DEFAULT_POSTAL_COUNTRY: PostalCountryCode = 'DE';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function haversineDistanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// Accepts ISO codes ("DE") as well as the country names stored on cars ("Germany")
+export function resolveCountryCode(country: string | undefined): PostalCountryCode | undefined {
+  if (!country) return undefined;
+  const wanted = country.trim().toLowerCase();
+  return (Object.entries(POSTAL_COUNTRIES) as [PostalCountryCode, string][])
+    .find(([code, name]) => code.toLowerCase() === wanted || name.toLowerCase() === wanted)?.[0];
+}
+
+export function lookupPostalCode(postalCode: string, country: string = DEFAULT_POSTAL_COUNTRY): Coordinates | undefined {
+  const table = POSTAL_CODE_REGIONS[resolveCountryCode(country) ?? DEFAULT_POSTAL_COUNTRY];
+  // Drop country prefixes and separators: "D-80331", "00-950", "1234 AB"
+  const digits = postalCode.toUpperCase().replace(/^[A-Z]+-/, '').replace(/[^0-9]/g, '');
+
+  for (let length = digits.length; length > 0; length--) {
+    const coordinates = table[digits.slice(0, length)];
+    if (coordinates) return { lat: coordinates[0], lon: coordinates[1] };
+  }
+
+  return undefined;
+}
+
+// The point a radius search is measured from, if the filters define one
+export function getSearchOrigin(filters: Partial<CarFilters>): Coordinates | undefined {
+  if (!filters.zipCode) return undefined;
+  return lookupPostalCode(filters.zipCode, filters.zipCountry);
+}
+
+export function getCarCoordinates(car: Car): Coordinates | undefined {
+  return lookupPostalCode(car.zipCode, car.country);
+}
+
+export function getCarDistance(car: Car, filters: Partial<CarFilters>): CarDistance | undefined {
+  const origin = getSearchOrigin(filters);
+  const location = getCarCoordinates(car);
+  if (!origin || !location) return undefined;
+
+  const km = haversineDistanceKm(origin, location);
+  return { km, withinRadius: !filters.radius || km <= filters.radius };
+}
@@ -1,400 +1,789 @@
-import { CarFilters, VoiceCommand } from '@/types/car';
-
-// Keyword mappings for natural language processing
-const KEYWORD_MAPPINGS = {
-  makes: {
-    'volkswagen': 'Volkswagen',
-    'vw': 'Volkswagen',
-    'bmw': 'BMW',
-    'mercedes': 'Mercedes',
-    'benz': 'Mercedes',
-    'audi': 'Audi',
-    'toyota': 'Toyota',
-    'ford': 'Ford',
-    'porsche': 'Porsche',
-    'tesla': 'Tesla',
-    'lamborghini': 'Lamborghini',
-    'ferrari': 'Ferrari',
-  },
-  
-  vehicleTypes: {
-    'suv': 'suv',
-    'sports utility vehicle': 'suv',
-    'off-road': 'suv',
-    'pickup': 'suv',
-    'saloon': 'saloon',
-    'sedan': 'saloon',
-    'coupe': 'sports-coupe',
-    'sports car': 'sports-coupe',
-    'estate': 'estate',
-    'wagon': 'estate',
-    'small car': 'small-car',
-    'hatchback': 'small-car',
-    'cabriolet': 'cabriolet',
-    'convertible': 'cabriolet',
-    'roadster': 'cabriolet',
-    'van': 'van',
-    'minibus': 'van',
-  },
-  
-  conditions: {
-    'new': 'new',
-    'used': 'used',
-    'second hand': 'used',
-    'pre-registration': 'pre-registration',
-    'demo': 'demonstration',
-    'demonstration': 'demonstration',
-    'classic': 'classic',
-    'vintage': 'classic',
-  },
-  
-  fuelTypes: {
-    'petrol': 'petrol',
-    'gas': 'petrol',
-    'gasoline': 'petrol',
-    'diesel': 'diesel',
-    'electric': 'electric',
-    'ev': 'electric',
-    'hybrid': 'hybrid',
-    'plug-in hybrid': 'plug-in-hybrid',
-    'phev': 'plug-in-hybrid',
-    'hydrogen': 'hydrogen',
-    'natural gas': 'cng',
-    'cng': 'cng',
-    'lpg': 'lpg',
-    'ethanol': 'ethanol',
-  },
-  
-  transmissions: {
-    'automatic': 'automatic',
-    'auto': 'automatic',
-    'manual': 'manual',
-    'stick shift': 'manual',
-    'semi-automatic': 'semi-automatic',
-    'semi auto': 'semi-automatic',
-  },
-  
-  driveTypes: {
-    'all wheel drive': 'awd',
-    'awd': 'awd',
-    '4wd': 'awd',
-    'front wheel drive': 'fwd',
-    'fwd': 'fwd',
-    'rear wheel drive': 'rwd',
-    'rwd': 'rwd',
-  },
-  
-  features: {
-    'heated seats': 'heatedSeats',
-    'navigation': 'navigationSystem',
-    'nav': 'navigationSystem',
-    'gps': 'navigationSystem',
-    'sunroof': 'sunroof',
-    'panoramic roof': 'sunroof',
-    'apple carplay': 'carPlay',
-    'android auto': 'carPlay',
-    'alloy wheels': 'alloyWheels',
-    'led headlights': 'ledHeadlights',
-    'led lights': 'ledHeadlights',
-    'lane assist': 'laneChangeAssist',
-    'emergency brake': 'emergencyBrakeAssist',
-    'trailer coupling': 'trailerCoupling',
-    'tow bar': 'trailerCoupling',
-  },
-  
-  colors: {
-    'black': 'Black',
-    'white': 'White',
-    'silver': 'Silver',
-    'grey': 'Grey',
-    'gray': 'Grey',
-    'blue': 'Blue',
-    'red': 'Red',
-    'brown': 'Brown',
-    'green': 'Green',
-    'orange': 'Orange',
-    'yellow': 'Yellow',
-    'beige': 'Beige',
-    'gold': 'Gold',
-    'purple': 'Purple',
-  }
+import {
+  Car,
+  CarFilters,
+  EntityOfType,
+  EntitySpan,
+  FilterAdjustment,
+  NumericRange,
+  ParsedEntities,
+  ParsedEntity,
+  ParsedEntityType,
+  VoiceCommand,
+} from '@/types/car';
+import type { UseCase, UseCaseMatch } from '@/types/useCase';
+import { isSoftRequirement, useCaseCatalogue } from '@/data/useCases';
+import { DEFAULT_LOCALE, LocaleCode, getLocalePack } from '@/locales';
+import { BRAND_KEYWORDS } from '@/locales/shared';
+import type { Bound, KeywordMappings, NlpLocale, QuantityType } from '@/locales/types';
+import {
+  PhraseMatcher,
+  Token,
+  createPhraseMatcher,
+  hasPhrase,
+  matchWordsAt,
+  tokenizeUtterance,
+} from './tokenizer';
+import { normalizeNumbers, parseNumberToken } from './numbers';
+import { FEATURE_FILTER_KEYS } from './filters';
+
+// Keyword mappings for natural language processing, per spoken language
+export function getKeywordMappings(locale: LocaleCode = DEFAULT_LOCALE): KeywordMappings {
+  return { ...BRAND_KEYWORDS, ...getLocalePack(locale).nlp.keywords };
+}
+
+// Which entity each keyword table produces
+const KEYWORD_ENTITY_TYPES: { [K in keyof KeywordMappings]: ParsedEntityType } = {
+  makes: 'make',
+  models: 'model',
+  vehicleTypes: 'vehicleType',
+  conditions: 'condition',
+  fuelTypes: 'fuelType',
+  transmissions: 'transmission',
+  driveTypes: 'driveType',
+  features: 'feature',
+  colors: 'color',
+  slidingDoors: 'slidingDoor',
 };
 
-// Price and number extraction patterns
-const PRICE_PATTERNS = [
-  /(?:under|less than|below|max|maximum)\s*(?:€|euros?|euro)?\s*(\d+(?:,\d{3})*(?:\.\d{2})?)/i,
-  /(?:over|more than|above|min|minimum)\s*(?:€|euros?|euro)?\s*(\d+(?:,\d{3})*(?:\.\d{2})?)/i,
-  /(?:between|from)\s*(?:€|euros?|euro)?\s*(\d+(?:,\d{3})*(?:\.\d{2})?)\s*(?:to|and|-)\s*(?:€|euros?|euro)?\s*(\d+(?:,\d{3})*(?:\.\d{2})?)/i,
-  /(?:€|euros?|euro)?\s*(\d+(?:,\d{3})*(?:\.\d{2})?)/i,
-];
-
-const YEAR_PATTERNS = [
-  /(?:from|after|since)\s*(\d{4})/i,
-  /(?:before|until)\s*(\d{4})/i,
-  /(?:between|from)\s*(\d{4})\s*(?:to|and|-)\s*(\d{4})/i,
-  /(\d{4})/i,
-];
-
-const MILEAGE_PATTERNS = [
-  /(?:under|less than|below)\s*(\d+(?:,\d{3})*)\s*(?:km|kilometers?|miles?|mi)?/i,
-  /(?:over|more than|above)\s*(\d+(?:,\d{3})*)\s*(?:km|kilometers?|miles?|mi)?/i,
-  /(\d+(?:,\d{3})*)\s*(?:km|kilometers?|miles?|mi)/i,
-];
-
-export function parseVoiceCommand(text: string): VoiceCommand {
-  const normalizedText = text.toLowerCase().trim();
-  const entities: Record<string, any> = {};
-  
-  // Extract makes
-  const makes = extractKeywords(normalizedText, KEYWORD_MAPPINGS.makes);
-  if (makes.length > 0) entities.makes = makes;
-  
-  // Extract vehicle types
-  const vehicleTypes = extractKeywords(normalizedText, KEYWORD_MAPPINGS.vehicleTypes);
-  if (vehicleTypes.length > 0) entities.vehicleTypes = vehicleTypes;
-  
-  // Extract conditions
-  const conditions = extractKeywords(normalizedText, KEYWORD_MAPPINGS.conditions);
-  if (conditions.length > 0) entities.conditions = conditions;
-  
-  // Extract fuel types
-  const fuelTypes = extractKeywords(normalizedText, KEYWORD_MAPPINGS.fuelTypes);
-  if (fuelTypes.length > 0) entities.fuelTypes = fuelTypes;
-  
-  // Extract transmissions
-  const transmissions = extractKeywords(normalizedText, KEYWORD_MAPPINGS.transmissions);
-  if (transmissions.length > 0) entities.transmissions = transmissions;
-  
-  // Extract drive types
-  const driveTypes = extractKeywords(normalizedText, KEYWORD_MAPPINGS.driveTypes);
-  if (driveTypes.length > 0) entities.driveTypes = driveTypes;
-  
-  // Extract features
-  const features = extractFeatures(normalizedText);
-  if (Object.keys(features).length > 0) entities.features = features;
-  
-  // Extract colors
-  const colors = extractKeywords(normalizedText, KEYWORD_MAPPINGS.colors);
-  if (colors.length > 0) entities.colors = colors;
-  
-  // Extract price range
-  const priceRange = extractPriceRange(normalizedText);
-  if (priceRange) entities.priceRange = priceRange;
-  
-  // Extract year range
-  const yearRange = extractYearRange(normalizedText);
-  if (yearRange) entities.yearRange = yearRange;
-  
-  // Extract mileage
-  const mileage = extractMileage(normalizedText);
-  if (mileage) entities.mileage = mileage;
-  
-  // Determine intent
-  const intent = determineIntent(normalizedText, entities);
-  
-  return {
-    intent,
-    entities,
-    confidence: calculateConfidence(entities, normalizedText),
+interface KeywordHit {
+  type: ParsedEntityType;
+  value: string | NumericRange | UseCaseMatch;
+}
+
+// A locale pack with its phrase tables compiled for matching
+interface Grammar {
+  nlp: NlpLocale;
+  // The catalogue the matcher was built from; a new catalogue means a new grammar
+  useCases: UseCase[];
+  keywordMatcher: PhraseMatcher<KeywordHit>;
+  negationMatcher: PhraseMatcher<string>;
+  // Ordinals and anaphora, to the position they point at (0 for "it")
+  referenceMatcher: PhraseMatcher<number>;
+}
+
+const grammars = new Map<LocaleCode, Grammar>();
+
+function getGrammar(locale: LocaleCode, useCases: UseCase[]): Grammar {
+  const cached = grammars.get(locale);
+  if (cached?.useCases === useCases) return cached;
+
+  const { nlp } = getLocalePack(locale);
+  const keywords = getKeywordMappings(locale);
+
+  const grammar: Grammar = {
+    nlp,
+    useCases,
+    // Every keyword and sort phrase in one matcher, so the longest phrase wins across
+    // categories ("natural gas" over "gas", "android auto" over "auto")
+    keywordMatcher: createPhraseMatcher<KeywordHit>([
+      ...(Object.keys(keywords) as (keyof KeywordMappings)[]).flatMap(category =>
+        Object.entries<string>(keywords[category]).map(([phrase, value]): [string, KeywordHit] =>
+          [phrase, { type: KEYWORD_ENTITY_TYPES[category], value }]
+        )
+      ),
+      ...nlp.sortPhrases.map(([phrase, value]): [string, KeywordHit] => [phrase, { type: 'sort', value }]),
+      ...nlp.quantityPhrases.map(([phrase, type, value]): [string, KeywordHit] => [phrase, { type, value }]),
+      ...nlp.adjustmentPhrases.map(([phrase, value]): [string, KeywordHit] => [phrase, { type: 'adjustment', value }]),
+      ...useCases.flatMap(({ id, labels, phrases, requirements }) => {
+        const value: UseCaseMatch = { id, label: labels[locale] ?? labels[DEFAULT_LOCALE] ?? id, requirements };
+        return (phrases[locale] ?? []).map((phrase): [string, KeywordHit] => [phrase.toLowerCase(), { type: 'useCase', value }]);
+      }),
+    ]),
+    negationMatcher: createPhraseMatcher(nlp.negationCues.map((cue): [string, string] => [cue, cue])),
+    referenceMatcher: createPhraseMatcher([
+      ...Object.entries(nlp.ordinalWords),
+      ...nlp.anaphora.map((phrase): [string, number] => [phrase, 0]),
+    ]),
   };
+
+  grammars.set(locale, grammar);
+  return grammar;
 }
 
-function extractKeywords(text: string, keywordMap: Record<string, string>): string[] {
-  const found: string[] = [];
-  
-  for (const [keyword, value] of Object.entries(keywordMap)) {
-    if (text.includes(keyword)) {
-      found.push(value);
+// Unqualified numbers mean "at most" for price, mileage and owners and "at least" for everything else
+const DEFAULT_BOUNDS: Record<QuantityType, Bound> = {
+  priceRange: 'max',
+  mileageRange: 'max',
+  yearRange: 'min',
+  powerRange: 'min',
+  seatsRange: 'min',
+  doorsRange: 'min',
+  ownersRange: 'max',
+  huValidityRange: 'min',
+  cubicCapacityRange: 'min',
+};
+
+const QUANTITY_TYPES = Object.keys(DEFAULT_BOUNDS) as readonly ParsedEntityType[];
+
+const CLAUSE_BREAKS = [',', ';', '.', '!', '?'];
+const CURRENCY_SIGNS = ['€', '$', '£'];
+
+const LOOKBACK_TOKENS = 4;
+const MIN_BARE_PRICE = 1000;
+const isYearLike = (value: number) => Number.isInteger(value) && value >= 1950 && value <= new Date().getFullYear() + 1;
+
+// Confidence grows with every clue that backs the reading: a unit or context word, and an explicit bound
+const QUANTITY_BASE_CONFIDENCE = 0.5;
+const QUANTITY_CLUE_CONFIDENCE = 0.2;
+
+// Confidence for a keyword hit; two-letter keywords ("ev", "vw") are more often something else
+const keywordConfidence = (keyword: string) => (keyword.length <= 2 ? 0.6 : 0.9);
+
+const span = (text: string, start: number, end: number): EntitySpan => ({ start, end, text: text.slice(start, end) });
+
+function extractKeywords(text: string, tokens: Token[], consumed: boolean[], grammar: Grammar): ParsedEntities {
+  const seen = new Set<string>();
+
+  return grammar.keywordMatcher.match(tokens, consumed).flatMap(({ value: hit, phrase, startToken, endToken }) => {
+    // Keep the first mention of each value
+    const key = `${hit.type}:${JSON.stringify(hit.value)}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+
+    return [{
+      type: hit.type,
+      value: hit.value,
+      span: span(text, tokens[startToken].start, tokens[endToken - 1].end),
+      confidence: keywordConfidence(phrase),
+    } as ParsedEntity];
+  });
+}
+
+// Largest count that can follow "first" or "last" ("the first three")
+const MAX_REFERENCE_COUNT = 10;
+
+/**
+ * "The second one", "the last one", "it": which of the results read out an
+ * utterance points at. "First" and "last" take a count, so "the first three"
+ * stands for positions 1 to 3 and "the last two" for -2 and -1. The count is
+ * consumed, so it is not read as a quantity.
+ */
+function extractResultReferences(text: string, tokens: Token[], consumed: boolean[], grammar: Grammar): ParsedEntities {
+  return grammar.referenceMatcher.match(tokens, consumed).flatMap(({ value: position, phrase, startToken, endToken }) => {
+    const next = tokens[endToken];
+    const count = next?.kind === 'number' && !consumed[endToken] ? parseNumberToken(next.text) : NaN;
+    const counted = Number.isInteger(count) && count >= 1 && count <= MAX_REFERENCE_COUNT;
+    if (counted) consumed[endToken] = true;
+
+    const positions = counted && Math.abs(position) === 1
+      ? Array.from({ length: count }, (_, i) => (position > 0 ? i + 1 : i - count))
+      : [position];
+    const end = counted ? next.end : tokens[endToken - 1].end;
+
+    return positions.map((value): ParsedEntity => ({
+      type: 'resultReference',
+      value,
+      span: span(text, tokens[startToken].start, end),
+      confidence: keywordConfidence(phrase),
+    }));
+  });
+}
+
+// The comparator phrase ending closest before `index`, looking back no further than `from`.
+// Of phrases ending at the same token the longest wins, so "no more than" is not read as "more than".
+function findLeadingBound(
+  tokens: Token[],
+  from: number,
+  index: number,
+  bounds: [string, Bound][],
+): { bound: Bound; start: number } | null {
+  let best: { bound: Bound; start: number; end: number } | null = null;
+
+  for (let start = index - 1; start >= from; start--) {
+    for (const [phrase, bound] of bounds) {
+      const end = matchWordsAt(tokens, start, phrase.split(' '));
+      if (end === -1 || end > index) continue;
+      if (!best || end > best.end || (end === best.end && start < best.start)) best = { bound, start, end };
     }
   }
-  
-  return [...new Set(found)]; // Remove duplicates
+
+  return best && { bound: best.bound, start: best.start };
 }
 
-function extractFeatures(text: string): Record<string, boolean> {
-  const features: Record<string, boolean> = {};
-  
-  for (const [keyword, feature] of Object.entries(KEYWORD_MAPPINGS.features)) {
-    if (text.includes(keyword)) {
-      features[feature] = true;
-    }
+function findTrailingBound(tokens: Token[], index: number, bounds: [string, Bound][]): { bound: Bound; end: number } | null {
+  for (const [phrase, bound] of bounds) {
+    const end = matchWordsAt(tokens, index, phrase.split(' '));
+    if (end !== -1) return { bound, end };
   }
-  
-  return features;
+  return null;
 }
 
-function extractPriceRange(text: string): { min?: number; max?: number } | null {
-  for (const pattern of PRICE_PATTERNS) {
-    const match = text.match(pattern);
-    if (match) {
-      if (text.includes('under') || text.includes('less than') || text.includes('below') || text.includes('max')) {
-        return { max: parseNumber(match[1]) };
-      } else if (text.includes('over') || text.includes('more than') || text.includes('above') || text.includes('min')) {
-        return { min: parseNumber(match[1]) };
-      } else if (match[2]) {
-        return { min: parseNumber(match[1]), max: parseNumber(match[2]) };
-      } else {
-        return { max: parseNumber(match[1]) }; // Default to max if single number
+/**
+ * Attribute every free number to price, year, mileage or power. Units decide
+ * first ("50,000 km"), then nearby context words ("budget", "registered"),
+ * then the shape of the number: a plausible year is a year, anything from
+ * 1,000 up is a price, and small bare numbers are left alone.
+ */
+function extractQuantities(text: string, tokens: Token[], consumed: boolean[], nlp: NlpLocale): ParsedEntities {
+  const quantities: EntityOfType<QuantityType>[] = [];
+  let lookbackFloor = 0;
+
+  for (let index = 0; index < tokens.length; index++) {
+    if (tokens[index].kind !== 'number' || consumed[index]) continue;
+
+    const first = parseNumberToken(tokens[index].text);
+    let last = index;
+    let second: number | undefined;
+
+    // "20,000 to 30,000", "2018-2021", "between 40k and 60k"
+    const joinerIndex = CURRENCY_SIGNS.includes(tokens[index + 1]?.text) ? index + 2 : index + 1;
+    if (nlp.rangeJoiners.includes(tokens[joinerIndex]?.text)) {
+      const secondIndex = CURRENCY_SIGNS.includes(tokens[joinerIndex + 1]?.text) ? joinerIndex + 2 : joinerIndex + 1;
+      if (tokens[secondIndex]?.kind === 'number' && !consumed[secondIndex]) {
+        second = parseNumberToken(tokens[secondIndex].text);
+        last = secondIndex;
       }
     }
+
+    // Never look back past the previous quantity or a clause break
+    let windowStart = Math.max(lookbackFloor, index - LOOKBACK_TOKENS);
+    for (let i = index - 1; i >= windowStart; i--) {
+      if (CLAUSE_BREAKS.includes(tokens[i].text)) {
+        windowStart = i + 1;
+        break;
+      }
+    }
+    const before = tokens.slice(windowStart, index);
+
+    // Units may hang off the number with a hyphen: "5-door", "7-Sitzer"
+    let afterIndex = tokens[last + 1]?.text === '-' ? last + 2 : last + 1;
+    // or follow a filler word: "2 previous owners"
+    let fillerEnd = afterIndex;
+    while (nlp.unitFillers.includes(tokens[fillerEnd]?.text)) fillerEnd++;
+    if (fillerEnd > afterIndex && nlp.unitWords[tokens[fillerEnd]?.text ?? '']) afterIndex = fillerEnd;
+    const unitAfter = nlp.unitWords[tokens[afterIndex]?.text ?? ''];
+    const unitScale = nlp.unitScales[tokens[afterIndex]?.text ?? ''];
+    const unitBefore = before.map(token => nlp.unitWords[token.text]).filter(Boolean).pop();
+    const contextType = before.map(token => nlp.contextWords[token.text]).filter(Boolean).pop();
+    // "2 Jahre TÜV": a scale unit followed by the word that says what it measures
+    const contextAfter = unitScale && nlp.contextWords[tokens[afterIndex + 1]?.text ?? ''] === unitScale.type
+      ? unitScale.type
+      : undefined;
+    const hinted = unitAfter ?? unitBefore ?? contextType ?? contextAfter;
+
+    let type: QuantityType | undefined = hinted;
+    if (!type && isYearLike(first) && (second === undefined || isYearLike(second))) type = 'yearRange';
+    else if (!type && first >= MIN_BARE_PRICE) type = 'priceRange';
+    if (!type) continue;
+
+    // kW read as hp, litres as ccm, years of TÜV as months
+    const scale = unitScale?.type === type ? unitScale.factor : 1;
+    const unitEnd = unitAfter || scale !== 1 ? afterIndex + 1 + (contextAfter ? 1 : 0) : last + 1;
+    const leading = findLeadingBound(tokens, windowStart, index, nlp.leadingBounds);
+    const trailing = second === undefined ? findTrailingBound(tokens, unitEnd, nlp.trailingBounds) : null;
+
+    const toValue = (value: number) => Math.round(value * scale);
+
+    let value: NumericRange;
+    if (second !== undefined) {
+      value = { min: toValue(Math.min(first, second)), max: toValue(Math.max(first, second)) };
+    } else {
+      const bound = trailing?.bound ?? leading?.bound ?? DEFAULT_BOUNDS[type];
+      value = { [bound]: toValue(first) };
+    }
+
+    const explicitBound = second !== undefined || !!leading || !!trailing;
+    const spanStart = Math.min(leading?.start ?? index, index - (CURRENCY_SIGNS.includes(tokens[index - 1]?.text) ? 1 : 0));
+    const spanEnd = trailing?.end ?? unitEnd;
+
+    quantities.push({
+      type,
+      value,
+      span: span(text, tokens[spanStart].start, tokens[spanEnd - 1].end),
+      confidence: QUANTITY_BASE_CONFIDENCE
+        + (hinted ? QUANTITY_CLUE_CONFIDENCE : 0)
+        + (explicitBound ? QUANTITY_CLUE_CONFIDENCE : 0),
+    } as EntityOfType<QuantityType>);
+
+    consumed.fill(true, index, spanEnd);
+    lookbackFloor = spanEnd;
+    index = spanEnd - 1;
   }
-  return null;
+
+  return mergeQuantities(text, quantities);
 }
 
-function extractYearRange(text: string): { min?: number; max?: number } | null {
-  for (const pattern of YEAR_PATTERNS) {
-    const match = text.match(pattern);
-    if (match) {
-      if (text.includes('from') || text.includes('after') || text.includes('since')) {
-        return { min: parseInt(match[1]) };
-      } else if (text.includes('before') || text.includes('until')) {
-        return { max: parseInt(match[1]) };
-      } else if (match[2]) {
-        return { min: parseInt(match[1]), max: parseInt(match[2]) };
-      } else {
-        return { min: parseInt(match[1]) };
-      }
+// "over 20,000 and under 40,000 euros" is one price range, not two
+function mergeQuantities(text: string, quantities: EntityOfType<QuantityType>[]): ParsedEntities {
+  const merged = new Map<QuantityType, EntityOfType<QuantityType>>();
+
+  for (const quantity of quantities) {
+    const existing = merged.get(quantity.type);
+    if (!existing) {
+      merged.set(quantity.type, quantity);
+      continue;
     }
+
+    existing.value = { ...existing.value, ...quantity.value };
+    existing.span = span(text, existing.span.start, quantity.span.end);
+    existing.confidence = Math.min(existing.confidence, quantity.confidence);
   }
-  return null;
+
+  return [...merged.values()];
 }
 
-function extractMileage(text: string): { min?: number; max?: number } | null {
-  for (const pattern of MILEAGE_PATTERNS) {
-    const match = text.match(pattern);
-    if (match) {
-      const value = parseNumber(match[1]);
-      if (text.includes('under') || text.includes('less than') || text.includes('below')) {
-        return { max: value };
-      } else if (text.includes('over') || text.includes('more than') || text.includes('above')) {
-        return { min: value };
-      } else {
-        return { max: value }; // Default to max for single number
-      }
+const isKeywordEntity = (entity: ParsedEntity) =>
+  entity.type !== 'sort' && entity.type !== 'adjustment' && entity.type !== 'resultReference' && !QUANTITY_TYPES.includes(entity.type);
+
+// A cue only reaches an entity a couple of filler words away ("not a manual", "don't want any diesel")
+const MAX_NEGATION_GAP_WORDS = 2;
+
+const wordsBetween = (tokens: Token[], start: number, end: number) =>
+  tokens.filter(token => token.start >= start && token.end <= end);
+
+/**
+ * Mark entities that fall inside a negation's scope. The scope starts at the
+ * first entity after the cue and continues through a coordinated list
+ * ("no diesel or petrol", "anything but BMW, Audi or Mercedes"); any other
+ * word ends it, so "not BMW but Audi" only rules out BMW.
+ */
+function markNegations(tokens: Token[], entities: ParsedEntities, grammar: Grammar): void {
+  const { nlp } = grammar;
+  const keywords = entities.filter(isKeywordEntity).sort((a, b) => a.span.start - b.span.start);
+  const cues = grammar.negationMatcher.match(tokens, new Array<boolean>(tokens.length).fill(false));
+
+  for (const cue of cues) {
+    // "no more than 30,000" limits a price, it does not negate anything
+    if (nlp.negationFalseFriends.some(phrase => matchWordsAt(tokens, cue.startToken, phrase.split(' ')) !== -1)) continue;
+
+    const cueEnd = tokens[cue.endToken - 1].end;
+    const firstIndex = keywords.findIndex(entity => entity.span.start >= cueEnd);
+    if (firstIndex === -1) continue;
+
+    const gap = wordsBetween(tokens, cueEnd, keywords[firstIndex].span.start);
+    if (gap.some(token => CLAUSE_BREAKS.includes(token.text)) || gap.length > MAX_NEGATION_GAP_WORDS) continue;
+
+    keywords[firstIndex].negated = true;
+
+    for (let i = firstIndex + 1; i < keywords.length; i++) {
+      const previous = keywords[i - 1];
+      const between = wordsBetween(tokens, previous.span.end, keywords[i].span.start).map(token => token.text);
+      const [connector, ...filler] = between[0] === ',' ? between.slice(1) : between;
+      // A bare comma only continues a list of the same kind ("BMW, Audi"), not "no diesel, BMW please"
+      const continues = connector === undefined
+        ? between.length === 1 && keywords[i].type === previous.type
+        : nlp.listConnectors.includes(connector) && filler.length <= MAX_NEGATION_GAP_WORDS
+          && filler.every(word => nlp.articles.includes(word));
+      if (!continues) break;
+      keywords[i].negated = true;
     }
   }
-  return null;
 }
 
-function parseNumber(str: string): number {
-  return parseInt(str.replace(/,/g, ''));
+export function parseVoiceCommand(
+  text: string,
+  locale: LocaleCode = DEFAULT_LOCALE,
+  useCases: UseCase[] = useCaseCatalogue.list(),
+): VoiceCommand {
+  const grammar = getGrammar(locale, useCases);
+  const { nlp } = grammar;
+  const tokens = normalizeNumbers(tokenizeUtterance(text), nlp);
+  // Tokens claimed by a keyword phrase ("model 3") are not read as numbers
+  const consumed = new Array<boolean>(tokens.length).fill(false);
+
+  const keywords = extractKeywords(text, tokens, consumed, grammar);
+  const references = extractResultReferences(text, tokens, consumed, grammar);
+  const quantities = extractQuantities(text, tokens, consumed, nlp);
+  // "cheaper than 30,000" is a price limit, not a nudge to the one already set
+  const insideQuantity = (entity: ParsedEntity) =>
+    quantities.some(quantity => quantity.span.start <= entity.span.start && entity.span.end <= quantity.span.end);
+
+  const entities: ParsedEntities = [
+    ...keywords.filter(entity => entity.type !== 'adjustment' || !insideQuantity(entity)),
+    ...references,
+    ...quantities,
+  ].sort((a, b) => a.span.start - b.span.start);
+
+  markNegations(tokens, entities, grammar);
+
+  // Determine intent
+  const intent = determineIntent(tokens, entities, nlp);
+
+  return {
+    intent,
+    entities,
+    confidence: calculateConfidence(entities, tokens, nlp),
+  };
+}
+
+export function getEntities<T extends ParsedEntityType>(entities: ParsedEntities, type: T): EntityOfType<T>[] {
+  return entities.filter((entity): entity is EntityOfType<T> => entity.type === type);
 }
 
-function determineIntent(text: string, entities: Record<string, any>): string {
-  const lowerText = text.toLowerCase();
+export function getEntity<T extends ParsedEntityType>(entities: ParsedEntities, type: T): EntityOfType<T> | undefined {
+  return getEntities(entities, type)[0];
+}
+
+function determineIntent(tokens: Token[], entities: ParsedEntities, nlp: NlpLocale): string {
+  const mentions = (key: keyof NlpLocale['intentPhrases']) =>
+    nlp.intentPhrases[key].some(phrase => hasPhrase(tokens, phrase));
+  // "The second one" points at a result; it is not something to filter on
+  const references = getEntities(entities, 'resultReference');
+  const filters = entities.filter(entity => entity.type !== 'resultReference');
+  // "No more than 30,000" sets a limit; its "no" turns nothing down
+  const answersWithNo = filters.length === 0 && !nlp.negationFalseFriends.some(phrase => hasPhrase(tokens, phrase));
   
   // Wishlist intents
-  if (lowerText.includes('wishlist') || lowerText.includes('add to list') || lowerText.includes('save for later') || lowerText.includes('keep looking') || lowerText.includes('notify me')) {
+  if (mentions('wishlist')) {
     return 'wishlist_request';
   }
   
   // External search intents
-  if (lowerText.includes('search everywhere') || lowerText.includes('look elsewhere') || lowerText.includes('external') || lowerText.includes('other dealer') || lowerText.includes('autotrader') || lowerText.includes('outside')) {
+  if (mentions('external')) {
     return 'external_search';
   }
+
+  // Dialogue acts on the filters collected so far; "instead" and "remove" need something to act on
+  if (mentions('undo')) {
+    return 'undo';
+  } else if (mentions('summary')) {
+    return 'summarize_filters';
+  } else if (filters.length > 0 && mentions('remove')) {
+    return 'remove_filters';
+  } else if (filters.length > 0 && mentions('replace')) {
+    return 'replace_filters';
+  }
+
+  // Browsing the results; "go back a page" and "go back to my search" before "go back"
+  if (mentions('previousPage')) {
+    return 'previous_page';
+  } else if (mentions('nextPage')) {
+    return 'next_page';
+  } else if (mentions('backToSearch')) {
+    return 'return_to_search';
+  } else if (mentions('goBack')) {
+    return 'go_back';
+  } else if (mentions('readResults')) {
+    return 'read_results';
+  }
   
-  // Search intents
-  if (lowerText.includes('find') || lowerText.includes('search') || lowerText.includes('show') || lowerText.includes('looking for')) {
+  // Search intents; "show me the first three" reads results out, "show me the second one" opens it
+  if (mentions('search') && filters.length === 0 && references.length > 0) {
+    return references.length === 1 ? 'car_details' : 'read_results';
+  } else if (mentions('search')) {
     return 'search_cars';
-  } else if (lowerText.includes('compare') || lowerText.includes('comparison')) {
+  } else if (mentions('compare')) {
     return 'compare_cars';
-  } else if (lowerText.includes('detail') || lowerText.includes('more info') || lowerText.includes('tell me about')) {
+  } else if (mentions('details')) {
     return 'car_details';
-  } else if (lowerText.includes('reset') || lowerText.includes('clear') || lowerText.includes('start over')) {
+  } else if (mentions('reset')) {
     return 'reset_filters';
-  } else if (lowerText.includes('yes') || lowerText.includes('correct') || lowerText.includes('right')) {
+  } else if (filters.some(entity => entity.negated)) {
+    // "no diesel" narrows the search rather than rejecting the last suggestion
+    return 'specify_filters';
+  } else if (answersWithNo && mentions('dontCare')) {
+    // Answers the last question, and comes before "no" for "no preference"
+    return 'dont_care';
+  } else if (mentions('confirm')) {
     return 'confirm';
-  } else if (lowerText.includes('no') || lowerText.includes('wrong') || lowerText.includes('change')) {
+  } else if (answersWithNo && mentions('deny')) {
     return 'deny';
-  } else if (Object.keys(entities).length > 0) {
+  } else if (filters.length > 0) {
     return 'specify_filters';
   } else {
     return 'unknown';
   }
 }
 
-function calculateConfidence(entities: Record<string, any>, text: string): number {
+function calculateConfidence(entities: ParsedEntities, tokens: Token[], nlp: NlpLocale): number {
   let confidence = 0.5; // Base confidence
   
-  // Increase confidence based on number of recognized entities
-  confidence += Object.keys(entities).length * 0.1;
+  // Increase confidence based on the kinds of entities recognized
+  confidence += new Set(entities.map(entity => entity.type)).size * 0.1;
   
   // Increase confidence for specific keywords
-  const confidenceKeywords = ['find', 'search', 'looking for', 'want', 'need', 'show me'];
-  for (const keyword of confidenceKeywords) {
-    if (text.toLowerCase().includes(keyword)) {
-      confidence += 0.2;
-      break;
-    }
+  if (nlp.confidencePhrases.some(phrase => hasPhrase(tokens, phrase))) {
+    confidence += 0.2;
   }
   
   return Math.min(confidence, 1.0);
 }
 
-// Apply parsed entities to filters
-export function applyEntitiesToFilters(entities: Record<string, any>, currentFilters: Partial<CarFilters>): Partial<CarFilters> {
-  const updatedFilters = { ...currentFilters };
-  
-  if (entities.makes) {
-    updatedFilters.makes = [...(updatedFilters.makes || []), ...entities.makes];
-  }
-  
-  if (entities.vehicleTypes) {
-    updatedFilters.vehicleTypes = [...(updatedFilters.vehicleTypes || []), ...entities.vehicleTypes];
-  }
-  
-  if (entities.conditions) {
-    updatedFilters.conditions = [...(updatedFilters.conditions || []), ...entities.conditions];
-  }
-  
-  if (entities.fuelTypes) {
-    updatedFilters.fuelTypes = [...(updatedFilters.fuelTypes || []), ...entities.fuelTypes];
-  }
-  
-  if (entities.transmissions) {
-    updatedFilters.transmissions = [...(updatedFilters.transmissions || []), ...entities.transmissions];
-  }
-  
-  if (entities.driveTypes) {
-    updatedFilters.driveTypes = [...(updatedFilters.driveTypes || []), ...entities.driveTypes];
-  }
-  
-  if (entities.colors) {
-    updatedFilters.exteriorColors = [...(updatedFilters.exteriorColors || []), ...entities.colors];
-  }
-  
-  if (entities.features) {
-    Object.entries(entities.features).forEach(([key, value]) => {
-      (updatedFilters as any)[key] = value;
-    });
-  }
-  
-  if (entities.priceRange) {
-    if (entities.priceRange.min !== undefined) {
-      updatedFilters.priceMin = entities.priceRange.min;
-    }
-    if (entities.priceRange.max !== undefined) {
-      updatedFilters.priceMax = entities.priceRange.max;
+type ArrayFilterKey =
+  | 'makes' | 'models' | 'vehicleTypes' | 'conditions' | 'fuelTypes' | 'transmissions' | 'driveTypes' | 'exteriorColors'
+  | 'excludeMakes' | 'excludeModels' | 'excludeVehicleTypes' | 'excludeFuelTypes' | 'excludeTransmissions' | 'excludeExteriorColors'
+  | 'preferredUseCases';
+
+const appendValue = (filters: Partial<CarFilters>, key: ArrayFilterKey, value: string) => {
+  const current = filters[key] || [];
+  if (!current.includes(value)) filters[key] = [...current, value];
+};
+
+const removeValue = (filters: Partial<CarFilters>, key: ArrayFilterKey, value: string) => {
+  if (filters[key]?.includes(value)) filters[key] = filters[key]!.filter(item => item !== value);
+};
+
+// Entity types a user can rule out, with the filters that record the exclusion
+export const EXCLUDABLE_ENTITY_TYPES = ['make', 'model', 'vehicleType', 'fuelType', 'transmission', 'color', 'slidingDoor'] as const;
+
+/**
+ * Adds the value to the include list, or to the exclude list when negated,
+ * taking it off the opposite list so "anything but BMW" undoes an earlier "BMW".
+ * Negations without an exclude list ("not used") are dropped rather than
+ * applied as if the user had asked for them.
+ */
+const listApplier = (key: ArrayFilterKey, excludeKey?: ArrayFilterKey) =>
+  (filters: Partial<CarFilters>, { value, negated }: { value: string; negated?: boolean }) => {
+    if (!negated) {
+      appendValue(filters, key, value);
+      if (excludeKey) removeValue(filters, excludeKey, value);
+    } else if (excludeKey) {
+      appendValue(filters, excludeKey, value);
+      removeValue(filters, key, value);
     }
+  };
+
+const applyRange = (
+  filters: Partial<CarFilters>,
+  minKey: 'priceMin' | 'yearMin' | 'mileageMin' | 'powerMin' | 'seatsMin' | 'cubicCapacityMin',
+  maxKey: 'priceMax' | 'yearMax' | 'mileageMax' | 'powerMax' | 'seatsMax' | 'cubicCapacityMax',
+  range: NumericRange,
+) => {
+  if (range.min !== undefined) filters[minKey] = range.min;
+  if (range.max !== undefined) filters[maxKey] = range.max;
+};
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+interface Adjustment {
+  key: 'priceMax' | 'yearMin' | 'mileageMax' | 'powerMin';
+  adjust: (value: number) => number;
+  // What the limit is measured on, for moving away from the results when no limit is set
+  carValue: (car: Car) => number;
+}
+
+// How far "cheaper", "newer" and the like move the limit they refer to
+const ADJUSTMENTS: Record<FilterAdjustment, Adjustment> = {
+  cheaper: { key: 'priceMax', adjust: price => roundTo(price * 0.9, 500), carValue: car => car.price },
+  pricier: { key: 'priceMax', adjust: price => roundTo(price * 1.1, 500), carValue: car => car.price },
+  newer: { key: 'yearMin', adjust: year => year + 1, carValue: car => car.firstRegistration },
+  older: { key: 'yearMin', adjust: year => year - 1, carValue: car => car.firstRegistration },
+  lessMileage: { key: 'mileageMax', adjust: mileage => roundTo(mileage * 0.8, 1000), carValue: car => car.mileage },
+  morePower: { key: 'powerMin', adjust: power => roundTo(power * 1.2, 10), carValue: car => car.power },
+};
+
+/**
+ * Without a limit to move, "a bit cheaper" starts from the cars on show: an
+ * upper limit from the dearest of them, a lower one from the cheapest, which
+ * the adjustment then moves as usual. Returns the filters unchanged when
+ * nothing is shown or every adjusted limit is already set.
+ */
+export function anchorAdjustments(entities: ParsedEntities, filters: Partial<CarFilters>, shown: Car[]): Partial<CarFilters> {
+  if (shown.length === 0) return filters;
+
+  const anchored = { ...filters };
+  for (const { value } of getEntities(entities, 'adjustment')) {
+    const { key, carValue } = ADJUSTMENTS[value];
+    if (anchored[key]) continue;
+
+    const values = shown.map(carValue);
+    anchored[key] = key.endsWith('Max') ? Math.max(...values) : Math.min(...values);
   }
-  
-  if (entities.yearRange) {
-    if (entities.yearRange.min !== undefined) {
-      updatedFilters.yearMin = entities.yearRange.min;
-    }
-    if (entities.yearRange.max !== undefined) {
-      updatedFilters.yearMax = entities.yearRange.max;
+  return anchored;
+}
+
+/**
+ * How each entity type changes the filters. Keyed by every entity type, so a
+ * new entity does not compile until it says what it filters on.
+ */
+const ENTITY_APPLIERS: { [T in ParsedEntityType]: (filters: Partial<CarFilters>, entity: EntityOfType<T>) => void } = {
+  make: listApplier('makes', 'excludeMakes'),
+  model: listApplier('models', 'excludeModels'),
+  vehicleType: listApplier('vehicleTypes', 'excludeVehicleTypes'),
+  condition: listApplier('conditions'),
+  fuelType: listApplier('fuelTypes', 'excludeFuelTypes'),
+  transmission: listApplier('transmissions', 'excludeTransmissions'),
+  driveType: listApplier('driveTypes'),
+  color: listApplier('exteriorColors', 'excludeExteriorColors'),
+  // Feature filters can only require equipment, so "without a sunroof" leaves them alone
+  feature: (filters, { value, negated }) => { if (!negated) filters[value] = true; },
+  priceRange: (filters, { value }) => applyRange(filters, 'priceMin', 'priceMax', value),
+  yearRange: (filters, { value }) => applyRange(filters, 'yearMin', 'yearMax', value),
+  mileageRange: (filters, { value }) => applyRange(filters, 'mileageMin', 'mileageMax', value),
+  powerRange: (filters, { value }) => applyRange(filters, 'powerMin', 'powerMax', value),
+  seatsRange: (filters, { value }) => applyRange(filters, 'seatsMin', 'seatsMax', value),
+  cubicCapacityRange: (filters, { value }) => applyRange(filters, 'cubicCapacityMin', 'cubicCapacityMax', value),
+  // The door filter only knows two buckets
+  doorsRange: (filters, { value }) => { filters.doors = (value.min ?? value.max) <= 3 ? '2-3' : '4-5'; },
+  // "no more than two owners"; a lower limit on owners is nothing anyone asks for
+  ownersRange: (filters, { value }) => {
+    if (value.max !== undefined) filters.numberOfOwners = value.max >= 4 ? '4+' : String(Math.max(value.max, 1)) as '1' | '2' | '3';
+  },
+  huValidityRange: (filters, { value }) => { if (value.min !== undefined) filters.huValidMonths = value.min; },
+  slidingDoor: (filters, { negated }) => { filters.slidingDoor = negated ? 'no' : 'yes'; },
+  // Use cases fill in around everything else once the other entities are applied, see applyUseCases
+  useCase: () => {},
+  adjustment: (filters, { value }) => {
+    const { key, adjust } = ADJUSTMENTS[value];
+    if (filters[key]) filters[key] = adjust(filters[key]);
+  },
+  // Result order is not a filter; the voice assistant hands it to the inventory separately
+  sort: () => {},
+  // Points at a result the assistant read out, see resolveReferences
+  resultReference: () => {},
+};
+
+// A zero, "any" or empty list leaves a filter open, the same as not setting it
+const isUnset = (value: unknown) => !value || value === 'any' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * A use case ("a family car") only fills filters nothing more specific has
+ * set, in this utterance or an earlier one. Requirements of every use case
+ * mentioned go from the most to the least essential, so when two use cases
+ * want the same filter the weightier requirement wins. Soft requirements
+ * (a sliding door for a family) are not filters at all: the use case is
+ * remembered and ranks the results instead. "Not for towing" adds nothing.
+ */
+function applyUseCases(filters: Partial<CarFilters>, useCases: EntityOfType<'useCase'>[]): void {
+  const wanted = useCases.filter(entity => !entity.negated);
+  const requirements = wanted
+    .flatMap(entity => entity.value.requirements)
+    .filter(requirement => !isSoftRequirement(requirement))
+    .sort((a, b) => b.weight - a.weight);
+
+  for (const { value } of wanted) appendValue(filters, 'preferredUseCases', value.id);
+
+  for (const requirement of requirements) {
+    for (const [key, value] of Object.entries(requirement.filters) as [keyof CarFilters, unknown][]) {
+      if (isUnset(filters[key])) Object.assign(filters, { [key]: Array.isArray(value) ? [...value] : value });
     }
   }
-  
-  if (entities.mileage) {
-    if (entities.mileage.min !== undefined) {
-      updatedFilters.mileageMin = entities.mileage.min;
-    }
-    if (entities.mileage.max !== undefined) {
-      updatedFilters.mileageMax = entities.mileage.max;
-    }
+}
+
+// Apply parsed entities to filters
+export function applyEntitiesToFilters(entities: ParsedEntities, currentFilters: Partial<CarFilters>): Partial<CarFilters> {
+  const updatedFilters = { ...currentFilters };
+
+  for (const entity of entities) {
+    const apply = ENTITY_APPLIERS[entity.type] as (filters: Partial<CarFilters>, entity: ParsedEntity) => void;
+    apply(updatedFilters, entity);
   }
-  
+
+  applyUseCases(updatedFilters, getEntities(entities, 'useCase'));
   return updatedFilters;
-}
\ No newline at end of file
+}
+
+const listRemover = (key: ArrayFilterKey, excludeKey?: ArrayFilterKey) =>
+  (filters: Partial<CarFilters>, { value }: { value: string }) => {
+    removeValue(filters, key, value);
+    if (excludeKey) removeValue(filters, excludeKey, value);
+  };
+
+const keyRemover = (...keys: (keyof CarFilters)[]) => (filters: Partial<CarFilters>) => {
+  for (const key of keys) delete filters[key];
+};
+
+/**
+ * How "remove" takes back what an entity set: the value named for lists and
+ * equipment ("drop the BMW", "forget the sunroof"), the whole limit for
+ * everything else ("remove the 30,000 limit").
+ */
+const ENTITY_REMOVERS: { [T in ParsedEntityType]: (filters: Partial<CarFilters>, entity: EntityOfType<T>) => void } = {
+  make: listRemover('makes', 'excludeMakes'),
+  model: listRemover('models', 'excludeModels'),
+  vehicleType: listRemover('vehicleTypes', 'excludeVehicleTypes'),
+  condition: listRemover('conditions'),
+  fuelType: listRemover('fuelTypes', 'excludeFuelTypes'),
+  transmission: listRemover('transmissions', 'excludeTransmissions'),
+  driveType: listRemover('driveTypes'),
+  color: listRemover('exteriorColors', 'excludeExteriorColors'),
+  feature: (filters, { value }) => { delete filters[value]; },
+  priceRange: keyRemover('priceMin', 'priceMax'),
+  yearRange: keyRemover('yearMin', 'yearMax'),
+  mileageRange: keyRemover('mileageMin', 'mileageMax'),
+  powerRange: keyRemover('powerMin', 'powerMax'),
+  seatsRange: keyRemover('seatsMin', 'seatsMax'),
+  cubicCapacityRange: keyRemover('cubicCapacityMin', 'cubicCapacityMax'),
+  doorsRange: keyRemover('doors'),
+  ownersRange: keyRemover('numberOfOwners'),
+  huValidityRange: keyRemover('huValidMonths'),
+  slidingDoor: keyRemover('slidingDoor'),
+  // Everything the use case asks for goes, whoever set it
+  useCase: (filters, { value }) => {
+    for (const { filters: wanted } of value.requirements) keyRemover(...(Object.keys(wanted) as (keyof CarFilters)[]))(filters);
+    removeValue(filters, 'preferredUseCases', value.id);
+  },
+  // A nudge is taken back with "undo"
+  adjustment: () => {},
+  sort: () => {},
+  resultReference: () => {},
+};
+
+// "Remove the BMW", "forget about diesel"
+export function removeEntitiesFromFilters(entities: ParsedEntities, currentFilters: Partial<CarFilters>): Partial<CarFilters> {
+  const updatedFilters = { ...currentFilters };
+
+  for (const entity of entities) {
+    const remove = ENTITY_REMOVERS[entity.type] as (filters: Partial<CarFilters>, entity: ParsedEntity) => void;
+    remove(updatedFilters, entity);
+  }
+
+  return updatedFilters;
+}
+
+// A filter already set, as if the user had just asked for it
+const filterEntity = <T extends ParsedEntityType>(type: T, value: EntityOfType<T>['value'], negated = false) =>
+  ({ type, value, span: span(String(value), 0, String(value).length), confidence: 1, ...(negated && { negated }) }) as EntityOfType<T>;
+
+const listEntities = <T extends ParsedEntityType>(type: T, key: ArrayFilterKey, excludeKey?: ArrayFilterKey) =>
+  (filters: Partial<CarFilters>) => [
+    ...(filters[key] ?? []).map(value => filterEntity(type, value as EntityOfType<T>['value'])),
+    ...((excludeKey && filters[excludeKey]) || []).map(value => filterEntity(type, value as EntityOfType<T>['value'], true)),
+  ];
+
+const rangeEntities = <T extends QuantityType>(type: T, min: number | undefined, max: number | undefined) =>
+  (min || max ? [filterEntity(type, { ...(min && { min }), ...(max && { max }) } as EntityOfType<T>['value'])] : []);
+
+/**
+ * The filters read back as entities, the reverse of ENTITY_APPLIERS. Use cases
+ * and nudges are not read back; the filters they set are.
+ */
+const ENTITY_READERS: { [T in ParsedEntityType]: (filters: Partial<CarFilters>) => EntityOfType<T>[] } = {
+  make: listEntities('make', 'makes', 'excludeMakes'),
+  model: listEntities('model', 'models', 'excludeModels'),
+  vehicleType: listEntities('vehicleType', 'vehicleTypes', 'excludeVehicleTypes'),
+  condition: listEntities('condition', 'conditions'),
+  fuelType: listEntities('fuelType', 'fuelTypes', 'excludeFuelTypes'),
+  transmission: listEntities('transmission', 'transmissions', 'excludeTransmissions'),
+  driveType: listEntities('driveType', 'driveTypes'),
+  color: listEntities('color', 'exteriorColors', 'excludeExteriorColors'),
+  feature: filters => FEATURE_FILTER_KEYS.filter(key => filters[key]).map(key => filterEntity('feature', key)),
+  priceRange: ({ priceMin, priceMax }) => rangeEntities('priceRange', priceMin, priceMax),
+  yearRange: ({ yearMin, yearMax }) => rangeEntities('yearRange', yearMin, yearMax),
+  mileageRange: ({ mileageMin, mileageMax }) => rangeEntities('mileageRange', mileageMin, mileageMax),
+  powerRange: ({ powerMin, powerMax }) => rangeEntities('powerRange', powerMin, powerMax),
+  seatsRange: ({ seatsMin, seatsMax }) => rangeEntities('seatsRange', seatsMin, seatsMax),
+  cubicCapacityRange: ({ cubicCapacityMin, cubicCapacityMax }) =>
+    rangeEntities('cubicCapacityRange', cubicCapacityMin, cubicCapacityMax),
+  doorsRange: ({ doors }) => (doors === '2-3' ? rangeEntities('doorsRange', undefined, 3)
+    : doors === '4-5' ? rangeEntities('doorsRange', 4, undefined) : []),
+  ownersRange: ({ numberOfOwners }) =>
+    (numberOfOwners && numberOfOwners !== 'any' && numberOfOwners !== '4+' ? rangeEntities('ownersRange', undefined, Number(numberOfOwners)) : []),
+  huValidityRange: ({ huValidMonths }) => rangeEntities('huValidityRange', huValidMonths, undefined),
+  // "No sliding door" has no words outside the utterance it was said in, so only the wish for one is read back
+  slidingDoor: ({ slidingDoor }) => (slidingDoor === 'yes' ? [filterEntity('slidingDoor', 'yes')] : []),
+  useCase: () => [],
+  adjustment: () => [],
+  sort: () => [],
+  resultReference: () => [],
+};
+
+const readEntities = (filters: Partial<CarFilters>, type: ParsedEntityType) =>
+  (ENTITY_READERS[type] as (filters: Partial<CarFilters>) => ParsedEntity[])(filters);
+
+// What has been asked for so far, for "what have I set?"
+export function entitiesFromFilters(filters: Partial<CarFilters>): ParsedEntities {
+  return (Object.keys(ENTITY_READERS) as ParsedEntityType[]).flatMap(type => readEntities(filters, type));
+}
+
+/**
+ * "Actually make it Audi instead": what is named replaces everything of the
+ * same kind asked for so far rather than adding to it. Values ruled out on the
+ * way ("Audi instead of BMW") are excluded as usual.
+ */
+export function replaceEntitiesInFilters(entities: ParsedEntities, currentFilters: Partial<CarFilters>): Partial<CarFilters> {
+  const replacedTypes = new Set(entities.filter(entity => !entity.negated).map(entity => entity.type));
+  const previous = [...replacedTypes].flatMap(type => readEntities(currentFilters, type)).filter(entity => !entity.negated);
+
+  return applyEntitiesToFilters(entities, removeEntitiesFromFilters(previous, currentFilters));
+}
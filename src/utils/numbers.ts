@@ -0,0 +1,179 @@
+// Number normaliser for the voice parser. Speech recognition writes the same
+// amount many ways ("50k", "fifty thousand", "€45.000", "1,5 Mio"); everything
+// is turned into plain number tokens before the extractors run.
+import type { NlpLocale, NumberWords } from '@/locales/types';
+import { Token } from './tokenizer';
+
+type NumberGrammar = Pick<NlpLocale, 'numberWords' | 'articles' | 'rangeJoiners'>;
+
+// Two spelled-out numbers in a row that read as a year: "twenty twenty", "nineteen ninety nine"
+const YEAR_CENTURIES = [19, 20];
+
+/**
+ * Read a number token: "50,000" and "50.000" are thousands, "2.5" and "2,5"
+ * are decimals, and a trailing "k" multiplies by a thousand ("50k").
+ */
+export function parseNumberToken(token: string): number {
+  const thousands = token.endsWith('k') ? 1000 : 1;
+  const digits = token.replace(/k$/, '');
+
+  const value = /^\d{1,3}(?:[.,]\d{3})+$/.test(digits)
+    ? Number(digits.replace(/[.,]/g, ''))
+    : Number(digits.replace(',', '.'));
+
+  return value * thousands;
+}
+
+// Split a word into number parts, longest part first: "fünfundzwanzig" -> fünf, und, zwanzig
+function splitNumberWord(word: string, numberWords: NumberWords): string[] | null {
+  const parts = [...Object.keys(numberWords.values), ...Object.keys(numberWords.multipliers), ...numberWords.joiners]
+    .sort((a, b) => b.length - a.length);
+  const found: string[] = [];
+
+  for (let rest = word; rest.length > 0;) {
+    const part = parts.find(candidate => rest.startsWith(candidate));
+    if (!part) return null;
+    found.push(part);
+    rest = rest.slice(part.length);
+  }
+
+  const joiners = new Set(numberWords.joiners);
+  if (joiners.has(found[0]) || joiners.has(found[found.length - 1])) return null;
+  return found;
+}
+
+// A number token built from other tokens, remembering how it was said
+interface NumberToken extends Token {
+  // The thousand or million the amount ended on, so "forty to fifty k" can share it
+  scale?: number;
+  spelled?: boolean;
+}
+
+const numberToken = (value: number, first: Token, last: Token, extra: Partial<NumberToken> = {}): NumberToken => ({
+  text: String(Math.round(value * 100) / 100),
+  start: first.start,
+  end: last.end,
+  kind: 'number',
+  ...extra,
+});
+
+// "fifty thousand", "fünfundzwanzigtausend" -> one number token
+function readNumberWords(tokens: Token[], { numberWords, articles }: NumberGrammar): NumberToken[] {
+  const result: NumberToken[] = [];
+
+  for (let index = 0; index < tokens.length;) {
+    let total = 0;
+    let current = 0;
+    let lastValue: number | undefined;
+    let scale: number | undefined;
+    let end = index;
+
+    for (; end < tokens.length; end++) {
+      const parts = tokens[end].kind === 'word' ? splitNumberWord(tokens[end].text, numberWords) : null;
+      if (!parts) break;
+      // "50 thousand" is a digit with a scale word, left for readScales
+      if (end === index && numberWords.multipliers[parts[0]] && tokens[index - 1]?.kind === 'number') break;
+
+      // Across words a value has to be smaller than the one before: "twenty five", not "twenty twenty"
+      const firstValue = numberWords.values[parts[0]];
+      if (end > index && firstValue !== undefined && lastValue !== undefined && firstValue >= lastValue) break;
+
+      for (const part of parts) {
+        const multiplier = numberWords.multipliers[part];
+        if (multiplier >= 1000) {
+          total += (current || 1) * multiplier;
+          current = 0;
+        } else if (multiplier) {
+          current = (current || 1) * multiplier;
+        } else if (numberWords.values[part] !== undefined) {
+          current += numberWords.values[part];
+        }
+      }
+      // After "hundred" or "thousand" any value may follow again
+      lastValue = numberWords.values[parts[parts.length - 1]];
+      const lastMultiplier = numberWords.multipliers[parts[parts.length - 1]];
+      scale = lastMultiplier >= 1000 ? lastMultiplier : undefined;
+    }
+
+    // Articles such as "a" or "ein" are not read as the number one
+    if (end === index || (end === index + 1 && articles.includes(tokens[index].text))) {
+      result.push(tokens[index]);
+      index++;
+      continue;
+    }
+
+    result.push(numberToken(total + current, tokens[index], tokens[end - 1], { scale, spelled: true }));
+    index = end;
+  }
+
+  return result;
+}
+
+// "twenty twenty one" was read as 20 and 21; join them into 2021
+function readSpokenYears(tokens: NumberToken[]): NumberToken[] {
+  const result: NumberToken[] = [];
+
+  for (const token of tokens) {
+    const previous = result[result.length - 1];
+    const century = previous?.spelled && !previous.scale ? Number(previous.text) : undefined;
+    const years = token.spelled && !token.scale ? Number(token.text) : undefined;
+
+    if (century !== undefined && YEAR_CENTURIES.includes(century) && years !== undefined && years >= 10 && years < 100) {
+      result[result.length - 1] = numberToken(century * 100 + years, previous, token, { spelled: true });
+    } else {
+      result.push(token);
+    }
+  }
+
+  return result;
+}
+
+// "30 grand", "1.5 million", "50 k", "45 Tsd" -> one number token
+function readScales(tokens: NumberToken[], { numberWords }: NumberGrammar): NumberToken[] {
+  const result: NumberToken[] = [];
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const scale = numberWords.scales[tokens[index + 1]?.text];
+
+    if (token.kind === 'number' && scale && !token.scale) {
+      result.push(numberToken(parseNumberToken(token.text) * scale, token, tokens[index + 1], { scale }));
+      index++;
+    } else if (token.kind === 'number' && token.text.endsWith('k')) {
+      result.push({ ...token, scale: 1000 });
+    } else {
+      result.push(token);
+    }
+  }
+
+  return result;
+}
+
+// "between forty and fifty k": the scale on the upper end applies to the lower end too
+function shareRangeScales(tokens: NumberToken[], { rangeJoiners }: NumberGrammar): NumberToken[] {
+  return tokens.map((token, index) => {
+    const upper = tokens[index + 2];
+    if (token.kind !== 'number' || token.scale || !upper?.scale || !rangeJoiners.includes(tokens[index + 1].text)) {
+      return token;
+    }
+
+    const lower = parseNumberToken(token.text);
+    const scaled = lower * upper.scale;
+    // Only when the lower end is clearly short for the same unit ("20 to 30 thousand", not "900 to 2k")
+    return lower < 1000 && scaled <= parseNumberToken(upper.text)
+      ? numberToken(scaled, token, token, { scale: upper.scale })
+      : token;
+  });
+}
+
+/**
+ * Turn every way of saying a number into a plain number token whose text
+ * `parseNumberToken` reads back: spelled-out numbers in the locale's words,
+ * spoken years, scale words after digits and scales shared across a range.
+ * Spans still cover the original words.
+ */
+export function normalizeNumbers(tokens: Token[], grammar: NumberGrammar): Token[] {
+  const spelled = readSpokenYears(readNumberWords(tokens, grammar));
+  return shareRangeScales(readScales(spelled, grammar), grammar)
+    .map(({ scale, spelled, ...token }) => token);
+}
@@ -0,0 +1,122 @@
+// Relaxation engine for searches that find nothing: the smallest change to the
+// filters that brings cars back ("I have 3 if you go up to €55,000").
+import { Car, CarFilters } from '@/types/car';
+import { FilterCriterion, filterCars, getMissedCriteria } from './filters';
+
+type Filters = Partial<CarFilters>;
+type NumericFilterKey = {
+  [K in keyof CarFilters]-?: NonNullable<CarFilters[K]> extends number ? K : never;
+}[keyof CarFilters];
+
+export interface Relaxation {
+  // The filters with one criterion loosened or dropped
+  filters: Filters;
+  // New values of the limits that moved
+  loosened: Filters;
+  // Old values of the filters that were dropped
+  dropped: Filters;
+  // Exact matches once relaxed
+  matches: number;
+  // How far the search moved; dropping a criterion costs 1
+  cost: number;
+}
+
+interface RangeCriterion {
+  // Which end of the range the filter field limits
+  bound: 'min' | 'max';
+  value: (car: Car) => number;
+  // Limits are rounded outwards to a number worth saying ("€55,000", not "€54,730")
+  step: number;
+  // Relative change by default; a year is not 0.05% of anything
+  cost?: (from: number, to: number) => number;
+}
+
+const relativeChange = (from: number, to: number) => Math.abs(to - from) / from;
+
+// Both bounds of a range, loosened the same way
+const range = (
+  min: NumericFilterKey,
+  max: NumericFilterKey,
+  criterion: Omit<RangeCriterion, 'bound'>,
+): Partial<Record<NumericFilterKey, RangeCriterion>> => ({
+  [min]: { ...criterion, bound: 'min' },
+  [max]: { ...criterion, bound: 'max' },
+});
+
+// Criteria, named as getMissedCriteria names them, that are loosened rather than dropped
+export const RANGE_CRITERIA: Partial<Record<FilterCriterion, RangeCriterion>> = {
+  ...range('priceMin', 'priceMax', { value: car => car.price, step: 500 }),
+  ...range('yearMin', 'yearMax', { value: car => car.firstRegistration, step: 1, cost: (from, to) => Math.abs(to - from) / 10 }),
+  ...range('mileageMin', 'mileageMax', { value: car => car.mileage, step: 1000 }),
+  ...range('powerMin', 'powerMax', { value: car => car.power, step: 10 }),
+  ...range('seatsMin', 'seatsMax', { value: car => car.seats, step: 1 }),
+  ...range('cubicCapacityMin', 'cubicCapacityMax', { value: car => car.cubicCapacity, step: 100 }),
+  huValidMonths: { bound: 'min', value: car => car.huValidMonths, step: 1 },
+};
+
+// The limit that keeps `car` out, moved just far enough to let it in
+function loosenFor(car: Car, filters: Filters, key: NumericFilterKey, criterion: RangeCriterion): { from: number; to: number } | null {
+  const value = criterion.value(car);
+  const limit = filters[key] as number | undefined;
+  const { bound, step } = criterion;
+
+  if (!limit) return null;
+  if (bound === 'max' && value > limit) return { from: limit, to: Math.ceil(value / step) * step };
+  if (bound === 'min' && value < limit) return { from: limit, to: Math.floor(value / step) * step };
+  return null;
+}
+
+// How far a range limit has to move to let `car` in, on the relaxation cost
+// scale; undefined when the criterion is not a range or the car is not kept out by it
+export function rangeStretch(car: Car, filters: Filters, criterion: FilterCriterion): number | undefined {
+  const rangeCriterion = RANGE_CRITERIA[criterion];
+  if (!rangeCriterion) return undefined;
+  const change = loosenFor(car, filters, criterion as NumericFilterKey, rangeCriterion);
+  return change ? (rangeCriterion.cost ?? relativeChange)(change.from, change.to) : undefined;
+}
+
+const relaxation = (cars: Car[], filters: Filters, changes: Omit<Relaxation, 'matches'>): Relaxation => ({
+  ...changes,
+  matches: filterCars(cars, changes.filters).length,
+});
+
+/**
+ * Every single-criterion change that turns up at least one car, cheapest
+ * first. Only cars that miss exactly one criterion are looked at: a limit
+ * moves just far enough to take in the nearest of them, any other criterion
+ * is dropped. Equally cheap changes that find more cars come first.
+ */
+export function suggestRelaxations(cars: Car[], filters: Filters): Relaxation[] {
+  const best = new Map<FilterCriterion, Omit<Relaxation, 'matches'>>();
+
+  for (const car of cars) {
+    const missed = getMissedCriteria(car, filters);
+    if (missed.length !== 1) continue;
+
+    const [criterion] = missed;
+    const rangeCriterion = RANGE_CRITERIA[criterion];
+    let candidate: Omit<Relaxation, 'matches'>;
+
+    if (rangeCriterion) {
+      const change = loosenFor(car, filters, criterion as NumericFilterKey, rangeCriterion);
+      if (!change) continue;
+      candidate = {
+        filters: { ...filters, [criterion]: change.to },
+        loosened: { [criterion]: change.to },
+        dropped: {},
+        cost: (rangeCriterion.cost ?? relativeChange)(change.from, change.to),
+      };
+    } else {
+      const { [criterion]: dropped, ...rest } = filters;
+      candidate = { filters: rest, loosened: {}, dropped: { [criterion]: dropped }, cost: 1 };
+    }
+
+    const current = best.get(criterion);
+    if (!current || candidate.cost < current.cost) best.set(criterion, candidate);
+  }
+
+  return [...best.values()]
+    .map(changes => relaxation(cars, filters, changes))
+    .filter(({ matches }) => matches > 0)
+    .sort((a, b) => a.cost - b.cost || b.matches - a.matches);
+}
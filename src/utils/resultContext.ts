@@ -0,0 +1,50 @@
+// What the voice assistant has read out of a result list, so follow-ups such
+// as "the second one", "next page" or "compare them" resolve to car ids.
+
+export interface ResultContext {
+  // Every result in the order the inventory shows them
+  carIds: string[];
+  // Zero-based page being read out
+  page: number;
+  pageSize: number;
+  // The cars the last follow-up was about, for "it" and "them"
+  focusIds: string[];
+}
+
+// Cars read out at a time; more than three is hard to follow by ear
+export const VOICE_PAGE_SIZE = 3;
+
+export function createResultContext(carIds: string[], pageSize = VOICE_PAGE_SIZE): ResultContext {
+  return { carIds, page: 0, pageSize, focusIds: [] };
+}
+
+export const pageStart = (context: ResultContext) => context.page * context.pageSize;
+
+export function pageCarIds(context: ResultContext): string[] {
+  return context.carIds.slice(pageStart(context), pageStart(context) + context.pageSize);
+}
+
+// The context one page further (or back), or null when there is no such page
+export function turnPage(context: ResultContext, step: 1 | -1): ResultContext | null {
+  const page = context.page + step;
+  if (page < 0 || page * context.pageSize >= context.carIds.length) return null;
+  return { ...context, page, focusIds: [] };
+}
+
+/**
+ * Car ids for the positions an utterance named. Positions count from the
+ * start of the page being read, so after "next page" "the first one" is the
+ * first car on it; counting may run on past the page ("the fifth one").
+ * Negative positions count back from the end of the page, and 0 stands for
+ * the cars talked about last. Positions outside the results are dropped.
+ */
+export function resolveReferences(context: ResultContext, positions: number[]): string[] {
+  const page = pageCarIds(context);
+  const ids = positions.flatMap(position => {
+    if (position === 0) return context.focusIds;
+    const index = position > 0 ? pageStart(context) + position - 1 : pageStart(context) + page.length + position;
+    return index >= 0 && index < context.carIds.length ? [context.carIds[index]] : [];
+  });
+
+  return [...new Set(ids)];
+}
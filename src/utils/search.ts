@@ -0,0 +1,199 @@
+import { Car } from '@/types/car';
+import {
+  DRIVE_TYPE_LABELS,
+  FUEL_TYPE_LABELS,
+  TRANSMISSION_LABELS,
+  VEHICLE_TYPE_LABELS,
+  getCarFeatureLabels,
+} from '@/lib/format';
+import { FEATURE_FILTER_KEYS } from './filters';
+import { LOCALE_CODES } from '@/locales';
+import { getKeywordMappings } from './nlp';
+
+export interface SearchMatch {
+  score: number;
+  // Indexed tokens the query hit, used to highlight results
+  matchedTokens: string[];
+}
+
+export interface SearchIndex {
+  search: (query: string) => Map<string, SearchMatch>;
+}
+
+// A query word (or multi-word synonym phrase) and the token lists that satisfy it
+interface QueryTerm {
+  alternatives: string[][];
+}
+
+const EXACT_SCORE = 3;
+const PREFIX_SCORE = 2;
+const FUZZY_SCORE = 1;
+const MIN_PREFIX_LENGTH = 2;
+
+// Lowercase, strip accents ("Huracán" -> "huracan") and split on anything that is not a letter or digit
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9ß]+/)
+    .filter(Boolean);
+}
+
+// Every phrase the voice parser understands in any language, pointing at the value it stands for
+const SYNONYMS: [string[], string[]][] = LOCALE_CODES
+  .flatMap(locale => Object.values(getKeywordMappings(locale)))
+  .flatMap(mapping => Object.entries<string>(mapping))
+  .map(([phrase, value]): [string[], string[]] => [tokenize(phrase), tokenize(value)])
+  // Longest phrases first so "plug in hybrid" wins over "hybrid"
+  .sort((a, b) => b[0].length - a[0].length);
+
+const MAX_SYNONYM_WORDS = Math.max(...SYNONYMS.map(([phrase]) => phrase.length));
+
+const sameTokens = (a: string[], b: string[]) => a.length === b.length && a.every((token, i) => token === b[i]);
+
+function parseQuery(query: string): QueryTerm[] {
+  const words = tokenize(query);
+  const terms: QueryTerm[] = [];
+
+  for (let i = 0; i < words.length;) {
+    let matched = false;
+
+    for (let length = Math.min(MAX_SYNONYM_WORDS, words.length - i); length > 0 && !matched; length--) {
+      const phrase = words.slice(i, i + length);
+      const values = SYNONYMS.filter(([keyword]) => sameTokens(keyword, phrase)).map(([, value]) => value);
+      if (values.length === 0) continue;
+
+      terms.push({ alternatives: [phrase, ...values] });
+      i += length;
+      matched = true;
+    }
+
+    if (!matched) {
+      terms.push({ alternatives: [[words[i]]] });
+      i++;
+    }
+  }
+
+  return terms;
+}
+
+// Optimal string alignment distance, so swapped letters count as one typo
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (rowMin > limit) return limit + 1;
+  }
+
+  return rows[a.length][b.length];
+}
+
+// Short words and numbers have to be typed correctly, longer words may contain a typo or two
+const allowedTypos = (word: string) => {
+  if (/\d/.test(word) || word.length < 4) return 0;
+  return word.length < 7 ? 1 : 2;
+};
+
+function matchWord(word: string, tokens: string[]): { score: number; tokens: string[] } | null {
+  if (tokens.includes(word)) return { score: EXACT_SCORE, tokens: [word] };
+
+  if (word.length >= MIN_PREFIX_LENGTH) {
+    const prefixed = tokens.filter(token => token.startsWith(word));
+    if (prefixed.length > 0) return { score: PREFIX_SCORE, tokens: prefixed };
+  }
+
+  const typos = allowedTypos(word);
+  if (typos > 0) {
+    const close = tokens.filter(token => editDistance(word, token, typos) <= typos);
+    if (close.length > 0) return { score: FUZZY_SCORE, tokens: close };
+  }
+
+  return null;
+}
+
+function matchTerm(term: QueryTerm, tokens: string[]): { score: number; tokens: string[] } | null {
+  let best: { score: number; tokens: string[] } | null = null;
+
+  for (const alternative of term.alternatives) {
+    const matches = alternative.map(word => matchWord(word, tokens));
+    if (matches.some(match => !match)) continue;
+
+    const score = Math.min(...matches.map(match => match!.score));
+    if (!best || score > best.score) {
+      best = { score, tokens: matches.flatMap(match => match!.tokens) };
+    }
+  }
+
+  return best;
+}
+
+function getSearchableText(car: Car): string[] {
+  return [
+    car.name,
+    car.make,
+    car.model,
+    String(car.year),
+    String(car.firstRegistration),
+    car.vehicleType,
+    VEHICLE_TYPE_LABELS[car.vehicleType],
+    car.condition,
+    car.fuelType,
+    FUEL_TYPE_LABELS[car.fuelType],
+    car.transmission,
+    TRANSMISSION_LABELS[car.transmission],
+    car.driveType,
+    DRIVE_TYPE_LABELS[car.driveType],
+    car.exteriorColor,
+    car.interiorMaterial,
+    car.city,
+    car.country,
+    ...getCarFeatureLabels(car),
+    // Feature keys let synonyms such as "gps" -> navigationSystem hit the flag
+    ...FEATURE_FILTER_KEYS.filter(key => car[key]),
+  ].filter(Boolean);
+}
+
+export function createSearchIndex(cars: Car[]): SearchIndex {
+  const documents = cars.map(car => ({
+    id: car.id,
+    tokens: [...new Set(getSearchableText(car).flatMap(tokenize))],
+  }));
+
+  return {
+    // Every query term has to match; cars are scored by how precisely they did
+    search: (query) => {
+      const terms = parseQuery(query);
+      const results = new Map<string, SearchMatch>();
+
+      for (const { id, tokens } of documents) {
+        let score = 0;
+        const matchedTokens = new Set<string>();
+
+        const matchesAll = terms.every(term => {
+          const match = matchTerm(term, tokens);
+          if (!match) return false;
+          score += match.score;
+          match.tokens.forEach(token => matchedTokens.add(token));
+          return true;
+        });
+
+        if (matchesAll) results.set(id, { score, matchedTokens: [...matchedTokens] });
+      }
+
+      return results;
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import { CarFilters } from '@/types/car';
+import { FEATURE_FILTER_KEYS } from './filters';
+
+export type ViewMode = 'grid' | 'list';
+
+export interface InventorySearchState {
+  filters: Partial<CarFilters>;
+  searchTerm: string;
+  sort?: string;
+  page: number;
+  viewMode: ViewMode;
+}
+
+/**
+ * Bump when a query parameter is renamed or changes meaning, and add a
+ * migration below that rewrites links from the previous version.
+ */
+export const SEARCH_SCHEMA_VERSION = 1;
+
+const VERSION_PARAM = 'v';
+
+export type SearchParamsMigrations = Record<number, (params: URLSearchParams) => URLSearchParams>;
+
+// Each entry upgrades params from version `n` to `n + 1`
+const MIGRATIONS: SearchParamsMigrations = {};
+
+type ArrayFilterKey = {
+  [K in keyof CarFilters]: CarFilters[K] extends string[] ? K : never;
+}[keyof CarFilters];
+
+const ARRAY_PARAMS: Record<string, ArrayFilterKey> = {
+  mk: 'makes',
+  md: 'models',
+  xmk: 'excludeMakes',
+  xmd: 'excludeModels',
+  vt: 'vehicleTypes',
+  xvt: 'excludeVehicleTypes',
+  cd: 'conditions',
+  pt: 'paymentTypes',
+  co: 'countries',
+  fu: 'fuelTypes',
+  xfu: 'excludeFuelTypes',
+  dr: 'driveTypes',
+  tr: 'transmissions',
+  xtr: 'excludeTransmissions',
+  em: 'emissionClasses',
+  col: 'exteriorColors',
+  xcol: 'excludeExteriorColors',
+  ps: 'parkingSensors',
+  cc: 'cruiseControl',
+  im: 'interiorMaterials',
+  ac: 'airConditioning',
+  uc: 'preferredUseCases',
+};
+
+// Ranges are written as `min-max`, either side may be empty ("-50000")
+const RANGE_PARAMS: Record<string, [keyof CarFilters, keyof CarFilters]> = {
+  pr: ['priceMin', 'priceMax'],
+  yr: ['yearMin', 'yearMax'],
+  km: ['mileageMin', 'mileageMax'],
+  hp: ['powerMin', 'powerMax'],
+  st: ['seatsMin', 'seatsMax'],
+  ccm: ['cubicCapacityMin', 'cubicCapacityMax'],
+};
+
+const NUMBER_PARAMS: Record<string, keyof CarFilters> = {
+  hu: 'huValidMonths',
+  rad: 'radius',
+};
+
+const ENUM_PARAMS: Record<string, { key: keyof CarFilters; values: readonly string[] }> = {
+  dt: { key: 'doors', values: ['2-3', '4-5'] },
+  sd: { key: 'slidingDoor', values: ['yes', 'no'] },
+  ow: { key: 'numberOfOwners', values: ['1', '2', '3', '4+'] },
+};
+
+const TEXT_PARAMS: Record<string, keyof CarFilters> = {
+  ci: 'city',
+  zip: 'zipCode',
+  zc: 'zipCountry',
+};
+
+const FEATURES_PARAM = 'ft';
+const SEARCH_PARAM = 'q';
+const SORT_PARAM = 'sort';
+const PAGE_PARAM = 'page';
+const VIEW_PARAM = 'view';
+
+const LIST_SEPARATOR = ',';
+
+const parsePositiveNumber = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export function serializeFilters(filters: Partial<CarFilters>, params = new URLSearchParams()): URLSearchParams {
+  for (const [param, key] of Object.entries(ARRAY_PARAMS)) {
+    const values = filters[key];
+    if (values && values.length > 0) params.set(param, values.join(LIST_SEPARATOR));
+  }
+
+  for (const [param, [minKey, maxKey]] of Object.entries(RANGE_PARAMS)) {
+    const min = filters[minKey] as number | undefined;
+    const max = filters[maxKey] as number | undefined;
+    if (min || max) params.set(param, `${min || ''}-${max || ''}`);
+  }
+
+  for (const [param, key] of Object.entries(NUMBER_PARAMS)) {
+    const value = filters[key] as number | undefined;
+    if (value) params.set(param, String(value));
+  }
+
+  for (const [param, { key, values }] of Object.entries(ENUM_PARAMS)) {
+    const value = filters[key] as string | undefined;
+    if (value && values.includes(value)) params.set(param, value);
+  }
+
+  for (const [param, key] of Object.entries(TEXT_PARAMS)) {
+    const value = filters[key] as string | undefined;
+    if (value) params.set(param, value);
+  }
+
+  const features = FEATURE_FILTER_KEYS.filter(key => filters[key]);
+  if (features.length > 0) params.set(FEATURES_PARAM, features.join(LIST_SEPARATOR));
+
+  return params;
+}
+
+export function parseFilters(params: URLSearchParams): Partial<CarFilters> {
+  const filters: Record<string, unknown> = {};
+
+  for (const [param, key] of Object.entries(ARRAY_PARAMS)) {
+    const raw = params.get(param);
+    if (raw) filters[key] = raw.split(LIST_SEPARATOR).map(value => value.trim()).filter(Boolean);
+  }
+
+  for (const [param, [minKey, maxKey]] of Object.entries(RANGE_PARAMS)) {
+    const raw = params.get(param);
+    if (!raw) continue;
+    const [min, max] = raw.split('-');
+    const minValue = parsePositiveNumber(min);
+    const maxValue = parsePositiveNumber(max);
+    if (minValue !== undefined) filters[minKey] = minValue;
+    if (maxValue !== undefined) filters[maxKey] = maxValue;
+  }
+
+  for (const [param, key] of Object.entries(NUMBER_PARAMS)) {
+    const value = parsePositiveNumber(params.get(param));
+    if (value !== undefined) filters[key] = value;
+  }
+
+  for (const [param, { key, values }] of Object.entries(ENUM_PARAMS)) {
+    const value = params.get(param);
+    if (value && values.includes(value)) filters[key] = value;
+  }
+
+  for (const [param, key] of Object.entries(TEXT_PARAMS)) {
+    const value = params.get(param);
+    if (value) filters[key] = value;
+  }
+
+  const features = params.get(FEATURES_PARAM)?.split(LIST_SEPARATOR) ?? [];
+  for (const feature of features) {
+    if ((FEATURE_FILTER_KEYS as readonly string[]).includes(feature)) filters[feature] = true;
+  }
+
+  return filters as Partial<CarFilters>;
+}
+
+export function migrateParams(
+  params: URLSearchParams,
+  migrations: SearchParamsMigrations = MIGRATIONS,
+  targetVersion: number = SEARCH_SCHEMA_VERSION,
+): URLSearchParams {
+  // Links shared before versioning was introduced are identical to version 1
+  let version = parsePositiveNumber(params.get(VERSION_PARAM)) ?? 1;
+  let migrated = new URLSearchParams(params);
+
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (migrate) migrated = migrate(migrated);
+    version++;
+  }
+
+  return migrated;
+}
+
+export function serializeSearchState(state: Partial<InventorySearchState>): URLSearchParams {
+  const params = serializeFilters(state.filters ?? {});
+
+  if (state.searchTerm) params.set(SEARCH_PARAM, state.searchTerm);
+  if (state.sort) params.set(SORT_PARAM, state.sort);
+  if (state.page && state.page > 1) params.set(PAGE_PARAM, String(state.page));
+  if (state.viewMode === 'list') params.set(VIEW_PARAM, 'list');
+
+  // Only stamp a version when there is something to version
+  if ([...params.keys()].length > 0) params.set(VERSION_PARAM, String(SEARCH_SCHEMA_VERSION));
+
+  return params;
+}
+
+export function parseSearchState(rawParams: URLSearchParams): InventorySearchState {
+  const params = migrateParams(rawParams);
+
+  return {
+    filters: parseFilters(params),
+    searchTerm: params.get(SEARCH_PARAM) ?? '',
+    sort: params.get(SORT_PARAM) ?? undefined,
+    page: Math.floor(parsePositiveNumber(params.get(PAGE_PARAM)) ?? 1),
+    viewMode: params.get(VIEW_PARAM) === 'list' ? 'list' : 'grid',
+  };
+}
@@ -0,0 +1,107 @@
+import { Car, CarFilters, SortMode } from '@/types/car';
+import { UseCase } from '@/types/useCase';
+import { isSoftRequirement, useCaseCatalogue } from '@/data/useCases';
+import { FilterCriterion, filterCars, getActiveCriteria, getMissedCriteria, matchCar } from './filters';
+import { rangeStretch } from './relaxation';
+
+export const DEFAULT_SORT: SortMode = 'relevance';
+
+export const SORT_OPTIONS: { value: SortMode; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'price-asc', label: 'Price: low to high' },
+  { value: 'price-desc', label: 'Price: high to low' },
+  { value: 'mileage-asc', label: 'Mileage: lowest first' },
+  { value: 'registration-desc', label: 'First registration: newest' },
+  { value: 'power-desc', label: 'Power: highest first' },
+  { value: 'listing-newest', label: 'Newest listings' },
+];
+
+// How many criteria a car may miss and still be shown as a close match
+export const NEAR_MISS_TOLERANCE = 1;
+
+// With a single criterion a close match is just the rest of the inventory
+export const MIN_CRITERIA_FOR_CLOSE_MATCHES = 2;
+
+// How far a range may stretch for a close match: 15% on price or mileage, a year on registration
+export const CLOSE_MATCH_MAX_STRETCH = 0.15;
+
+export interface RankedCar {
+  car: Car;
+  missedCriteria: FilterCriterion[];
+}
+
+export interface RankedResults {
+  // Cars that meet every criterion, in the requested order
+  matches: Car[];
+  // Cars just outside a price, year, mileage or similar range; never part of the result count
+  closeMatches: RankedCar[];
+}
+
+const listingTime = (car: Car) => (car.listedAt ? new Date(car.listedAt).getTime() : 0);
+
+const COMPARATORS: Record<Exclude<SortMode, 'relevance'>, (a: Car, b: Car) => number> = {
+  'price-asc': (a, b) => a.price - b.price,
+  'price-desc': (a, b) => b.price - a.price,
+  'mileage-asc': (a, b) => a.mileage - b.mileage,
+  'registration-desc': (a, b) => b.firstRegistration - a.firstRegistration,
+  'power-desc': (a, b) => b.power - a.power,
+  'listing-newest': (a, b) => listingTime(b) - listingTime(a),
+};
+
+export function isSortMode(value: string | undefined): value is SortMode {
+  return !!value && SORT_OPTIONS.some(option => option.value === value);
+}
+
+export function sortCars(cars: Car[], mode: SortMode): Car[] {
+  if (mode === 'relevance') return [...cars];
+  return [...cars].sort(COMPARATORS[mode]);
+}
+
+// Summed weight of the soft requirements of the preferred use cases a car meets
+export function preferenceScore(car: Car, filters: Partial<CarFilters>, useCases: UseCase[]): number {
+  return useCases
+    .filter(({ id }) => filters.preferredUseCases?.includes(id))
+    .flatMap(({ requirements }) => requirements.filter(isSoftRequirement))
+    .reduce((score, requirement) => score + (matchCar(car, requirement.filters) ? requirement.weight : 0), 0);
+}
+
+/**
+ * Filter-and-sort pipeline used by the inventory. Explicit sort modes only
+ * return exact matches; "best match" puts the cars that meet more of the
+ * preferred use cases' soft requirements first, and also collects close
+ * matches, cars that miss nothing but a range limit, once the search sets
+ * enough criteria for that to mean something.
+ */
+export function rankCars(
+  cars: Car[],
+  filters: Partial<CarFilters>,
+  mode: SortMode = DEFAULT_SORT,
+  useCases: UseCase[] = useCaseCatalogue.list(),
+): RankedResults {
+  let matches = sortCars(filterCars(cars, filters), mode);
+  if (mode === 'relevance' && filters.preferredUseCases?.length) {
+    const scores = new Map(matches.map(car => [car.id, preferenceScore(car, filters, useCases)]));
+    // Array.prototype.sort is stable, so equally preferred cars keep inventory order
+    matches = matches.sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+  }
+
+  if (mode !== 'relevance' || getActiveCriteria(filters).length < MIN_CRITERIA_FOR_CLOSE_MATCHES) {
+    return { matches, closeMatches: [] };
+  }
+
+  // Ranges are preferences that can give a little; exclusions, ticked options and the radius cannot
+  const stretch = ({ car, missedCriteria }: RankedCar) =>
+    missedCriteria.reduce((total, criterion) => total + (rangeStretch(car, filters, criterion) ?? Infinity), 0);
+
+  const closeMatches = cars
+    .map(car => ({ car, missedCriteria: getMissedCriteria(car, filters) }))
+    .filter(ranked =>
+      ranked.missedCriteria.length > 0
+      && ranked.missedCriteria.length <= NEAR_MISS_TOLERANCE
+      && stretch(ranked) <= CLOSE_MATCH_MAX_STRETCH
+    )
+    // Array.prototype.sort is stable, so equally close cars keep inventory order
+    .sort((a, b) => stretch(a) - stretch(b));
+
+  return { matches, closeMatches };
+}
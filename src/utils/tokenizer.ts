@@ -0,0 +1,93 @@
+// Utterance tokenizer shared by the voice parser. Tokens keep their character
+// offsets into the original text so entities can report where they came from.
+
+export type TokenKind = 'word' | 'number' | 'symbol';
+
+export interface Token {
+  text: string; // lowercased
+  start: number;
+  end: number;
+  kind: TokenKind;
+}
+
+// Numbers glued to a unit ("50000km", "300hp"), words with inner apostrophes ("don't"),
+// numbers with separators ("50,000", "2.5") and single symbols
+const TOKEN_PATTERN = /\d+(?:[.,]\d+)*(?=(?:km|mi|hp|bhp|ps|kw|€)(?!\p{L}))|[\p{L}\p{N}]+(?:[.,]\d+)*(?:['’]\p{L}+)?|[^\s\p{L}\p{N}]/gu;
+const NUMBER_PATTERN = /^\d+(?:[.,]\d+)*k?$/;
+
+// Hyphens and slashes join words ("plug-in", "4x4/awd") and do not break a phrase
+const JOINERS = new Set(['-', '/']);
+
+export function tokenizeUtterance(text: string): Token[] {
+  return [...text.matchAll(TOKEN_PATTERN)].map(match => {
+    const value = match[0].toLowerCase().replace('’', "'");
+    const kind: TokenKind = NUMBER_PATTERN.test(value) ? 'number' : /[\p{L}\p{N}]/u.test(value) ? 'word' : 'symbol';
+    return { text: value, start: match.index!, end: match.index! + match[0].length, kind };
+  });
+}
+
+// Phrase words without joiners, so "plug-in hybrid" and "plug in hybrid" are the same phrase
+const phraseWords = (phrase: string) =>
+  tokenizeUtterance(phrase).filter(token => !JOINERS.has(token.text)).map(token => token.text);
+
+/**
+ * Index of the token just past `words` when they occur at `index`, or -1.
+ * Joiner symbols between words are skipped.
+ */
+export function matchWordsAt(tokens: Token[], index: number, words: string[]): number {
+  let position = index;
+
+  for (const word of words) {
+    while (position < tokens.length && JOINERS.has(tokens[position].text) && position > index) position++;
+    if (position >= tokens.length || tokens[position].text !== word) return -1;
+    position++;
+  }
+
+  return position;
+}
+
+export function hasPhrase(tokens: Token[], phrase: string): boolean {
+  const words = phraseWords(phrase);
+  return tokens.some((_, index) => matchWordsAt(tokens, index, words) !== -1);
+}
+
+export interface PhraseMatch<V> {
+  value: V;
+  phrase: string;
+  startToken: number;
+  endToken: number; // exclusive
+}
+
+export interface PhraseMatcher<V> {
+  // Non-overlapping matches, longest phrase first at each position; `consumed` tokens are skipped and updated
+  match: (tokens: Token[], consumed: boolean[]) => PhraseMatch<V>[];
+}
+
+export function createPhraseMatcher<V>(entries: [string, V][]): PhraseMatcher<V> {
+  const phrases = entries
+    .map(([phrase, value]) => ({ phrase, value, words: phraseWords(phrase) }))
+    .filter(({ words }) => words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+
+  return {
+    match: (tokens, consumed) => {
+      const matches: PhraseMatch<V>[] = [];
+
+      for (let index = 0; index < tokens.length; index++) {
+        if (consumed[index]) continue;
+
+        for (const { phrase, value, words } of phrases) {
+          const end = matchWordsAt(tokens, index, words);
+          if (end === -1 || consumed.slice(index, end).some(Boolean)) continue;
+
+          matches.push({ value, phrase, startToken: index, endToken: end });
+          consumed.fill(true, index, end);
+          index = end - 1;
+          break;
+        }
+      }
+
+      return matches;
+    },
+  };
+}
@@ -0,0 +1,516 @@
+// The voice assistant's side of the conversation: what it answers to each user
+// turn and what that turn changes. It knows nothing of React or speech; the
+// host shows and speaks the answers, keeps the conversation state and carries
+// out navigation, so the same assistant runs in the page and in the
+// evaluation harness.
+import {
+  Car,
+  CarFilters,
+  ConversationState,
+  EntityOfType,
+  ParsedEntities,
+  ParsedEntityType,
+  SortMode,
+  VoiceCommand,
+} from '@/types/car';
+import { DialoguePlan, DialogueProgress } from '@/types/dialogue';
+import { AssistantResponses, DEFAULT_LOCALE, LocaleCode, getLocalePack } from '@/locales';
+import { dialoguePlanStore } from '@/data/dialoguePlan';
+import {
+  EXCLUDABLE_ENTITY_TYPES,
+  anchorAdjustments,
+  applyEntitiesToFilters,
+  entitiesFromFilters,
+  getEntities,
+  getEntity,
+  parseVoiceCommand,
+  removeEntitiesFromFilters,
+  replaceEntitiesInFilters,
+} from './nlp';
+import { filterCars } from './filters';
+import { suggestRelaxations } from './relaxation';
+import {
+  ResultContext,
+  createResultContext,
+  pageCarIds,
+  pageStart,
+  resolveReferences,
+  turnPage,
+} from './resultContext';
+import { EMPTY_DIALOGUE_PROGRESS, chooseNextSlot, findDontCareSlots, markAsked, markDontCare } from './dialogue';
+
+type FilterUpdate = (entities: ParsedEntities, filters: Partial<CarFilters>) => Partial<CarFilters>;
+
+export interface VoiceAssistantHost {
+  // The conversation state; what setState stores, getState returns straight away
+  getState: () => ConversationState;
+  setState: (state: ConversationState) => void;
+  getLocale: () => LocaleCode;
+  // Searches run against the whole inventory, not just what the page shows
+  listCars: () => Car[];
+  // The cars the current filters find, in the order they are shown
+  shownCars: () => Car[];
+  // An answer, to show and to speak
+  say: (text: string) => void;
+  // Suggested answers to the question just asked
+  offerReplies: (replies: string[]) => void;
+  updateFilters: (filters: Partial<CarFilters>) => void;
+  changeSort?: (sort: SortMode) => void;
+  search: () => void;
+  notify: (title: string, description: string) => void;
+  openWishlist: () => void;
+  close: () => void;
+  navigation: {
+    showCar: (id: string) => void;
+    compareCars: (ids: string[]) => void;
+    goBack: () => void;
+    // To the inventory as the user last saw it
+    returnToSearch: () => void;
+  };
+  // Runs what follows an answer once it has been heard; the page waits, a script need not
+  later?: (action: () => void, ms: number) => void;
+  dialoguePlan?: () => DialoguePlan;
+}
+
+export interface VoiceAssistant {
+  // Greets the user and starts collecting filters from scratch
+  start: () => void;
+  // One user turn; returns the command it was understood as
+  handle: (text: string) => VoiceCommand;
+  // The page shows other results; reading them starts over from the first page
+  showResults: (carIds: string[]) => void;
+  // Results from other dealers, as offered when nothing here matches
+  searchExternally: () => void;
+}
+
+// Each entity read back in the given language, exclusions last
+export function describeEntities(entities: ParsedEntities, responses: AssistantResponses): string[] {
+  const { entityConfirmations, excluding } = responses;
+  const confirmations = (Object.keys(entityConfirmations) as ParsedEntityType[]).flatMap(type => {
+    const found = getEntities(entities, type).filter(entity => !entity.negated);
+    if (found.length === 0) return [];
+    const describe = entityConfirmations[type] as (found: EntityOfType<ParsedEntityType>[]) => string[];
+    return describe(found);
+  });
+
+  // Read exclusions back in the user's own words
+  const excluded = entities.filter(entity =>
+    entity.negated && (EXCLUDABLE_ENTITY_TYPES as readonly string[]).includes(entity.type)
+  );
+  if (excluded.length > 0) {
+    confirmations.push(excluding(excluded.map(entity => entity.span.text)));
+  }
+
+  return confirmations;
+}
+
+export function createVoiceAssistant(host: VoiceAssistantHost): VoiceAssistant {
+  const later = host.later ?? ((action: () => void, ms: number) => { setTimeout(action, ms); });
+  const dialoguePlan = host.dialoguePlan ?? dialoguePlanStore.get;
+  const responses = () => getLocalePack(host.getLocale()).responses;
+  const findCar = (id: string) => host.listCars().find(car => car.id === id);
+  // Follow-ups like "the second one" resolve against what was read out
+  let resultContext: ResultContext = createResultContext(host.shownCars().map(car => car.id));
+
+  const update = (change: (state: ConversationState) => Partial<ConversationState>) => {
+    const state = host.getState();
+    host.setState({ ...state, ...change(state) });
+  };
+
+  const updateDialogue = (change: (progress: DialogueProgress) => DialogueProgress) =>
+    update(state => ({ dialogue: change(state.dialogue ?? EMPTY_DIALOGUE_PROGRESS) }));
+
+  // Every change to the collected filters goes through here, so "undo" can take it back
+  const recordFilterChange = (updatedFilters: Partial<CarFilters>, utterance: string) => {
+    update(state => ({
+      collectedFilters: updatedFilters,
+      history: [...state.history, { utterance, previousFilters: state.collectedFilters }],
+      // An offer made for the old filters no longer fits
+      pendingRelaxation: undefined,
+    }));
+    host.updateFilters(updatedFilters);
+  };
+
+  // The open question that best splits the cars still matching, or the catch-all once there is none
+  const askNextQuestion = (filters: Partial<CarFilters>) => {
+    const locale = host.getLocale();
+    const progress = host.getState().dialogue ?? EMPTY_DIALOGUE_PROGRESS;
+    const slot = chooseNextSlot(dialoguePlan(), host.listCars(), filters, progress);
+    const { anythingElse, anythingElseReplies } = responses();
+    const prompt = slot && (slot.prompts[locale] || slot.prompts[DEFAULT_LOCALE]);
+    updateDialogue(current => markAsked(current, slot));
+
+    host.say(prompt || anythingElse);
+    host.offerReplies(prompt ? slot.quickReplies[locale] ?? [] : anythingElseReplies);
+  };
+
+  const handleFilterSpecification = (entities: ParsedEntities, originalText: string, apply: FilterUpdate) => {
+    // "A bit cheaper" with no price limit yet goes below the cars on show
+    const updatedFilters = apply(entities, anchorAdjustments(entities, host.getState().collectedFilters, host.shownCars()));
+    recordFilterChange(updatedFilters, originalText);
+
+    const sort = getEntity(entities, 'sort');
+    if (sort) {
+      host.changeSort?.(sort.value);
+    }
+
+    const parts = describeEntities(entities, responses());
+    host.say(parts.length > 0 ? responses().confirmation(parts) : responses().unclear);
+
+    // Ask for more details or offer to search
+    later(() => askNextQuestion(updatedFilters), 2000);
+  };
+
+  const handleFilterRemoval = (entities: ParsedEntities, originalText: string) => {
+    recordFilterChange(removeEntitiesFromFilters(entities, host.getState().collectedFilters), originalText);
+
+    // "No longer BMW" removes BMW; it is read back like any other value
+    const parts = describeEntities(entities.map(entity => ({ ...entity, negated: false })), responses());
+    host.say(parts.length > 0 ? responses().removed(parts) : responses().unclear);
+  };
+
+  const handleUndo = () => {
+    const { history } = host.getState();
+    const lastChange = history[history.length - 1];
+    if (!lastChange) {
+      host.say(responses().nothingToUndo);
+      return;
+    }
+
+    update(state => ({
+      collectedFilters: lastChange.previousFilters,
+      history: state.history.slice(0, -1),
+    }));
+    host.updateFilters(lastChange.previousFilters);
+    host.say(responses().undone(lastChange.utterance));
+  };
+
+  const handleSummary = () => {
+    const parts = describeEntities(entitiesFromFilters(host.getState().collectedFilters), responses());
+    host.say(parts.length > 0 ? responses().summary(parts) : responses().nothingSet);
+  };
+
+  // Read cars out by their position on the page and make them what "it" and "them" point at
+  const readCars = (ids: string[], intro: string) => {
+    const { carSummary } = responses();
+    const summaries = ids.flatMap(id => {
+      const car = findCar(id);
+      return car ? [carSummary(car, resultContext.carIds.indexOf(id) - pageStart(resultContext) + 1)] : [];
+    });
+
+    resultContext = { ...resultContext, focusIds: ids };
+    host.say([intro, ...summaries].filter(Boolean).join(' '));
+  };
+
+  const handleNoResults = () => {
+    host.say(responses().noResults);
+    update(() => ({ currentStep: 'awaiting_wishlist_decision' }));
+  };
+
+  const offerRelaxation = (filters: Partial<CarFilters>) => {
+    // The cheapest change that can be put into words
+    const offer = suggestRelaxations(host.listCars(), filters)
+      .map(relaxation => ({
+        relaxation,
+        loosened: describeEntities(entitiesFromFilters(relaxation.loosened), responses()),
+        dropped: describeEntities(entitiesFromFilters(relaxation.dropped), responses()),
+      }))
+      .find(({ loosened, dropped }) => loosened.length > 0 || dropped.length > 0);
+
+    if (!offer) {
+      handleNoResults();
+      return;
+    }
+
+    const { relaxation, loosened, dropped } = offer;
+    host.say(loosened.length > 0
+      ? responses().relaxedMatches(relaxation.matches, loosened)
+      : responses().relaxedWithout(relaxation.matches, dropped));
+    update(() => ({ currentStep: 'awaiting_relaxation', pendingRelaxation: relaxation.filters }));
+  };
+
+  // Run the filters and read out what they find, or offer the smallest change that finds something
+  const searchInventory = (filters: Partial<CarFilters>) => {
+    // Matches keep the order the inventory page shows them in
+    const shownIds = host.shownCars().map(car => car.id);
+    const shownAt = (car: Car) => (shownIds.includes(car.id) ? shownIds.indexOf(car.id) : shownIds.length);
+    const matches = filterCars(host.listCars(), filters).sort((a, b) => shownAt(a) - shownAt(b));
+
+    if (matches.length === 0) {
+      offerRelaxation(filters);
+      return;
+    }
+
+    const { ui } = getLocalePack(host.getLocale());
+    host.notify(ui.searchCompleteTitle, ui.searchCompleteDescription);
+
+    // Stay open and read the first results, so the user can go on from there
+    resultContext = createResultContext(matches.map(car => car.id));
+    readCars(pageCarIds(resultContext), responses().resultsFound(matches.length));
+  };
+
+  const handleConfirmation = (originalText: string) => {
+    // "Yes" to a smaller search takes it on first
+    const { currentStep, pendingRelaxation, collectedFilters } = host.getState();
+    const relaxing = currentStep === 'awaiting_relaxation' && pendingRelaxation;
+    if (relaxing) {
+      recordFilterChange(pendingRelaxation, originalText);
+      update(() => ({ currentStep: 'collecting_preferences' }));
+    }
+
+    host.say(responses().searching);
+    later(() => {
+      host.search();
+      searchInventory(relaxing ? pendingRelaxation : collectedFilters);
+    }, 1500);
+  };
+
+  const readPage = () => {
+    const ids = pageCarIds(resultContext);
+    const from = pageStart(resultContext) + 1;
+    readCars(ids, responses().pageIntro(from, from + ids.length - 1, resultContext.carIds.length));
+  };
+
+  // Answers for when there is nothing to browse; false when there is
+  const reportNoResults = () => {
+    if (resultContext.carIds.length > 0) return false;
+    host.say(responses().noResultsToBrowse);
+    return true;
+  };
+
+  // "The first three", "the last one", "them"; without a reference, the cars talked about last
+  const referencedCars = (entities: ParsedEntities): string[] => {
+    const positions = getEntities(entities, 'resultReference').map(entity => entity.value);
+    return resolveReferences(resultContext, positions.length > 0 ? positions : [0]);
+  };
+
+  const handleReadResults = (entities: ParsedEntities) => {
+    if (reportNoResults()) return;
+
+    if (getEntities(entities, 'resultReference').length === 0) {
+      readPage();
+      return;
+    }
+
+    const ids = referencedCars(entities);
+    if (ids.length === 0) {
+      host.say(responses().unknownReference);
+      return;
+    }
+    readCars(ids, '');
+  };
+
+  const handlePageTurn = (step: 1 | -1) => {
+    if (reportNoResults()) return;
+
+    const context = turnPage(resultContext, step);
+    if (!context) {
+      host.say(step === 1 ? responses().noMoreResults : responses().firstPage);
+      return;
+    }
+
+    resultContext = context;
+    readPage();
+  };
+
+  const handleCarDetails = (entities: ParsedEntities) => {
+    if (reportNoResults()) return;
+
+    // Without a reference, "tell me more" needs a single car to have been talked about
+    const ids = referencedCars(entities);
+    const named = getEntities(entities, 'resultReference').length > 0;
+    const car = named || ids.length === 1 ? findCar(ids[0]) : undefined;
+    if (!car) {
+      host.say(responses().unknownReference);
+      return;
+    }
+
+    resultContext = { ...resultContext, focusIds: [car.id] };
+    host.say(responses().openingDetails(car));
+    later(() => host.navigation.showCar(car.id), 1500);
+  };
+
+  const handleCompareCars = (entities: ParsedEntities) => {
+    if (reportNoResults()) return;
+
+    const cars = referencedCars(entities)
+      .map(findCar)
+      .filter((car): car is Car => !!car)
+      .slice(0, 2);
+    if (cars.length < 2) {
+      host.say(responses().compareNeedsTwo);
+      return;
+    }
+
+    resultContext = { ...resultContext, focusIds: cars.map(car => car.id) };
+    host.say(responses().openingComparison(cars));
+    later(() => host.navigation.compareCars(cars.map(car => car.id)), 1500);
+  };
+
+  const handleGoBack = () => {
+    host.say(responses().goingBack);
+    later(() => host.navigation.goBack(), 1500);
+  };
+
+  const handleReturnToSearch = () => {
+    host.say(responses().returningToSearch);
+    later(() => host.navigation.returnToSearch(), 1500);
+  };
+
+  const handleDenial = () => {
+    // Turning down the smaller search leaves the wishlist and external search
+    if (host.getState().currentStep === 'awaiting_relaxation') {
+      update(() => ({ pendingRelaxation: undefined }));
+      handleNoResults();
+      return;
+    }
+
+    host.say(responses().denial);
+  };
+
+  const handleReset = (originalText: string) => {
+    update(() => ({ currentStep: 'collecting_preferences', dialogue: EMPTY_DIALOGUE_PROGRESS }));
+    recordFilterChange({}, originalText);
+    host.say(responses().reset);
+  };
+
+  // "Doesn't matter": the question waiting for an answer is not asked again, and the next one follows
+  const handleDontCare = () => {
+    const { current } = host.getState().dialogue ?? EMPTY_DIALOGUE_PROGRESS;
+    if (current) {
+      updateDialogue(progress => markDontCare(progress, [current]));
+    }
+
+    host.say(responses().dontCare);
+    askNextQuestion(host.getState().collectedFilters);
+  };
+
+  const handleWishlistRequest = () => {
+    host.say(responses().wishlist);
+    later(host.openWishlist, 1500);
+  };
+
+  const searchExternally = () => {
+    host.say(responses().externalResults);
+
+    const { ui } = getLocalePack(host.getLocale());
+    host.notify(ui.externalSearchCompleteTitle, ui.externalSearchCompleteDescription);
+    later(host.close, 3000);
+  };
+
+  const handleExternalSearchRequest = () => {
+    host.say(responses().externalSearch);
+    // Simulate external search
+    later(searchExternally, 2000);
+  };
+
+  const processVoiceCommand = ({ intent, entities }: VoiceCommand, originalText: string) => {
+    switch (intent) {
+      case 'search_cars':
+      case 'specify_filters':
+        handleFilterSpecification(entities, originalText, applyEntitiesToFilters);
+        break;
+
+      case 'replace_filters':
+        handleFilterSpecification(entities, originalText, replaceEntitiesInFilters);
+        break;
+
+      case 'remove_filters':
+        handleFilterRemoval(entities, originalText);
+        break;
+
+      case 'undo':
+        handleUndo();
+        break;
+
+      case 'summarize_filters':
+        handleSummary();
+        break;
+
+      case 'read_results':
+        handleReadResults(entities);
+        break;
+
+      case 'next_page':
+        handlePageTurn(1);
+        break;
+
+      case 'previous_page':
+        handlePageTurn(-1);
+        break;
+
+      case 'car_details':
+        handleCarDetails(entities);
+        break;
+
+      case 'compare_cars':
+        handleCompareCars(entities);
+        break;
+
+      case 'return_to_search':
+        handleReturnToSearch();
+        break;
+
+      case 'go_back':
+        handleGoBack();
+        break;
+
+      case 'dont_care':
+        handleDontCare();
+        break;
+
+      case 'confirm':
+        handleConfirmation(originalText);
+        break;
+
+      case 'deny':
+        handleDenial();
+        break;
+
+      case 'reset_filters':
+        handleReset(originalText);
+        break;
+
+      case 'wishlist_request':
+      case 'add_to_wishlist':
+        handleWishlistRequest();
+        break;
+
+      case 'external_search':
+        handleExternalSearchRequest();
+        break;
+
+      default:
+        host.say(responses().unknown);
+        break;
+    }
+  };
+
+  return {
+    start: () => {
+      host.say(responses().welcome);
+      host.setState({
+        currentStep: 'collecting_preferences',
+        collectedFilters: {},
+        history: [],
+      });
+    },
+    handle: text => {
+      const locale = host.getLocale();
+      // "Any brand" often comes with the rest of a request, so every turn is checked for it
+      const dontCare = findDontCareSlots(dialoguePlan(), text, locale);
+      if (dontCare.length > 0) {
+        updateDialogue(progress => markDontCare(progress, dontCare));
+      }
+
+      const parsed = parseVoiceCommand(text, locale);
+      const command = dontCare.length > 0 && parsed.intent === 'unknown' ? { ...parsed, intent: 'dont_care' } : parsed;
+      processVoiceCommand(command, text);
+      return command;
+    },
+    showResults: carIds => {
+      resultContext = createResultContext(carIds);
+    },
+    searchExternally,
+  };
+}
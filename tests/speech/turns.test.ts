@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TurnState, createScriptedSpeechProvider, createTurnTaking } from '@/speech';
+
+const END_OF_TURN_MS = 1000;
+const NO_SPEECH_MS = 5000;
+const LATE_TRANSCRIPT_MS = 2000;
+
+// The scripted provider, except that each answer takes as long as the test says
+const setup = ({ script = [] as string[], withVoiceDetector = false } = {}) => {
+  const scripted = createScriptedSpeechProvider(script);
+  const finishSpeaking: (() => void)[] = [];
+  const cancel = vi.fn();
+  const speech = {
+    ...scripted,
+    speak: (text: string) => {
+      scripted.speak(text);
+      return new Promise<void>(resolve => finishSpeaking.push(resolve));
+    },
+    cancel,
+  };
+
+  let voice: (() => void) | undefined;
+  const turns = createTurnTaking(speech, {
+    endOfTurnMs: END_OF_TURN_MS,
+    noSpeechMs: NO_SPEECH_MS,
+    lateTranscriptMs: LATE_TRANSCRIPT_MS,
+    detectVoice: withVoiceDetector
+      ? onVoice => {
+        voice = onVoice;
+        return () => { voice = undefined; };
+      }
+      : undefined,
+  });
+
+  const states: TurnState[] = [];
+  const utterances: string[] = [];
+  turns.onStateChange(state => states.push(state));
+  turns.onUtterance(text => utterances.push(text));
+
+  return {
+    speech: scripted,
+    turns,
+    states,
+    utterances,
+    cancel,
+    // Someone talks into the microphone
+    talk: () => voice?.(),
+    isWatchingVoice: () => voice !== undefined,
+    finishSpeaking: async () => {
+      finishSpeaking.shift()?.();
+      await vi.advanceTimersByTimeAsync(0);
+    },
+  };
+};
+
+describe('createTurnTaking', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('ends the user turn after a quiet spell and keeps listening', () => {
+    const { speech, turns, states, utterances } = setup();
+
+    turns.listen();
+    speech.submit('a BMW');
+    vi.advanceTimersByTime(END_OF_TURN_MS - 1);
+    speech.submit('under 50,000');
+    vi.advanceTimersByTime(END_OF_TURN_MS - 1);
+    expect(utterances).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(utterances).toEqual(['a BMW under 50,000']);
+    expect(states).toEqual(['listening', 'processing', 'listening']);
+  });
+
+  it('takes a recogniser stopping by itself as the end of the turn', async () => {
+    const { turns, utterances } = setup({ script: ['a diesel Audi'] });
+
+    turns.listen();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(utterances).toEqual(['a diesel Audi']);
+  });
+
+  it('gives up when nobody speaks', () => {
+    const { turns, states, utterances } = setup();
+
+    turns.listen();
+    vi.advanceTimersByTime(NO_SPEECH_MS);
+    expect(turns.state).toBe('idle');
+    expect(states).toEqual(['listening', 'idle']);
+    expect(utterances).toEqual([]);
+  });
+
+  it('speaks answers in order, then listens again', async () => {
+    const { speech, turns, states, finishSpeaking } = setup();
+
+    turns.listen();
+    turns.say('First answer');
+    turns.say('Second answer');
+    expect(turns.state).toBe('speaking');
+    expect(speech.spoken).toEqual(['First answer']);
+
+    await finishSpeaking();
+    expect(speech.spoken).toEqual(['First answer', 'Second answer']);
+    expect(turns.state).toBe('speaking');
+
+    await finishSpeaking();
+    expect(states).toEqual(['listening', 'speaking', 'listening']);
+  });
+
+  it('goes back to idle after answering when the microphone was not open', async () => {
+    const { turns, states, finishSpeaking } = setup();
+
+    turns.say('Welcome');
+    await finishSpeaking();
+    expect(states).toEqual(['speaking', 'idle']);
+  });
+
+  it('does not hear its own voice', async () => {
+    const { speech, turns, utterances, finishSpeaking } = setup();
+
+    turns.listen();
+    turns.say('Looking for BMW vehicles');
+    speech.submit('Looking for BMW vehicles');
+    vi.advanceTimersByTime(END_OF_TURN_MS);
+    expect(utterances).toEqual([]);
+
+    await finishSpeaking();
+    expect(turns.state).toBe('listening');
+  });
+
+  it('hands the turn to the user when they talk over the answer', async () => {
+    const { speech, turns, cancel, talk, finishSpeaking } = setup({ withVoiceDetector: true });
+
+    turns.say('Here are the first three results');
+    turns.say('Shall I read more?');
+    talk();
+    expect(cancel).toHaveBeenCalled();
+    expect(turns.state).toBe('listening');
+
+    // The answer that was cut off finishing late neither resumes the queue nor stops listening
+    await finishSpeaking();
+    expect(speech.spoken).toEqual(['Here are the first three results']);
+    expect(turns.state).toBe('listening');
+  });
+
+  it('ends the turn after quiet once the user stops talking', () => {
+    const { turns, utterances, talk, speech } = setup({ withVoiceDetector: true });
+
+    turns.listen();
+    speech.submit('something red');
+    talk();
+    vi.advanceTimersByTime(END_OF_TURN_MS - 1);
+    talk();
+    vi.advanceTimersByTime(END_OF_TURN_MS - 1);
+    expect(utterances).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(utterances).toEqual(['something red']);
+  });
+
+  it('takes typed text as a turn of its own, cutting off the answer', () => {
+    const { turns, cancel, utterances } = setup();
+
+    turns.say('What is your budget?');
+    turns.submit('  under 30,000  ');
+    expect(cancel).toHaveBeenCalled();
+    expect(utterances).toEqual(['under 30,000']);
+    expect(turns.state).toBe('idle');
+  });
+
+  it('waits for a transcript that arrives after the microphone closes', () => {
+    const { speech, turns, utterances } = setup();
+
+    turns.listen();
+    turns.stopListening();
+    expect(turns.state).toBe('processing');
+
+    speech.submit('an estate car');
+    expect(utterances).toEqual(['an estate car']);
+    expect(turns.state).toBe('idle');
+  });
+
+  it('stops waiting for a late transcript after a while', () => {
+    const { turns, utterances } = setup();
+
+    turns.listen();
+    turns.stopListening();
+    vi.advanceTimersByTime(LATE_TRANSCRIPT_MS);
+    expect(turns.state).toBe('idle');
+    expect(utterances).toEqual([]);
+  });
+
+  it('drops queued answers on silence without listening', async () => {
+    const { speech, turns, finishSpeaking } = setup();
+
+    turns.say('One');
+    turns.say('Two');
+    turns.silence();
+    await finishSpeaking();
+    expect(speech.spoken).toEqual(['One']);
+    expect(turns.state).toBe('idle');
+  });
+
+  it('stops its timers, the voice detector and every listener on dispose', () => {
+    const { speech, turns, states, utterances, isWatchingVoice } = setup({ withVoiceDetector: true });
+
+    turns.listen();
+    speech.submit('a Tesla');
+    expect(isWatchingVoice()).toBe(true);
+    const statesBefore = [...states];
+
+    turns.dispose();
+    expect(isWatchingVoice()).toBe(false);
+    vi.advanceTimersByTime(NO_SPEECH_MS);
+    speech.submit('a Porsche');
+    expect(utterances).toEqual([]);
+    expect(states).toEqual(statesBefore);
+  });
+});
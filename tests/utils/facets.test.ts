@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Car } from '@/types/car';
+import { sampleCars } from '@/data/cars';
+import { computeFacets } from '@/utils/facets';
+
+const car = (overrides: Partial<Car>): Car => ({ ...sampleCars[0], ...overrides });
+
+const cars = [
+  car({ id: 'bmw', make: 'BMW', fuelType: 'petrol' }),
+  car({ id: 'audi', make: 'Audi', fuelType: 'diesel' }),
+  car({ id: 'tesla', make: 'Tesla', fuelType: 'electric' }),
+];
+
+describe('computeFacets', () => {
+  it('counts each value as if it were the only one selected in its group', () => {
+    expect(computeFacets(cars, { makes: ['BMW'], fuelTypes: ['diesel', 'petrol'] }).makes).toEqual([
+      { value: 'Audi', count: 1 },
+      { value: 'BMW', count: 1 },
+      { value: 'Tesla', count: 0 },
+    ]);
+  });
+
+  it('lists a selected value no car has, with a count of 0', () => {
+    expect(computeFacets(cars, { makes: ['Ferrari'] }).makes).toEqual([
+      { value: 'Audi', count: 1 },
+      { value: 'BMW', count: 1 },
+      { value: 'Ferrari', count: 0 },
+      { value: 'Tesla', count: 1 },
+    ]);
+  });
+
+  it('spells a value as it was selected when only the case differs', () => {
+    expect(computeFacets(cars, { makes: ['bmw'] }).makes).toContainEqual({ value: 'bmw', count: 1 });
+    expect(computeFacets(cars, { makes: ['bmw'] }).makes).not.toContainEqual(expect.objectContaining({ value: 'BMW' }));
+  });
+});
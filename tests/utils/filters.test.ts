@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Car } from '@/types/car';
+import { sampleCars } from '@/data/cars';
+import { filterCars, getMissedCriteria } from '@/utils/filters';
+
+const car = (overrides: Partial<Car>): Car => ({ ...sampleCars[0], ...overrides });
+
+const bmw = car({ id: 'bmw', make: 'BMW', model: 'M4 Competition', price: 89500, mileage: 0, fuelType: 'petrol', firstRegistration: 2024 });
+const audi = car({ id: 'audi', make: 'Audi', model: 'RS6 Avant', price: 118000, mileage: 20000, fuelType: 'petrol', firstRegistration: 2021 });
+const tesla = car({ id: 'tesla', make: 'Tesla', model: 'Model S Plaid', price: 129990, mileage: 5000, fuelType: 'electric', firstRegistration: 2023 });
+const cars = [bmw, audi, tesla];
+
+const ids = (found: Car[]) => found.map(({ id }) => id);
+
+describe('filterCars', () => {
+  it('returns every car without filters', () => {
+    expect(ids(filterCars(cars, {}))).toEqual(['bmw', 'audi', 'tesla']);
+  });
+
+  it('keeps cars within a range, bounds included', () => {
+    expect(ids(filterCars(cars, { priceMin: 89500, priceMax: 118000 }))).toEqual(['bmw', 'audi']);
+    expect(ids(filterCars(cars, { yearMin: 2023 }))).toEqual(['bmw', 'tesla']);
+    expect(ids(filterCars(cars, { mileageMax: 5000 }))).toEqual(['bmw', 'tesla']);
+  });
+
+  it('treats a zero bound as no limit', () => {
+    expect(ids(filterCars(cars, { priceMin: 0, priceMax: 0 }))).toEqual(['bmw', 'audi', 'tesla']);
+  });
+
+  it('leaves out excluded values', () => {
+    expect(ids(filterCars(cars, { excludeMakes: ['BMW'] }))).toEqual(['audi', 'tesla']);
+    expect(ids(filterCars(cars, { excludeFuelTypes: ['electric'] }))).toEqual(['bmw', 'audi']);
+    expect(ids(filterCars(cars, { excludeModels: ['Model S'] }))).toEqual(['bmw', 'audi']);
+  });
+
+  it('applies an exclusion even when the same value is also included', () => {
+    expect(ids(filterCars(cars, { makes: ['BMW', 'Audi'], excludeMakes: ['bmw'] }))).toEqual(['audi']);
+  });
+
+  it('compares values regardless of case and surrounding spaces', () => {
+    expect(ids(filterCars(cars, { makes: [' bmw '] }))).toEqual(['bmw']);
+    expect(ids(filterCars(cars, { fuelTypes: ['ELECTRIC'] }))).toEqual(['tesla']);
+  });
+
+  it('matches a model on a run of its words', () => {
+    expect(ids(filterCars(cars, { models: ['m4'] }))).toEqual(['bmw']);
+    expect(ids(filterCars(cars, { models: ['model s'] }))).toEqual(['tesla']);
+    expect(ids(filterCars(cars, { models: ['Plaid Model'] }))).toEqual([]);
+  });
+
+  it('only restricts on a feature when it is switched on', () => {
+    const withSunroof = car({ id: 'sunroof', sunroof: true });
+    const without = car({ id: 'plain', sunroof: false });
+    expect(ids(filterCars([withSunroof, without], { sunroof: false }))).toEqual(['sunroof', 'plain']);
+    expect(ids(filterCars([withSunroof, without], { sunroof: true }))).toEqual(['sunroof']);
+  });
+});
+
+describe('getMissedCriteria', () => {
+  it('is empty for an exact match', () => {
+    expect(getMissedCriteria(bmw, { makes: ['BMW'], priceMax: 90000 })).toEqual([]);
+  });
+
+  it('names each bound of a range on its own', () => {
+    expect(getMissedCriteria(audi, { priceMax: 100000 })).toEqual(['priceMax']);
+    expect(getMissedCriteria(bmw, { priceMin: 100000 })).toEqual(['priceMin']);
+  });
+
+  it('names every criterion a car fails', () => {
+    expect(getMissedCriteria(tesla, { makes: ['bmw'], excludeFuelTypes: ['Electric'], mileageMax: 1000 }))
+      .toEqual(['makes', 'mileageMax', 'excludeFuelTypes']);
+  });
+});
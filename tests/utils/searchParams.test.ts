@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { CarFilters } from '@/types/car';
+import {
+  SEARCH_SCHEMA_VERSION,
+  migrateParams,
+  parseFilters,
+  parseSearchState,
+  serializeFilters,
+  serializeSearchState,
+} from '@/utils/searchParams';
+
+// Every filter set to something other than its default; a new filter does not compile until it is added here
+const everyFilter: CarFilters = {
+  makes: ['BMW', 'Audi'],
+  models: ['M4 Competition'],
+  excludeMakes: ['Ferrari'],
+  excludeModels: ['Golf R'],
+  vehicleTypes: ['sedan'],
+  excludeVehicleTypes: ['sports-coupe'],
+  seatsMin: 4,
+  seatsMax: 7,
+  doors: '4-5',
+  slidingDoor: 'yes',
+  conditions: ['used'],
+  paymentTypes: ['leasing'],
+  priceMin: 20000,
+  priceMax: 90000,
+  yearMin: 2018,
+  yearMax: 2024,
+  mileageMin: 1000,
+  mileageMax: 50000,
+  huValidMonths: 12,
+  numberOfOwners: '2',
+  fullServiceHistory: true,
+  roadworthy: true,
+  newService: true,
+  countries: ['DE', 'AT'],
+  city: 'München',
+  zipCode: '80331',
+  zipCountry: 'DE',
+  radius: 50,
+  deliveryAvailable: true,
+  fuelTypes: ['petrol', 'hybrid'],
+  excludeFuelTypes: ['diesel'],
+  powerMin: 150,
+  powerMax: 500,
+  cubicCapacityMin: 1400,
+  cubicCapacityMax: 3000,
+  driveTypes: ['awd'],
+  transmissions: ['automatic'],
+  excludeTransmissions: ['manual'],
+  emissionClasses: ['euro6'],
+  particulateFilter: true,
+  exteriorColors: ['black'],
+  excludeExteriorColors: ['yellow'],
+  parkingSensors: ['front', 'rear'],
+  cruiseControl: ['adaptive'],
+  interiorMaterials: ['leather'],
+  airConditioning: ['automatic'],
+  sunroof: true,
+  trailerCoupling: true,
+  heatedSeats: true,
+  navigationSystem: true,
+  carPlay: true,
+  alloyWheels: true,
+  ledHeadlights: true,
+  laneChangeAssist: true,
+  emergencyBrakeAssist: true,
+  preferredUseCases: ['family'],
+};
+
+const roundTrip = (filters: Partial<CarFilters>) =>
+  parseFilters(new URLSearchParams(serializeFilters(filters).toString()));
+
+describe('serializeFilters and parseFilters', () => {
+  it('round-trip every filter', () => {
+    expect(roundTrip(everyFilter)).toEqual(everyFilter);
+  });
+
+  it.each(Object.keys(everyFilter) as (keyof CarFilters)[])('round-trip %s on its own', key => {
+    expect(roundTrip({ [key]: everyFilter[key] })).toEqual({ [key]: everyFilter[key] });
+  });
+
+  it('keeps an open-ended range open', () => {
+    expect(serializeFilters({ priceMax: 50000 }).get('pr')).toBe('-50000');
+    expect(roundTrip({ yearMin: 2020 })).toEqual({ yearMin: 2020 });
+  });
+
+  it('drops defaults and empty values', () => {
+    const params = serializeFilters({
+      makes: [],
+      priceMin: 0,
+      priceMax: 0,
+      radius: 0,
+      doors: 'any',
+      slidingDoor: 'any',
+      numberOfOwners: 'any',
+      city: '',
+      sunroof: false,
+    });
+    expect(params.toString()).toBe('');
+  });
+
+  it('ignores values it does not know', () => {
+    expect(parseFilters(new URLSearchParams('dt=7&ft=sunroof,jetpack&hu=-3'))).toEqual({ sunroof: true });
+  });
+});
+
+describe('serializeSearchState and parseSearchState', () => {
+  it('round-trip the whole search', () => {
+    const state = { filters: { makes: ['BMW'], priceMax: 90000 }, searchTerm: 'm4', sort: 'price-asc', page: 3, viewMode: 'list' as const };
+    expect(parseSearchState(serializeSearchState(state))).toEqual(state);
+  });
+
+  it('writes nothing, not even a version, for the default search', () => {
+    expect(serializeSearchState({ filters: {}, searchTerm: '', page: 1, viewMode: 'grid' }).toString()).toBe('');
+  });
+
+  it('stamps the current version', () => {
+    expect(serializeSearchState({ searchTerm: 'audi' }).get('v')).toBe(String(SEARCH_SCHEMA_VERSION));
+  });
+});
+
+describe('migrateParams', () => {
+  // A made-up version 2 that renamed the price range from "price" to "pr"
+  const migrations = {
+    1: (params: URLSearchParams) => {
+      const migrated = new URLSearchParams(params);
+      const price = migrated.get('price');
+      migrated.delete('price');
+      if (price) migrated.set('pr', price);
+      return migrated;
+    },
+  };
+
+  it('reads an unversioned link as the first version', () => {
+    expect(parseSearchState(new URLSearchParams('mk=BMW&pr=-50000')).filters).toEqual({ makes: ['BMW'], priceMax: 50000 });
+    expect(migrateParams(new URLSearchParams('price=-50000'), migrations, 2).get('pr')).toBe('-50000');
+  });
+
+  it('upgrades a link from an older version', () => {
+    const migrated = migrateParams(new URLSearchParams('v=1&price=10000-20000&mk=Audi'), migrations, 2);
+    expect(parseFilters(migrated)).toEqual({ makes: ['Audi'], priceMin: 10000, priceMax: 20000 });
+  });
+
+  it('leaves a link already on the target version alone', () => {
+    const params = new URLSearchParams('v=2&price=10000-20000');
+    expect(migrateParams(params, migrations, 2).toString()).toBe(params.toString());
+  });
+});
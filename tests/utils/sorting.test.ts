@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { sampleCars } from '@/data/cars';
+import { DEFAULT_USE_CASES } from '@/data/useCases';
+import { rankCars } from '@/utils/sorting';
+
+const makes = (cars: { make: string }[]) => cars.map(({ make }) => make);
+
+describe('rankCars', () => {
+  it('narrows a single-criterion search to its exact matches', () => {
+    const { matches, closeMatches } = rankCars(sampleCars, { makes: ['BMW'] });
+    expect(makes(matches)).toEqual(['BMW']);
+    expect(closeMatches).toEqual([]);
+  });
+
+  it('never offers an excluded car as a close match', () => {
+    const { matches, closeMatches } = rankCars(sampleCars, { excludeMakes: ['BMW'], priceMax: 90000 });
+    expect(makes(matches)).not.toContain('BMW');
+    expect(makes(closeMatches.map(({ car }) => car))).not.toContain('BMW');
+  });
+
+  it('offers cars just over a limit as close matches, apart from the matches', () => {
+    const { matches, closeMatches } = rankCars(sampleCars, { excludeMakes: ['BMW'], priceMax: 90000 });
+    expect(matches.every(car => car.price <= 90000)).toBe(true);
+    expect(closeMatches.map(({ car, missedCriteria }) => [car.make, missedCriteria])).toEqual([
+      ['Land Rover', ['priceMax']],
+    ]);
+  });
+
+  it('does not relax ticked options', () => {
+    const { closeMatches } = rankCars(sampleCars, { makes: ['Tesla'], fuelTypes: ['petrol'] });
+    expect(closeMatches).toEqual([]);
+  });
+
+  it('only returns exact matches for an explicit sort', () => {
+    const { matches, closeMatches } = rankCars(sampleCars, { excludeMakes: ['BMW'], priceMax: 90000 }, 'price-asc');
+    expect(matches.map(car => car.price)).toEqual([...matches.map(car => car.price)].sort((a, b) => a - b));
+    expect(closeMatches).toEqual([]);
+  });
+
+  it('ranks cars by the soft requirements of a preferred use case without filtering on them', () => {
+    const estate = { ...sampleCars[2], id: 'estate', slidingDoor: false };
+    const van = { ...sampleCars[2], id: 'van', vehicleType: 'van' as const, slidingDoor: true };
+    const filters = { seatsMin: 5, vehicleTypes: ['estate', 'van'], preferredUseCases: ['family'] };
+
+    const { matches } = rankCars([estate, van], filters, 'relevance', DEFAULT_USE_CASES);
+    expect(matches.map(({ id }) => id)).toEqual(['van', 'estate']);
+  });
+});
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateConversations } from './voiceEvaluation';
+import { GOLDEN_CONVERSATIONS } from './goldenConversations';
+
+describe('golden conversations', () => {
+  it.each(GOLDEN_CONVERSATIONS.map(conversation => [conversation.name, conversation] as const))(
+    '%s',
+    async (_name, conversation) => {
+      const { failures } = await evaluateConversations([conversation]);
+      expect(failures).toEqual([]);
+    },
+  );
+});
@@ -0,0 +1,250 @@
+import type { GoldenConversation } from './voiceEvaluation';
+
+// Conversations the voice assistant has to get through as scripted, on the
+// sample inventory and the default dialogue plan. A turn only checks what it
+// lists; where it lists entities, it lists all of them.
+export const GOLDEN_CONVERSATIONS: GoldenConversation[] = [
+  {
+    name: 'Narrowing down to one car and opening it',
+    turns: [
+      {
+        user: "I'm looking for a BMW under 100,000 euros",
+        intent: 'search_cars',
+        entities: { make: ['BMW'], priceRange: [{ max: 100000 }] },
+        filters: { makes: ['BMW'], priceMax: 100000 },
+        // Only one car is left, so there is nothing worth asking
+        replies: ['Got it! Looking for BMW vehicles, under €100,000', 'Is there anything else'],
+      },
+      {
+        user: "Yes, that's everything",
+        intent: 'confirm',
+        replies: ['Let me search', 'I found 1 matching car'],
+        actions: ['search'],
+      },
+      {
+        user: 'Tell me more about the first one',
+        intent: 'car_details',
+        entities: { resultReference: [1] },
+        replies: ['BMW M4 Competition'],
+        actions: ['showCar:1'],
+      },
+    ],
+  },
+  {
+    name: 'No preference on the brand',
+    turns: [
+      {
+        user: 'I want a petrol car',
+        intent: 'specify_filters',
+        entities: { fuelType: ['petrol'] },
+        filters: { fuelTypes: ['petrol'] },
+        replies: ['petrol fuel type', 'What car brand would you prefer?'],
+      },
+      {
+        user: 'Any brand',
+        intent: 'dont_care',
+        entities: {},
+        replies: ["I won't ask about that", "What's your budget range?"],
+      },
+      {
+        user: 'Under 100,000 euros',
+        intent: 'specify_filters',
+        entities: { priceRange: [{ max: 100000 }] },
+        filters: { fuelTypes: ['petrol'], priceMax: 100000 },
+        // Every petrol car under the limit is an automatic, so the gearbox is not worth asking about
+        replies: ['under €100,000', 'What type of vehicle interests you?'],
+      },
+      {
+        user: 'Anything but a coupe',
+        intent: 'specify_filters',
+        excluded: { vehicleType: ['sports-coupe'] },
+        filters: { fuelTypes: ['petrol'], priceMax: 100000, excludeVehicleTypes: ['sports-coupe'] },
+      },
+      {
+        user: 'What have I set so far?',
+        intent: 'summarize_filters',
+        replies: ['So far you\'re looking for'],
+      },
+    ],
+  },
+  {
+    name: 'Changing, undoing and resetting filters',
+    turns: [
+      {
+        user: 'A diesel Audi',
+        intent: 'specify_filters',
+        entities: { make: ['Audi'], fuelType: ['diesel'] },
+        filters: { makes: ['Audi'], fuelTypes: ['diesel'] },
+      },
+      {
+        user: 'Actually petrol instead',
+        intent: 'replace_filters',
+        entities: { fuelType: ['petrol'] },
+        filters: { makes: ['Audi'], fuelTypes: ['petrol'] },
+      },
+      {
+        user: 'Undo',
+        intent: 'undo',
+        filters: { makes: ['Audi'], fuelTypes: ['diesel'] },
+        replies: ['Actually petrol instead'],
+      },
+      {
+        user: 'Remove the diesel',
+        intent: 'remove_filters',
+        entities: { fuelType: ['diesel'] },
+        filters: { makes: ['Audi'] },
+      },
+      {
+        user: 'Start over',
+        intent: 'reset_filters',
+        filters: {},
+      },
+    ],
+  },
+  {
+    name: 'Taking a smaller search when nothing matches',
+    turns: [
+      {
+        user: 'A Tesla under 100,000 euros',
+        intent: 'specify_filters',
+        entities: { make: ['Tesla'], priceRange: [{ max: 100000 }] },
+        filters: { makes: ['Tesla'], priceMax: 100000 },
+      },
+      {
+        user: 'Yes please',
+        intent: 'confirm',
+        replies: ['Let me search', "I don't have an exact match, but I have 1 car"],
+        actions: ['search'],
+      },
+      {
+        user: 'Yes',
+        intent: 'confirm',
+        filters: { makes: ['Tesla'], priceMax: 130000 },
+        replies: ['Let me search', 'I found 1 matching car'],
+        actions: ['search'],
+      },
+    ],
+  },
+  {
+    name: 'Browsing and comparing results',
+    turns: [
+      {
+        user: 'Show me cars under 100,000 euros',
+        intent: 'search_cars',
+        entities: { priceRange: [{ max: 100000 }] },
+        filters: { priceMax: 100000 },
+      },
+      {
+        user: 'Read me the first three',
+        intent: 'read_results',
+        entities: { resultReference: [1, 2, 3] },
+      },
+      {
+        user: 'Compare the first and third',
+        intent: 'compare_cars',
+        entities: { resultReference: [1, 3] },
+        replies: ["Let's compare"],
+      },
+      {
+        user: 'Go back',
+        intent: 'go_back',
+        actions: ['goBack'],
+      },
+    ],
+  },
+  {
+    name: 'Wishlist and other dealers',
+    turns: [
+      {
+        user: 'A red Ferrari with a manual gearbox',
+        intent: 'specify_filters',
+        entities: { color: ['Red'], make: ['Ferrari'], transmission: ['manual'] },
+      },
+      {
+        user: 'Add it to my wishlist',
+        intent: 'wishlist_request',
+        actions: ['openWishlist'],
+      },
+      {
+        user: 'Search other dealers',
+        intent: 'external_search',
+        actions: ['close'],
+      },
+    ],
+  },
+  {
+    name: 'Ein Gespräch auf Deutsch',
+    locale: 'de',
+    turns: [
+      {
+        user: 'Ich suche ein Auto mit Benzin',
+        intent: 'search_cars',
+        entities: { fuelType: ['petrol'] },
+        filters: { fuelTypes: ['petrol'] },
+        replies: ['Benzin', 'Welche Marke bevorzugen Sie?'],
+      },
+      {
+        user: 'Marke egal',
+        intent: 'dont_care',
+        replies: ['danach frage ich nicht mehr', 'Wie hoch ist Ihr Budget?'],
+      },
+      {
+        user: 'Unter 100.000 Euro',
+        intent: 'specify_filters',
+        entities: { priceRange: [{ max: 100000 }] },
+        filters: { fuelTypes: ['petrol'], priceMax: 100000 },
+      },
+      {
+        user: 'Zurück zu meiner Suche',
+        intent: 'return_to_search',
+        actions: ['returnToSearch'],
+      },
+    ],
+  },  {
+    name: 'Cheaper with no price limit set',
+    turns: [
+      {
+        user: 'I want a petrol car',
+        intent: 'specify_filters',
+        filters: { fuelTypes: ['petrol'] },
+      },
+      {
+        // Goes below the dearest petrol car on show, the €325,000 Ferrari
+        user: 'Something a bit cheaper',
+        intent: 'specify_filters',
+        entities: { adjustment: ['cheaper'] },
+        filters: { fuelTypes: ['petrol'], priceMax: 292500 },
+        replies: ['something cheaper'],
+      },
+    ],
+  },  {
+    name: 'Limits that start with "no"',
+    turns: [
+      {
+        user: 'I want a BMW with no more than 50,000 km',
+        intent: 'specify_filters',
+        entities: { make: ['BMW'], mileageRange: [{ max: 50000 }] },
+        filters: { makes: ['BMW'], mileageMax: 50000 },
+      },
+      {
+        // A minimum year, not a maximum
+        user: 'No older than 2018',
+        intent: 'specify_filters',
+        entities: { yearRange: [{ min: 2018 }] },
+        filters: { makes: ['BMW'], mileageMax: 50000, yearMin: 2018 },
+      },
+      {
+        user: 'no more than 100000 euros',
+        intent: 'specify_filters',
+        entities: { priceRange: [{ max: 100000 }] },
+        filters: { makes: ['BMW'], mileageMax: 50000, yearMin: 2018, priceMax: 100000 },
+      },
+      {
+        user: 'And no more than 2 previous owners',
+        intent: 'specify_filters',
+        entities: { ownersRange: [{ max: 2 }] },
+        filters: { makes: ['BMW'], mileageMax: 50000, yearMin: 2018, priceMax: 100000, numberOfOwners: '2' },
+      },
+    ],
+  },
+];
@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { runNlpRegressionCorpus } from './nlpRegression';
+import { NLP_REGRESSION_CORPUS } from './nlpRegressionCorpus';
+
+describe('NLP regression corpus', () => {
+  it.each(NLP_REGRESSION_CORPUS.map(regression => [regression.utterance, regression] as const))(
+    'parses "%s"',
+    (_utterance, regression) => {
+      expect(runNlpRegressionCorpus([regression])).toEqual([]);
+    },
+  );
+});
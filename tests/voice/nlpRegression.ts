@@ -0,0 +1,68 @@
+import { NumericRange, ParsedEntity, ParsedEntityType } from '@/types/car';
+import { LocaleCode } from '@/locales';
+import { getEntities, parseVoiceCommand } from '@/utils/nlp';
+
+// An utterance the parser once got wrong, with what it should produce instead
+export interface NlpRegressionCase {
+  utterance: string;
+  // Defaults to English
+  locale?: LocaleCode;
+  intent?: string;
+  // Entity values that must be present, e.g. { fuelType: ['electric'] }; use cases by id
+  expected?: Partial<Record<ParsedEntityType, ExpectedValue[]>>;
+  // Entity types that must not be extracted at all
+  absent?: ParsedEntityType[];
+}
+
+export type ExpectedValue = string | number | NumericRange;
+
+export interface NlpRegressionFailure {
+  utterance: string;
+  problems: string[];
+}
+
+// Use cases are expected by id; everything else by value
+export const entityValue = (entity: ParsedEntity): unknown =>
+  (entity.type === 'useCase' ? entity.value.id : entity.value);
+
+export const sameValue = (actual: unknown, expected: ExpectedValue) =>
+  typeof expected !== 'object'
+    ? actual === expected
+    : typeof actual === 'object' && actual !== null
+      && (actual as NumericRange).min === expected.min && (actual as NumericRange).max === expected.max;
+
+export const describeValue = (value: ExpectedValue) => (typeof value !== 'object' ? String(value) : JSON.stringify(value));
+
+/**
+ * Run a corpus, such as NLP_REGRESSION_CORPUS, through the parser and list
+ * what went wrong per utterance. Returns an empty array when every case
+ * passes.
+ */
+export function runNlpRegressionCorpus(corpus: NlpRegressionCase[]): NlpRegressionFailure[] {
+  return corpus.flatMap(({ utterance, locale, intent, expected = {}, absent = [] }) => {
+    const command = parseVoiceCommand(utterance, locale);
+    const problems: string[] = [];
+
+    if (intent && command.intent !== intent) {
+      problems.push(`intent: expected ${intent}, got ${command.intent}`);
+    }
+
+    for (const [type, values] of Object.entries(expected) as [ParsedEntityType, ExpectedValue[]][]) {
+      const found = getEntities(command.entities, type).map(entityValue);
+      for (const value of values) {
+        if (!found.some(actual => sameValue(actual, value))) {
+          problems.push(`${type}: expected ${describeValue(value)}, got ${JSON.stringify(found)}`);
+        }
+      }
+    }
+
+    for (const type of absent) {
+      const found = getEntities(command.entities, type);
+      if (found.length > 0) {
+        problems.push(`${type}: expected none, got ${found.map(entity => `"${entity.span.text}"`).join(', ')}`);
+      }
+    }
+
+    return problems.length > 0 ? [{ utterance, problems }] : [];
+  });
+}
@@ -0,0 +1,146 @@
+import type { NlpRegressionCase } from './nlpRegression';
+
+// Utterances the parser once got wrong. Add the phrase here whenever a parsing
+// bug is fixed, so it stays fixed.
+export const NLP_REGRESSION_CORPUS: NlpRegressionCase[] = [
+  // Keywords hiding inside longer words
+  { utterance: 'I need to renew my lease on something cheap', absent: ['condition'] },
+  { utterance: 'I drive to work every day', absent: ['fuelType'] },
+  { utterance: 'Something I can take to Vegas', absent: ['fuelType'] },
+  { utterance: 'I know what I want', intent: 'unknown' },
+  { utterance: 'No, that is wrong', intent: 'deny' },
+  { utterance: 'no more than 30000 euros', intent: 'specify_filters', expected: { priceRange: [{ max: 30000 }] } },
+  { utterance: 'no more than 50,000 km', intent: 'specify_filters', expected: { mileageRange: [{ max: 50000 }] } },
+  { utterance: 'no older than 2018', intent: 'specify_filters', expected: { yearRange: [{ min: 2018 }] } },
+  { utterance: 'An Audi not older than 2019', intent: 'specify_filters', expected: { make: ['Audi'], yearRange: [{ min: 2019 }] } },
+  { utterance: 'Not less than 200 hp', expected: { powerRange: [{ min: 200 }] } },
+  { utterance: 'No cheaper than 15,000', intent: 'specify_filters', expected: { priceRange: [{ min: 15000 }] } },
+  { utterance: 'Nicht älter als 2018', locale: 'de', expected: { yearRange: [{ min: 2018 }] } },
+  { utterance: 'a BMW with no more than 2 previous owners', intent: 'specify_filters', expected: { make: ['BMW'], ownersRange: [{ max: 2 }] } },
+  { utterance: 'Show me a new EV', intent: 'search_cars', expected: { condition: ['new'], fuelType: ['electric'] } },
+
+  // Longest phrase wins
+  { utterance: 'A plug-in hybrid SUV', expected: { fuelType: ['plug-in-hybrid'], vehicleType: ['suv'] } },
+  { utterance: 'Tesla Model 3 under 40,000 euros', expected: { make: ['Tesla'], priceRange: [{ max: 40000 }] } },
+
+  // Numbers attributed by unit and context
+  { utterance: 'Show me cars from 2020', expected: { yearRange: [{ min: 2020 }] }, absent: ['priceRange'] },
+  { utterance: 'Under 50,000 km please', expected: { mileageRange: [{ max: 50000 }] }, absent: ['priceRange'] },
+  { utterance: 'Under 50,000 euros', expected: { priceRange: [{ max: 50000 }] }, absent: ['mileageRange'] },
+  { utterance: 'My budget is 25k', expected: { priceRange: [{ max: 25000 }] }, absent: ['mileageRange', 'yearRange'] },
+  {
+    utterance: 'Registered 2018 or newer with less than 80.000 km',
+    expected: { yearRange: [{ min: 2018 }], mileageRange: [{ max: 80000 }] },
+    absent: ['priceRange'],
+  },
+  { utterance: 'Between 20,000 and 30,000 euros', expected: { priceRange: [{ min: 20000, max: 30000 }] } },
+  { utterance: 'No more than 30,000', intent: 'specify_filters', expected: { priceRange: [{ max: 30000 }] }, absent: ['mileageRange'] },
+  { utterance: 'At least 300 hp', expected: { powerRange: [{ min: 300 }] }, absent: ['priceRange'] },
+  { utterance: 'Over 150 kW', expected: { powerRange: [{ min: 204 }] } },
+  { utterance: 'A 2019 BMW for 30,000 euros', expected: { yearRange: [{ min: 2019 }], priceRange: [{ max: 30000 }] } },
+  { utterance: 'Under fifty thousand euros', expected: { priceRange: [{ max: 50000 }] } },
+  { utterance: 'Twenty five thousand km or less', expected: { mileageRange: [{ max: 25000 }] }, absent: ['priceRange'] },
+
+  // Spoken numbers and shorthand
+  { utterance: 'Around 30 grand', expected: { priceRange: [{ max: 30000 }] } },
+  { utterance: 'Budget of 1.5 million', expected: { priceRange: [{ max: 1500000 }] } },
+  { utterance: 'Under 50 thousand kilometers', expected: { mileageRange: [{ max: 50000 }] }, absent: ['priceRange'] },
+  { utterance: 'Between forty and fifty k', expected: { priceRange: [{ min: 40000, max: 50000 }] } },
+  { utterance: 'From 20 to 30 thousand euros', expected: { priceRange: [{ min: 20000, max: 30000 }] } },
+  { utterance: 'Registered twenty twenty or newer', expected: { yearRange: [{ min: 2020 }] }, absent: ['priceRange'] },
+  { utterance: 'Built in nineteen ninety nine', expected: { yearRange: [{ min: 1999 }] } },
+  { utterance: 'At least two hundred horsepower', expected: { powerRange: [{ min: 200 }] } },
+
+  // Capacity, ownership and inspection
+  { utterance: 'At least 300 horsepower', expected: { powerRange: [{ min: 300 }] } },
+  { utterance: 'A 7 seater with five doors', expected: { seatsRange: [{ min: 7 }], doorsRange: [{ min: 5 }] } },
+  { utterance: 'A 5-door hatchback', expected: { doorsRange: [{ min: 5 }], vehicleType: ['small-car'] } },
+  { utterance: 'A van with a sliding door', expected: { vehicleType: ['van'], slidingDoor: ['yes'] }, absent: ['doorsRange'] },
+  { utterance: 'One owner with full service history', expected: { ownersRange: [{ max: 1 }], feature: ['fullServiceHistory'] } },
+  { utterance: 'No more than two owners', intent: 'specify_filters', expected: { ownersRange: [{ max: 2 }] }, absent: ['priceRange'] },
+  {
+    utterance: 'I need a car with at most 2 previous owners',
+    intent: 'specify_filters',
+    expected: { ownersRange: [{ max: 2 }] },
+    absent: ['priceRange'],
+  },
+  { utterance: 'Three prior owners or fewer', expected: { ownersRange: [{ max: 3 }] } },
+  { utterance: 'Höchstens 2 vorherige Halter', locale: 'de', expected: { ownersRange: [{ max: 2 }] } },
+  { utterance: 'TÜV for two years', expected: { huValidityRange: [{ min: 24 }] }, absent: ['yearRange'] },
+  { utterance: 'A 2 litre engine', expected: { cubicCapacityRange: [{ min: 2000 }] } },
+  { utterance: 'Less than 3 years old', absent: ['huValidityRange', 'yearRange', 'priceRange'] },
+
+  // German
+  {
+    utterance: 'Ich suche einen gebrauchten BMW Kombi unter fünfzigtausend Euro',
+    locale: 'de',
+    intent: 'search_cars',
+    expected: { condition: ['used'], make: ['BMW'], vehicleType: ['estate'], priceRange: [{ max: 50000 }] },
+  },
+  {
+    utterance: 'Kilometerstand unter 80.000 km, Erstzulassung ab 2019',
+    locale: 'de',
+    expected: { mileageRange: [{ max: 80000 }], yearRange: [{ min: 2019 }] },
+    absent: ['priceRange'],
+  },
+  { utterance: 'Keinen Diesel oder Benzin', locale: 'de', expected: { fuelType: ['diesel', 'petrol'] }, intent: 'specify_filters' },
+  { utterance: 'Nicht mehr als dreißigtausend', locale: 'de', expected: { priceRange: [{ max: 30000 }] } },
+  { utterance: 'Einen roten Audi mit Sitzheizung', locale: 'de', expected: { color: ['Red'], make: ['Audi'], feature: ['heatedSeats'] } },
+  { utterance: 'Mindestens 150 PS mit Automatik', locale: 'de', expected: { powerRange: [{ min: 150 }], transmission: ['automatic'] } },
+  { utterance: 'Zwischen zwanzigtausend und fünfundzwanzigtausend', locale: 'de', expected: { priceRange: [{ min: 20000, max: 25000 }] } },
+  { utterance: 'Maximal €45.000', locale: 'de', expected: { priceRange: [{ max: 45000 }] } },
+  { utterance: 'Bis 1,5 Mio', locale: 'de', expected: { priceRange: [{ max: 1500000 }] } },
+  { utterance: 'Zwanzig bis dreißigtausend Euro', locale: 'de', expected: { priceRange: [{ min: 20000, max: 30000 }] } },
+  { utterance: 'Baujahr zweitausendachtzehn', locale: 'de', expected: { yearRange: [{ min: 2018 }] }, absent: ['priceRange'] },
+  { utterance: 'Ein 7-Sitzer mit Schiebetür', locale: 'de', expected: { seatsRange: [{ min: 7 }], slidingDoor: ['yes'] } },
+  { utterance: 'Aus erster Hand und scheckheftgepflegt', locale: 'de', expected: { ownersRange: [{ max: 1 }], feature: ['fullServiceHistory'] } },
+  { utterance: 'Mit 2 Jahre TÜV', locale: 'de', expected: { huValidityRange: [{ min: 24 }] } },
+  { utterance: 'TÜV neu, fünf Türen', locale: 'de', expected: { huValidityRange: [{ min: 24 }], doorsRange: [{ min: 5 }] }, absent: ['condition'] },
+  // Dialogue acts on filters already set
+  { utterance: 'Actually make it Audi instead', intent: 'replace_filters', expected: { make: ['Audi'] } },
+  { utterance: 'Remove the sunroof', intent: 'remove_filters', expected: { feature: ['sunroof'] } },
+  { utterance: 'A bit cheaper', intent: 'specify_filters', expected: { adjustment: ['cheaper'] } },
+  { utterance: 'Something with less mileage', expected: { adjustment: ['lessMileage'] }, absent: ['mileageRange'] },
+  { utterance: 'Cheaper than 20,000', expected: { priceRange: [{ max: 20000 }] }, absent: ['adjustment'] },
+  { utterance: 'Undo that', intent: 'undo' },
+  { utterance: 'What have I set so far?', intent: 'summarize_filters' },
+  { utterance: 'Lieber einen Mercedes', locale: 'de', intent: 'replace_filters', expected: { make: ['Mercedes'] } },
+  { utterance: 'Audi statt BMW', locale: 'de', intent: 'replace_filters', expected: { make: ['Audi', 'BMW'] } },
+  { utterance: 'Anstatt Diesel einen Benziner', locale: 'de', intent: 'replace_filters', expected: { fuelType: ['diesel', 'petrol'] } },
+  { utterance: 'Anstelle von Schwarz Rot', locale: 'de', intent: 'replace_filters', expected: { color: ['Black', 'Red'] } },
+  { utterance: 'Ein neuer BMW', locale: 'de', expected: { condition: ['new'] }, absent: ['adjustment'] },
+  { utterance: 'Etwas Neueres', locale: 'de', expected: { adjustment: ['newer'] } },
+
+  // Use cases from the catalogue
+  { utterance: 'A family car for three kids and a dog', intent: 'specify_filters', expected: { useCase: ['family'] } },
+  { utterance: 'Something for towing a caravan', expected: { useCase: ['towing'] } },
+  { utterance: 'A cheap city commuter', expected: { useCase: ['city-commuter'] } },
+  { utterance: 'A weekend fun car', expected: { useCase: ['weekend-fun'] } },
+  { utterance: 'An SUV with a tow bar', expected: { feature: ['trailerCoupling'] }, absent: ['useCase'] },
+  { utterance: 'Ein Familienauto mit Anhängerkupplung', locale: 'de', expected: { useCase: ['family'], feature: ['trailerCoupling'] } },
+  { utterance: 'Etwas zum Pendeln in der Stadt', locale: 'de', expected: { useCase: ['city-commuter'] } },
+  { utterance: 'Nein, das stimmt nicht', locale: 'de', intent: 'deny' },
+  { utterance: 'Ja, genau', locale: 'de', intent: 'confirm' },
+
+  // Waving off a follow-up question
+  { utterance: "I don't care", intent: 'dont_care' },
+  { utterance: 'No preference', intent: 'dont_care' },
+  { utterance: 'Das ist mir egal', locale: 'de', intent: 'dont_care' },
+
+  // Browsing results
+  { utterance: 'Read me the first three', intent: 'read_results', expected: { resultReference: [1, 2, 3] }, absent: ['seatsRange'] },
+  { utterance: 'Next page please', intent: 'next_page' },
+  { utterance: 'Go back a page', intent: 'previous_page' },
+  { utterance: 'Go back', intent: 'go_back' },
+  { utterance: 'Go back to my search', intent: 'return_to_search' },
+  { utterance: 'Zurück zu meiner Suche', locale: 'de', intent: 'return_to_search' },
+  { utterance: 'Tell me more about the second one', intent: 'car_details', expected: { resultReference: [2] } },
+  { utterance: 'Show me the last one', intent: 'car_details', expected: { resultReference: [-1] } },
+  { utterance: 'Compare the first and third', intent: 'compare_cars', expected: { resultReference: [1, 3] } },
+  { utterance: 'Compare the last two', intent: 'compare_cars', expected: { resultReference: [-2, -1] } },
+  { utterance: 'A car from its first owner', expected: { ownersRange: [{ max: 1 }] }, absent: ['resultReference'] },
+  { utterance: 'Lies mir die ersten drei vor', locale: 'de', intent: 'read_results', expected: { resultReference: [1, 2, 3] } },
+  { utterance: 'Vergleiche das erste und das dritte', locale: 'de', intent: 'compare_cars', expected: { resultReference: [1, 3] } },
+  { utterance: 'Mehr über den zweiten', locale: 'de', intent: 'car_details', expected: { resultReference: [2] } },
+  { utterance: 'Nächste Seite', locale: 'de', intent: 'next_page' },
+];
@@ -0,0 +1,261 @@
+// Evaluation harness for the voice assistant: scripted conversations run
+// through the real parser, intent routing and turn-taking, with speech
+// replaced by the scripted provider. Each turn is checked against what it
+// should produce, and the run is scored as intent accuracy and slot F1 so
+// changes to the parser can be measured rather than eyeballed.
+import { Car, CarFilters, ConversationState, ParsedEntityType } from '@/types/car';
+import { DialoguePlan } from '@/types/dialogue';
+import { LocaleCode, DEFAULT_LOCALE } from '@/locales';
+import { sampleCars } from '@/data/cars';
+import { DEFAULT_DIALOGUE_PLAN } from '@/data/dialoguePlan';
+import { createScriptedSpeechProvider, createTurnTaking } from '@/speech';
+import { filterCars } from '@/utils/filters';
+import { createVoiceAssistant } from '@/utils/voiceAssistant';
+import { ExpectedValue, describeValue, entityValue, sameValue } from './nlpRegression';
+
+export interface GoldenTurn {
+  user: string;
+  intent?: string;
+  // Entity values the parser should find; anything else it finds counts against precision
+  entities?: Partial<Record<ParsedEntityType, ExpectedValue[]>>;
+  // Values the user ruled out ("no diesel")
+  excluded?: Partial<Record<ParsedEntityType, ExpectedValue[]>>;
+  // The collected filters after the turn, in full
+  filters?: Partial<CarFilters>;
+  // Text each answer must contain, in the order the answers were spoken
+  replies?: string[];
+  // What the turn made the page do, e.g. "showCar:5" or "search"
+  actions?: string[];
+}
+
+export interface GoldenConversation {
+  name: string;
+  // Defaults to English
+  locale?: LocaleCode;
+  turns: GoldenTurn[];
+}
+
+export interface SlotScore {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface VoiceEvaluationFailure {
+  conversation: string;
+  // 1-based
+  turn: number;
+  user: string;
+  problems: string[];
+}
+
+export interface VoiceEvaluationReport {
+  conversations: number;
+  turns: number;
+  // Share of turns with an expected intent that got it
+  intentAccuracy: number;
+  // Over every turn that lists its entities, micro-averaged
+  slots: SlotScore;
+  slotsByType: Partial<Record<ParsedEntityType, SlotScore>>;
+  failures: VoiceEvaluationFailure[];
+}
+
+export interface VoiceEvaluationOptions {
+  cars?: Car[];
+  dialoguePlan?: DialoguePlan;
+}
+
+interface SlotCounts {
+  truePositives: number;
+  predicted: number;
+  expected: number;
+}
+
+// A found or expected entity: its type, value and whether it was ruled out
+interface Slot {
+  type: ParsedEntityType;
+  value: unknown;
+  negated: boolean;
+}
+
+const score = ({ truePositives, predicted, expected }: SlotCounts): SlotScore => {
+  // Nothing expected and nothing found is a perfect score, not a division by zero
+  const precision = predicted === 0 ? 1 : truePositives / predicted;
+  const recall = expected === 0 ? 1 : truePositives / expected;
+  return { precision, recall, f1: precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall) };
+};
+
+const expectedSlots = ({ entities = {}, excluded = {} }: GoldenTurn): Slot[] => [
+  ...Object.entries(entities).flatMap(([type, values]) =>
+    values.map(value => ({ type: type as ParsedEntityType, value, negated: false }))
+  ),
+  ...Object.entries(excluded).flatMap(([type, values]) =>
+    values.map(value => ({ type: type as ParsedEntityType, value, negated: true }))
+  ),
+];
+
+const describeSlot = ({ type, value, negated }: Slot) =>
+  `${type}: ${negated ? 'not ' : ''}${typeof value === 'object' ? JSON.stringify(value) : String(value)}`;
+
+// Unset filters and empty lists are the same as leaving a filter out; lists are compared as sets
+const normalizeFilters = (filters: Partial<CarFilters>) =>
+  JSON.stringify(
+    Object.entries(filters)
+      .filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+      .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+      .sort(([a], [b]) => String(a).localeCompare(String(b)))
+  );
+
+// Answers are spoken through promises; they have all been said once pending callbacks have run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Run the conversations and score them. Every conversation starts from a
+ * fresh session on the given inventory; pauses the page would make between
+ * an answer and what follows are skipped.
+ */
+export async function evaluateConversations(
+  conversations: GoldenConversation[],
+  { cars = sampleCars, dialoguePlan = DEFAULT_DIALOGUE_PLAN }: VoiceEvaluationOptions = {},
+): Promise<VoiceEvaluationReport> {
+  const failures: VoiceEvaluationFailure[] = [];
+  const totals: SlotCounts = { truePositives: 0, predicted: 0, expected: 0 };
+  const byType: Partial<Record<ParsedEntityType, SlotCounts>> = {};
+  let turnCount = 0;
+  let intentTurns = 0;
+  let intentHits = 0;
+
+  const count = (type: ParsedEntityType, key: keyof SlotCounts) => {
+    const counts = (byType[type] ??= { truePositives: 0, predicted: 0, expected: 0 });
+    counts[key]++;
+    totals[key]++;
+  };
+
+  for (const conversation of conversations) {
+    const locale = conversation.locale ?? DEFAULT_LOCALE;
+    const speech = createScriptedSpeechProvider();
+    const turns = createTurnTaking(speech);
+    let state: ConversationState = { currentStep: 'collecting_preferences', collectedFilters: {}, history: [] };
+    let shown: Car[] = cars;
+    let actions: string[] = [];
+
+    const assistant = createVoiceAssistant({
+      getState: () => state,
+      setState: next => {
+        state = next;
+      },
+      getLocale: () => locale,
+      listCars: () => cars,
+      shownCars: () => shown,
+      say: text => turns.say(text),
+      offerReplies: () => {},
+      // The page shows what the filters find, as the inventory page would
+      updateFilters: filters => {
+        shown = filterCars(cars, filters);
+        assistant.showResults(shown.map(car => car.id));
+      },
+      changeSort: sort => actions.push(`sort:${sort}`),
+      search: () => actions.push('search'),
+      notify: () => {},
+      openWishlist: () => actions.push('openWishlist'),
+      close: () => actions.push('close'),
+      navigation: {
+        showCar: id => actions.push(`showCar:${id}`),
+        compareCars: ids => actions.push(`compareCars:${ids.join(',')}`),
+        goBack: () => actions.push('goBack'),
+        returnToSearch: () => actions.push('returnToSearch'),
+      },
+      later: action => action(),
+      dialoguePlan: () => dialoguePlan,
+    });
+
+    let command: ReturnType<typeof assistant.handle> | undefined;
+    turns.onUtterance(text => {
+      command = assistant.handle(text);
+    });
+
+    assistant.start();
+    await settle();
+
+    for (const [index, turn] of conversation.turns.entries()) {
+      const spokenBefore = speech.spoken.length;
+      actions = [];
+      command = undefined;
+      turns.submit(turn.user);
+      await settle();
+
+      turnCount++;
+      const replies = speech.spoken.slice(spokenBefore);
+      const problems: string[] = [];
+      if (!command) {
+        failures.push({ conversation: conversation.name, turn: index + 1, user: turn.user, problems: ['not heard'] });
+        continue;
+      }
+
+      if (turn.intent) {
+        intentTurns++;
+        if (command.intent === turn.intent) intentHits++;
+        else problems.push(`intent: expected ${turn.intent}, got ${command.intent}`);
+      }
+
+      if (turn.entities || turn.excluded) {
+        const expected = expectedSlots(turn);
+        const found: Slot[] = command.entities.map(entity => ({
+          type: entity.type,
+          value: entityValue(entity),
+          negated: !!entity.negated,
+        }));
+        const unmatched = [...found];
+
+        expected.forEach(slot => {
+          count(slot.type, 'expected');
+          const at = unmatched.findIndex(candidate =>
+            candidate.type === slot.type && candidate.negated === slot.negated
+            && sameValue(candidate.value, slot.value as ExpectedValue)
+          );
+          if (at === -1) {
+            problems.push(`missing ${slot.type}: ${slot.negated ? 'not ' : ''}${describeValue(slot.value as ExpectedValue)}`);
+            return;
+          }
+          count(slot.type, 'truePositives');
+          unmatched.splice(at, 1);
+        });
+        found.forEach(slot => count(slot.type, 'predicted'));
+        unmatched.forEach(slot => problems.push(`unexpected ${describeSlot(slot)}`));
+      }
+
+      if (turn.filters && normalizeFilters(turn.filters) !== normalizeFilters(state.collectedFilters)) {
+        problems.push(`filters: expected ${normalizeFilters(turn.filters)}, got ${normalizeFilters(state.collectedFilters)}`);
+      }
+
+      (turn.replies ?? []).forEach((text, replyIndex) => {
+        const reply = replies[replyIndex];
+        if (!reply?.includes(text)) {
+          problems.push(`reply ${replyIndex + 1}: expected "${text}" in ${reply === undefined ? 'nothing' : `"${reply}"`}`);
+        }
+      });
+
+      if (turn.actions && JSON.stringify(turn.actions) !== JSON.stringify(actions)) {
+        problems.push(`actions: expected ${JSON.stringify(turn.actions)}, got ${JSON.stringify(actions)}`);
+      }
+
+      if (problems.length > 0) {
+        failures.push({ conversation: conversation.name, turn: index + 1, user: turn.user, problems });
+      }
+    }
+
+    turns.dispose();
+    speech.dispose();
+  }
+
+  return {
+    conversations: conversations.length,
+    turns: turnCount,
+    intentAccuracy: intentTurns === 0 ? 1 : intentHits / intentTurns,
+    slots: score(totals),
+    slotsByType: Object.fromEntries(
+      Object.entries(byType).map(([type, counts]) => [type, score(counts)])
+    ) as Partial<Record<ParsedEntityType, SlotScore>>,
+    failures,
+  };
+}